@@ -6,7 +6,7 @@ const inter = Inter({ subsets: ['latin'] })
 
 export const metadata: Metadata = {
   title: 'Mortgage Scenario Comparisons',
-  description: 'Compare two different mortgage scenarios, including payment options, amortization periods, and term lengths, to see how much money you can save.'
+  description: 'Compare multiple mortgage scenarios, including payment options, amortization periods, and term lengths, to see how much money you can save.'
 }
 
 export default function RootLayout({
@@ -1,14 +1,23 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import ScenarioComparisons from '@/components/mortgage-comparison-calculator'
+import { decodeShareState, type DecodedShareState } from '@/lib/share'
 import { Inter } from 'next/font/google'
 
 const inter = Inter({ subsets: ['latin'] })
 
 export default function Home() {
+  // The hash is only readable in the browser, so the calculator mounts once it has been decoded
+  const [shared, setShared] = useState<DecodedShareState | null>(null)
+
+  useEffect(() => {
+    setShared(decodeShareState(window.location.hash))
+  }, [])
+
   return (
     <main className={`flex min-h-screen flex-col items-center justify-between p-4 md:p-8 max-w-7xl mx-auto ${inter.className}`}>
-      <ScenarioComparisons/>
+      {shared && <ScenarioComparisons initialState={shared.state} shareWarning={shared.warning}/>}
     </main>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import type { MarketProfile, ScenarioComparison } from '@/lib/mortgage';
+import { getFormatters } from '@/lib/format';
+import { downloadFile, toFileName } from '@/lib/export/download';
+import { scheduleToCsv } from '@/lib/export/schedule-csv';
+
+interface AmortizationScheduleTableProps {
+  scenarios: ScenarioComparison[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  getColor: (id: string) => string;
+  market: MarketProfile;
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Yearly amortization schedule that expands into the individual payments of each year
+const AmortizationScheduleTable = ({ scenarios, selectedId, onSelect, getColor, market }: AmortizationScheduleTableProps) => {
+  const { formatCurrency } = getFormatters(market);
+  const [expandedYears, setExpandedYears] = useState<number[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const selected = scenarios.find(scenario => scenario.id === selectedId) ?? scenarios[0];
+  if (!selected) return null;
+
+  const toggleYear = (year: number) => {
+    setExpandedYears(prev => (prev.includes(year) ? prev.filter(y => y !== year) : [...prev, year]));
+  };
+
+  const exportCsv = () => {
+    downloadFile(scheduleToCsv(selected.result.paymentSchedule), `${toFileName(selected.name)}-schedule.csv`, 'text/csv');
+  };
+
+  // The workbook writer is loaded on demand to keep it out of the main bundle
+  const exportWorkbook = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const { scheduleWorkbookToBuffer } = await import('@/lib/export/schedule-workbook');
+      const buffer = await scheduleWorkbookToBuffer(scenarios.map(scenario => ({
+        name: scenario.name,
+        payments: scenario.result.paymentSchedule
+      })));
+      downloadFile(buffer, 'mortgage-schedules.xlsx', XLSX_MIME_TYPE);
+    } catch (error) {
+      setExportError(`The workbook could not be created${error instanceof Error ? `: ${error.message}` : ''}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border rounded-lg p-4 shadow">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Amortization Schedule</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {exportError && <span role="alert" className="text-xs text-red-600">{exportError}</span>}
+          <button
+            className="px-3 py-1 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+            onClick={exportCsv}
+          >
+            Export CSV
+          </button>
+          <button
+            className="px-3 py-1 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            onClick={exportWorkbook}
+            disabled={isExporting}
+          >
+            {isExporting ? 'Exporting…' : 'Export Excel (all scenarios)'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {scenarios.map(scenario => (
+          <button
+            key={scenario.id}
+            className={`px-3 py-1 text-sm rounded ${scenario.id === selected.id ? `${getColor(scenario.id)} font-semibold text-gray-900` : 'bg-gray-50 text-gray-600 hover:bg-gray-100'}`}
+            onClick={() => onSelect(scenario.id)}
+          >
+            {scenario.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Year / Payment</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Interest</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Principal</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Extra</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {selected.result.amortizationSchedule.map(item => {
+              const isExpanded = expandedYears.includes(item.year);
+              const payments = isExpanded
+                ? selected.result.paymentSchedule.filter(payment => payment.year === item.year)
+                : [];
+
+              return (
+                <React.Fragment key={item.year}>
+                  <tr className="cursor-pointer hover:bg-gray-50" onClick={() => toggleYear(item.year)}>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                      <span className="inline-block w-4 text-gray-400">{isExpanded ? '▾' : '▸'}</span>
+                      Year {item.year}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500"></td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500 text-right">{formatCurrency(item.interestPaid + item.principalPaid)}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500 text-right">{formatCurrency(item.interestPaid)}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500 text-right">{formatCurrency(item.principalPaid - item.extraPayments)}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500 text-right">{formatCurrency(item.extraPayments)}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900 text-right">{formatCurrency(item.endingBalance)}</td>
+                  </tr>
+                  {payments.map(payment => (
+                    <tr key={payment.paymentNumber} className="bg-gray-50">
+                      <td className="pl-10 pr-3 py-1 whitespace-nowrap text-xs text-gray-600">#{payment.paymentNumber}</td>
+                      <td className="px-3 py-1 whitespace-nowrap text-xs text-gray-600">{payment.date}</td>
+                      <td className="px-3 py-1 whitespace-nowrap text-xs text-gray-600 text-right">{formatCurrency(payment.payment)}</td>
+                      <td className="px-3 py-1 whitespace-nowrap text-xs text-gray-600 text-right">{formatCurrency(payment.interest)}</td>
+                      <td className="px-3 py-1 whitespace-nowrap text-xs text-gray-600 text-right">{formatCurrency(payment.principal)}</td>
+                      <td className="px-3 py-1 whitespace-nowrap text-xs text-gray-600 text-right">{formatCurrency(payment.extra)}</td>
+                      <td className="px-3 py-1 whitespace-nowrap text-xs text-gray-700 text-right">{formatCurrency(payment.balance)}</td>
+                    </tr>
+                  ))}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AmortizationScheduleTable;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { type BorrowerProfile, type MarketProfile } from '@/lib/mortgage';
+
+interface BorrowerPanelProps {
+  borrower: BorrowerProfile;
+  market: MarketProfile;
+  onChange: (borrower: BorrowerProfile) => void;
+}
+
+const FIELDS: { name: keyof BorrowerProfile; label: string }[] = [
+  { name: 'annualIncome', label: 'Gross Annual Income' },
+  { name: 'heating', label: 'Monthly Heating' },
+  { name: 'otherDebts', label: 'Other Monthly Debt Payments' }
+];
+
+// Borrower details shared by every scenario for the debt service and stress test checks
+const BorrowerPanel = ({ borrower, market, onChange }: BorrowerPanelProps) => {
+  const { qualification: rules, labels } = market;
+  const hasStressTest = rules.stressTestBuffer > 0 || rules.minimumQualifyingRate > 0;
+
+  return (
+    <div className="md:col-span-2 p-4 bg-gray-50 rounded-lg shadow">
+      <h2 className="text-lg font-semibold mb-1 text-gray-800">Borrower</h2>
+      <p className="text-xs text-gray-500 mb-3">
+        Used to check qualification: {labels.housingRatio} up to {rules.maxGds}% and {labels.totalRatio} up to {rules.maxTds}% at the
+        {hasStressTest
+          ? ` greater of the contract rate plus ${rules.stressTestBuffer}% and ${rules.minimumQualifyingRate}%.`
+          : ' contract rate.'}{' '}
+        Property tax and condo fees come from each scenario&apos;s ownership costs. Leave income empty to skip.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {FIELDS.map(field => (
+          <div key={field.name}>
+            <label className="block text-sm font-medium mb-1 text-gray-700">{field.label}</label>
+            <div className="relative">
+              <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-500">$</span>
+              <input
+                type="number"
+                className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+                value={borrower[field.name] === 0 ? '' : borrower[field.name]}
+                onChange={(e) => onChange({ ...borrower, [field.name]: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BorrowerPanel;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import type { Comparison, Scenario } from '@/lib/mortgage';
+import { downloadFile, toFileName } from '@/lib/export/download';
+import {
+  buildClientReport,
+  EMPTY_BROKER_DETAILS,
+  loadBrokerDetails,
+  saveBrokerDetails,
+  type BrokerDetails
+} from '@/lib/export/client-report';
+
+interface ClientReportPanelProps {
+  scenarios: Scenario[];
+  comparison: Comparison;
+  colors: string[];
+}
+
+const BROKER_FIELDS: { name: keyof BrokerDetails; label: string }[] = [
+  { name: 'name', label: 'Broker Name' },
+  { name: 'company', label: 'Brokerage' },
+  { name: 'licence', label: 'Licence Number' },
+  { name: 'phone', label: 'Phone' },
+  { name: 'email', label: 'Email' }
+];
+
+const INPUT_CLASS = 'w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500';
+
+// Client-ready PDF of the comparison with the broker's own header, generated without a server
+const ClientReportPanel = ({ scenarios, comparison, colors }: ClientReportPanelProps) => {
+  const [broker, setBroker] = useState<BrokerDetails>(EMPTY_BROKER_DETAILS);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaved, setIsSaved] = useState(true);
+  const [preparedFor, setPreparedFor] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  // The broker header is remembered in this browser between sessions
+  useEffect(() => {
+    setBroker(loadBrokerDetails(window.localStorage));
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) setIsSaved(saveBrokerDetails(window.localStorage, broker));
+  }, [broker, isLoaded]);
+
+  // The PDF writer is loaded on demand to keep it out of the main bundle
+  const generateReport = async (action: 'download' | 'print') => {
+    setIsGenerating(true);
+    setReportError(null);
+    try {
+      const { createClientReportPdf } = await import('@/lib/export/client-report-pdf');
+      const doc = createClientReportPdf(buildClientReport({ scenarios, comparison, broker, preparedFor, colors }));
+
+      if (action === 'print') {
+        doc.autoPrint();
+        window.open(doc.output('bloburl'), '_blank');
+      } else {
+        const name = preparedFor.trim() ? `${toFileName(preparedFor)}-mortgage-comparison` : 'mortgage-comparison';
+        downloadFile(doc.output('arraybuffer'), `${name}.pdf`, 'application/pdf');
+      }
+    } catch (error) {
+      setReportError(`The report could not be created${error instanceof Error ? `: ${error.message}` : ''}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border rounded-lg p-4 shadow">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-lg font-semibold text-gray-800">Client Report</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {reportError && <span role="alert" className="text-xs text-red-600">{reportError}</span>}
+          <button
+            className="px-3 py-1 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            onClick={() => generateReport('print')}
+            disabled={isGenerating}
+          >
+            Print
+          </button>
+          <button
+            className="px-3 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            onClick={() => generateReport('download')}
+            disabled={isGenerating}
+          >
+            {isGenerating ? 'Generating…' : 'Generate Report (PDF)'}
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Includes the scenario inputs, summary, charts, detailed comparison and yearly schedules.
+        {isSaved ? ' Broker details are saved in this browser.' : ' Broker details could not be saved in this browser and will need to be entered again next time.'}
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-medium mb-1 text-gray-700">Prepared For</label>
+          <input className={INPUT_CLASS} value={preparedFor} placeholder="Client name" onChange={(e) => setPreparedFor(e.target.value)} />
+        </div>
+        {BROKER_FIELDS.map(field => (
+          <div key={field.name}>
+            <label className="block text-sm font-medium mb-1 text-gray-700">{field.label}</label>
+            <input
+              className={INPUT_CLASS}
+              value={broker[field.name]}
+              onChange={(e) => setBroker({ ...broker, [field.name]: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ClientReportPanel;
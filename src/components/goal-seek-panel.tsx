@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import {
+  GOAL_SEEK_METRICS,
+  getGoalSeekMetricValue,
+  getGoalSeekVariable,
+  getGoalSeekVariables,
+  solveGoalSeek,
+  type BorrowerProfile,
+  type Comparison,
+  type GoalSeekMetric,
+  type GoalSeekResult,
+  type GoalSeekVariable,
+  type MarketProfile,
+  type NumericScenarioField,
+  type Scenario,
+  type ScenarioState
+} from '@/lib/mortgage';
+import { getFormatters } from '@/lib/format';
+
+interface GoalSeekPanelProps {
+  scenarios: Scenario[];
+  comparison: Comparison;
+  borrower: BorrowerProfile;
+  market: MarketProfile;
+  onApply: (id: string, field: NumericScenarioField, value: number) => void;
+}
+
+const SELECT_CLASS = 'w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Solves the inputs backwards: the one value of a chosen input that brings a result to a target
+const GoalSeekPanel = ({ scenarios, comparison, borrower, market, onApply }: GoalSeekPanelProps) => {
+  const { formatCurrency, formatPercent } = getFormatters(market);
+  const formatValue = (unit: GoalSeekVariable['unit'], value: number) => {
+    if (!Number.isFinite(value)) return '—';
+    if (unit === '$') return formatCurrency(value);
+    if (unit === '%') return formatPercent(value);
+    return unit === 'years' ? `${value.toFixed(value % 1 ? 1 : 0)} yrs` : `${value} months`;
+  };
+
+  const [scenarioId, setScenarioId] = useState('');
+  const [selectedField, setField] = useState<NumericScenarioField>('purchasePrice');
+  const [metric, setMetric] = useState<GoalSeekMetric>('monthlyPayment');
+  const [targetSource, setTargetSource] = useState('value');
+  const [targetValue, setTargetValue] = useState(3000);
+  const [solution, setSolution] = useState<{ inputs: ScenarioState; target: number; result: GoalSeekResult } | null>(null);
+
+  const selected = scenarios.find(scenario => scenario.id === scenarioId) ?? scenarios[0];
+  if (!selected) return null;
+
+  // An input the scenario does not use, such as the term of an ARM, falls back to the first one
+  const variables = getGoalSeekVariables(selected.inputs);
+  const field = variables.some(item => item.field === selectedField) ? selectedField : variables[0].field;
+  const variable = getGoalSeekVariable(selected.inputs, field);
+  const metricOption = GOAL_SEEK_METRICS.find(item => item.value === metric) ?? GOAL_SEEK_METRICS[0];
+  const matched = comparison.scenarios.find(scenario => scenario.id === targetSource && scenario.id !== selected.id);
+  const target = matched ? getGoalSeekMetricValue(matched.result, metric) : targetValue;
+
+  // A solution only stands for the inputs it was solved from
+  const current = solution?.inputs === selected.inputs ? solution : null;
+
+  const solve = () => {
+    setSolution({ inputs: selected.inputs, target, result: solveGoalSeek(selected.inputs, field, metric, target, { borrower }) });
+  };
+
+  const resetSolution = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setSolution(null);
+  };
+
+  return (
+    <div className="bg-white border rounded-lg p-4 shadow">
+      <h3 className="text-lg font-semibold mb-1 text-gray-800">Solve for an Input</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Finds the value of one input that brings a result to a target, such as the price a payment affords, the extra payment that
+        pays off sooner or the rate at which one scenario matches another. Everything else stays as entered.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 mb-4">
+        <div>
+          <label className="block text-sm font-medium mb-1 text-gray-700">Scenario</label>
+          <select className={SELECT_CLASS} value={selected.id} onChange={(e) => resetSolution(setScenarioId)(e.target.value)}>
+            {scenarios.map(scenario => (
+              <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1 text-gray-700">Solve For</label>
+          <select
+            className={SELECT_CLASS}
+            value={field}
+            onChange={(e) => resetSolution(setField)(e.target.value as NumericScenarioField)}
+          >
+            {variables.map(item => (
+              <option key={item.field} value={item.field}>{item.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1 text-gray-700">So That</label>
+          <select className={SELECT_CLASS} value={metric} onChange={(e) => resetSolution(setMetric)(e.target.value as GoalSeekMetric)}>
+            {GOAL_SEEK_METRICS.map(item => (
+              <option key={item.value} value={item.value}>{item.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1 text-gray-700">Equals</label>
+          <select className={SELECT_CLASS} value={matched ? targetSource : 'value'} onChange={(e) => resetSolution(setTargetSource)(e.target.value)}>
+            <option value="value">A value</option>
+            {scenarios.filter(scenario => scenario.id !== selected.id).map(scenario => (
+              <option key={scenario.id} value={scenario.id}>{scenario.name}&apos;s value</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1 text-gray-700">Target</label>
+          {matched ? (
+            <div className="py-2 text-gray-800">{formatValue(metricOption.unit, target)}</div>
+          ) : (
+            <input
+              type="number"
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+              value={targetValue}
+              onChange={(e) => resetSolution(setTargetValue)(Number(e.target.value))}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button className="px-3 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700" onClick={solve}>
+          Solve
+        </button>
+        {current && (current.result.solved ? (
+          <>
+            <span className="text-sm text-gray-800">
+              {variable.label} of <span className="font-semibold">{formatValue(variable.unit, current.result.value)}</span> gives{' '}
+              {metricOption.label.toLowerCase()} of {formatValue(metricOption.unit, current.result.metricValue)}
+            </span>
+            <button
+              className="px-3 py-1 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+              onClick={() => onApply(selected.id, field, current.result.value)}
+            >
+              Apply to {selected.name}
+            </button>
+          </>
+        ) : (
+          <span className="text-sm text-red-600">
+            {Number.isFinite(current.result.metricValue)
+              ? `No ${variable.label.toLowerCase()} from ${formatValue(variable.unit, variable.min)} to ${formatValue(variable.unit, variable.max)} `
+                + `reaches ${formatValue(metricOption.unit, current.target)}. The closest is ${formatValue(variable.unit, current.result.value)}, `
+                + `giving ${formatValue(metricOption.unit, current.result.metricValue)}.`
+              : `${metricOption.label} needs the borrower's income.`}
+          </span>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Where the target falls between two steps of the input, the solution keeps {metricOption.label.toLowerCase()} at or below it.
+      </p>
+    </div>
+  );
+};
+
+export default GoalSeekPanel;
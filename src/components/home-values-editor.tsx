@@ -0,0 +1,69 @@
+import React from 'react';
+import { addMonths, todayISODate, type HomeValue } from '@/lib/mortgage';
+
+interface HomeValuesEditorProps {
+  homeValues: HomeValue[];
+  purchasePrice: number;
+  appreciationRate: number;
+  onChange: (homeValues: HomeValue[]) => void;
+}
+
+// Dated list of expected market values, such as an appraisal or a planned renovation
+const HomeValuesEditor = ({ homeValues, purchasePrice, appreciationRate, onChange }: HomeValuesEditorProps) => {
+  const updateHomeValue = (index: number, update: Partial<HomeValue>) => {
+    onChange(homeValues.map((homeValue, i) => (i === index ? { ...homeValue, ...update } : homeValue)));
+  };
+
+  // New values default to five years after the previous one, grown at the appreciation rate
+  const addHomeValue = () => {
+    const previous = homeValues[homeValues.length - 1];
+    const value = (previous?.value ?? purchasePrice) * Math.pow(1 + appreciationRate / 100, 5);
+    onChange([...homeValues, { date: addMonths(previous?.date ?? todayISODate(), 60), value: Math.round(value / 1000) * 1000 }]);
+  };
+
+  const removeHomeValue = (index: number) => {
+    onChange(homeValues.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="mb-3">
+      <label className="block text-sm font-medium mb-1 text-gray-700">Expected Home Values</label>
+      {homeValues.map((homeValue, index) => (
+        <div key={index} className="flex items-center gap-2 mb-2">
+          <input
+            type="date"
+            aria-label="Date"
+            className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500"
+            value={homeValue.date}
+            onChange={(e) => e.target.value && updateHomeValue(index, { date: e.target.value })}
+          />
+          <div className="relative w-32">
+            <span className="absolute inset-y-0 left-0 flex items-center pl-2 text-gray-500 text-sm">$</span>
+            <input
+              type="number"
+              min={0}
+              aria-label="Value"
+              className="w-full pl-6 pr-2 py-1 border border-gray-300 rounded text-sm focus:ring-blue-500 focus:border-blue-500"
+              value={homeValue.value}
+              onChange={(e) => updateHomeValue(index, { value: Math.max(Number(e.target.value), 0) })}
+            />
+          </div>
+          <button
+            className="text-xs text-red-600 hover:underline"
+            onClick={() => removeHomeValue(index)}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button
+        className="text-sm text-blue-700 hover:underline"
+        onClick={addHomeValue}
+      >
+        + Add expected value
+      </button>
+    </div>
+  );
+};
+
+export default HomeValuesEditor;
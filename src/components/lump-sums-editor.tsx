@@ -0,0 +1,88 @@
+import React from 'react';
+import { addMonths, todayISODate, type LumpSum } from '@/lib/mortgage';
+
+interface LumpSumsEditorProps {
+  lumpSums: LumpSum[];
+  onChange: (lumpSums: LumpSum[]) => void;
+}
+
+// One-time prepayments such as a bonus or an inheritance, each on a date or with a numbered payment
+const LumpSumsEditor = ({ lumpSums, onChange }: LumpSumsEditorProps) => {
+  const updateLumpSum = (index: number, update: Partial<LumpSum>) => {
+    onChange(lumpSums.map((lumpSum, i) => (i === index ? { ...lumpSum, ...update } : lumpSum)));
+  };
+
+  // New lump sums default to a year after the previous dated one
+  const addLumpSum = () => {
+    const previous = [...lumpSums].reverse().find(lumpSum => lumpSum.date);
+    onChange([...lumpSums, { date: addMonths(previous?.date ?? todayISODate(), 12), paymentNumber: 0, amount: 10000 }]);
+  };
+
+  const removeLumpSum = (index: number) => {
+    onChange(lumpSums.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="mb-3">
+      <label className="block text-sm font-medium mb-1 text-gray-700">One-Time Lump Sums</label>
+      {lumpSums.map((lumpSum, index) => (
+        <div key={index} className="flex items-center gap-2 mb-2">
+          <select
+            aria-label="Paid on"
+            className="border border-gray-300 rounded px-1 py-1 text-sm focus:ring-blue-500 focus:border-blue-500"
+            value={lumpSum.date ? 'date' : 'payment'}
+            onChange={(e) => updateLumpSum(index, e.target.value === 'date'
+              ? { date: todayISODate(), paymentNumber: 0 }
+              : { date: '', paymentNumber: 1 })}
+          >
+            <option value="date">Date</option>
+            <option value="payment">Payment #</option>
+          </select>
+          {lumpSum.date ? (
+            <input
+              type="date"
+              aria-label="Date"
+              className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500"
+              value={lumpSum.date}
+              onChange={(e) => e.target.value && updateLumpSum(index, { date: e.target.value })}
+            />
+          ) : (
+            <input
+              type="number"
+              min={1}
+              aria-label="Payment number"
+              className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500"
+              value={lumpSum.paymentNumber}
+              onChange={(e) => updateLumpSum(index, { paymentNumber: Math.max(Math.round(Number(e.target.value)), 1) })}
+            />
+          )}
+          <div className="relative w-28">
+            <span className="absolute inset-y-0 left-0 flex items-center pl-2 text-gray-500 text-sm">$</span>
+            <input
+              type="number"
+              min={0}
+              aria-label="Amount"
+              className="w-full pl-6 pr-2 py-1 border border-gray-300 rounded text-sm focus:ring-blue-500 focus:border-blue-500"
+              value={lumpSum.amount}
+              onChange={(e) => updateLumpSum(index, { amount: Math.max(Number(e.target.value), 0) })}
+            />
+          </div>
+          <button
+            className="text-xs text-red-600 hover:underline"
+            onClick={() => removeLumpSum(index)}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button
+        className="text-sm text-blue-700 hover:underline"
+        onClick={addLumpSum}
+      >
+        + Add lump sum
+      </button>
+    </div>
+  );
+};
+
+export default LumpSumsEditor;
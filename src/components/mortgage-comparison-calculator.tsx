@@ -1,508 +1,371 @@
-import React, { useState, useEffect } from 'react';
-import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-
-// Add type definition for scenario state
-type ScenarioState = {
-  purchasePrice: number;
-  downPayment: number;
-  downPaymentType: string;
-  interestRate: number;
-  amortizationPeriod: number;
-  term: number;
-  paymentFrequency: string;
-  extraPayment: number;
-  paymentIncrease: number;
-  annualPrepayment: number;
-  [key: string]: number | string; // Index signature
-};
+import React, { useState, useEffect, useRef } from 'react';
+import { ComposedChart, Area, Line, LineChart, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceDot } from 'recharts';
+import {
+  ARM_PRODUCTS,
+  COMPOUNDING_CONVENTIONS,
+  DEFAULT_BORROWER,
+  DEFAULT_ECONOMICS,
+  DEFAULT_MONTE_CARLO,
+  DEFAULT_PREPAY_VS_INVEST,
+  DEFAULT_REFINANCE,
+  DEFAULT_RENT_VS_BUY,
+  DEFAULT_SCENARIO_INPUTS,
+  LOAN_TO_VALUE_THRESHOLDS,
+  MARKETS,
+  PAYMENT_FREQUENCIES,
+  PREPAYMENT_PRIVILEGES,
+  PMI_RULES,
+  PROVINCES,
+  VARIABLE_PAYMENT_TYPES,
+  addBalanceBands,
+  applyMarket,
+  calculateMortgageInsurance,
+  compareScenarios,
+  getBalanceChartData,
+  getContractRate,
+  getDownPaymentAmount,
+  getEquityChartData,
+  getInterestChartData,
+  getMarket,
+  getProvince,
+  type Comparison,
+  type LumpSum,
+  type ComparisonDifferences,
+  type HomeValue,
+  type LoanToValueCrossing,
+  type MortgageResult,
+  type NumericScenarioField,
+  type PrepaymentBreach,
+  type PrimeRateChange,
+  type Qualification,
+  type RenewalTerm,
+  type Scenario,
+  type ScenarioState
+} from '@/lib/mortgage';
+import { getFormatters } from '@/lib/format';
+import { REPORT_DISCLAIMER } from '@/lib/export/client-report';
+import { encodeShareState, type SharedState } from '@/lib/share';
+import AmortizationScheduleTable from '@/components/amortization-schedule-table';
+import BorrowerPanel from '@/components/borrower-panel';
+import ClientReportPanel from '@/components/client-report-panel';
+import GoalSeekPanel from '@/components/goal-seek-panel';
+import HomeValuesEditor from '@/components/home-values-editor';
+import LumpSumsEditor from '@/components/lump-sums-editor';
+import PrepayVsInvestPanel from '@/components/prepay-vs-invest-panel';
+import PrimeRateChangesEditor from '@/components/prime-rate-changes-editor';
+import RateSimulationPanel, { type RateSimulation } from '@/components/rate-simulation-panel';
+import RefinanceView from '@/components/refinance-view';
+import RenewalTermsEditor from '@/components/renewal-terms-editor';
+import RentVsBuyView from '@/components/rent-vs-buy-view';
+import ScenarioLibrary from '@/components/scenario-library';
+import SensitivityView from '@/components/sensitivity-view';
 
-interface AmortizationItem {
-  year: number;
-  principalPaid: number;
-  interestPaid: number;
-  extraPayments: number;
-  endingBalance: number;
-}
+// Tailwind needs complete class names, so each scenario slot gets its own palette entry
+const SCENARIO_COLORS = [
+  { panel: 'bg-blue-50', heading: 'text-blue-800', badge: 'bg-blue-100', stroke: '#2563eb', fill: '#93c5fd' },
+  { panel: 'bg-green-50', heading: 'text-green-800', badge: 'bg-green-100', stroke: '#16a34a', fill: '#86efac' },
+  { panel: 'bg-purple-50', heading: 'text-purple-800', badge: 'bg-purple-100', stroke: '#9333ea', fill: '#d8b4fe' },
+  { panel: 'bg-amber-50', heading: 'text-amber-800', badge: 'bg-amber-100', stroke: '#d97706', fill: '#fcd34d' },
+  { panel: 'bg-rose-50', heading: 'text-rose-800', badge: 'bg-rose-100', stroke: '#e11d48', fill: '#fda4af' },
+  { panel: 'bg-teal-50', heading: 'text-teal-800', badge: 'bg-teal-100', stroke: '#0d9488', fill: '#5eead4' },
+  { panel: 'bg-indigo-50', heading: 'text-indigo-800', badge: 'bg-indigo-100', stroke: '#4f46e5', fill: '#a5b4fc' },
+  { panel: 'bg-orange-50', heading: 'text-orange-800', badge: 'bg-orange-100', stroke: '#ea580c', fill: '#fdba74' }
+];
 
-interface MortgageResult {
-  monthlyPayment: number;
-  totalMortgage: number;
-  totalInterestTerm: number;
-  totalInterestLifetime: number;
-  balanceAtEndOfTerm: number;
-  effectiveAmortization: number;
-  amortizationSchedule: AmortizationItem[];
-}
+const MAX_SCENARIOS = SCENARIO_COLORS.length;
 
-export interface Comparison {
-  scenarioA: MortgageResult;
-  scenarioB: MortgageResult;
+const INITIAL_SCENARIOS: Scenario[] = [
+  { id: 'scenario-1', name: 'Scenario A', inputs: DEFAULT_SCENARIO_INPUTS },
+  {
+    id: 'scenario-2',
+    name: 'Scenario B',
+    inputs: {
+      ...DEFAULT_SCENARIO_INPUTS,
+      interestRate: 4.5,
+      paymentFrequency: 'accelerated_biweekly',
+      extraPayment: 200
+    }
+  }
+];
+
+interface MortgageComparisonCalculatorProps {
+  initialState?: SharedState | null;
+  shareWarning?: string | null;
 }
 
-const MortgageComparisonCalculator = () => {
+const MortgageComparisonCalculator = ({ initialState, shareWarning }: MortgageComparisonCalculatorProps) => {
+  // A shared link replaces the built-in starting scenarios
+  const initialScenarios = initialState?.scenarios.slice(0, MAX_SCENARIOS) ?? INITIAL_SCENARIOS;
+
+  // State for the scenario list and the baseline every other scenario is compared against
+  const [scenarios, setScenarios] = useState<Scenario[]>(initialScenarios);
+
+  // Every scenario follows one market, which also sets the currency and number formats for this render
+  const market = getMarket(scenarios[0]?.inputs.market ?? DEFAULT_SCENARIO_INPUTS.market);
+  const { formatCurrency, formatPercent } = getFormatters(market);
+
   // Constants
-  const PAYMENT_FREQUENCIES = [
-    { value: 'monthly', label: 'Monthly', paymentsPerYear: 12 },
-    { value: 'biweekly', label: 'Bi-Weekly', paymentsPerYear: 26 },
-    { value: 'accelerated_biweekly', label: 'Accelerated Bi-Weekly', paymentsPerYear: 26 },
-    { value: 'weekly', label: 'Weekly', paymentsPerYear: 52 },
-    { value: 'accelerated_weekly', label: 'Accelerated Weekly', paymentsPerYear: 52 }
-  ];
-
-  const AMORTIZATION_PERIODS = Array.from({ length: 26 }, (_, i) => i + 5)
-    .filter(year => year <= 30)
+  const AMORTIZATION_PERIODS = Array.from({ length: 36 }, (_, i) => i + 5)
+    .filter(year => year <= market.maxAmortization)
     .map(year => ({ value: year, label: `${year} Years` }));
 
   const TERM_LENGTHS = Array.from({ length: 10 }, (_, i) => i + 1)
     .map(year => ({ value: year, label: `${year} Year${year > 1 ? 's' : ''}` }));
 
-  // State for both scenarios
-  const [scenarioA, setScenarioA] = useState<ScenarioState>({
-    purchasePrice: 500000,
-    downPayment: 100000,
-    downPaymentType: 'amount',
-    interestRate: 5.5,
-    amortizationPeriod: 25,
-    term: 5,
-    paymentFrequency: 'monthly',
-    extraPayment: 0,
-    paymentIncrease: 0,
-    annualPrepayment: 0
-  });
-
-  const [scenarioB, setScenarioB] = useState<ScenarioState>({
-    purchasePrice: 500000,
-    downPayment: 100000,
-    downPaymentType: 'amount',
-    interestRate: 4.5,
-    amortizationPeriod: 25,
-    term: 5,
-    paymentFrequency: 'accelerated_biweekly',
-    extraPayment: 200,
-    paymentIncrease: 0,
-    annualPrepayment: 0
-  });
+  const [baselineId, setBaselineId] = useState(initialState?.baselineId ?? initialScenarios[0].id);
+  const nextScenarioNumber = useRef(initialScenarios.length + 1);
+  const [borrower, setBorrower] = useState(initialState?.borrower ?? DEFAULT_BORROWER);
+  const [rentVsBuy, setRentVsBuy] = useState(initialState?.rentVsBuy ?? DEFAULT_RENT_VS_BUY);
+  const [prepayVsInvest, setPrepayVsInvest] = useState(initialState?.prepayVsInvest ?? DEFAULT_PREPAY_VS_INVEST);
+  const [refinance, setRefinance] = useState(initialState?.refinance ?? DEFAULT_REFINANCE);
+  const [monteCarlo, setMonteCarlo] = useState(initialState?.monteCarlo ?? DEFAULT_MONTE_CARLO);
+  const [rateSimulation, setRateSimulation] = useState<RateSimulation | null>(null);
+  const [economics, setEconomics] = useState(initialState?.economics ?? DEFAULT_ECONOMICS);
+  const [showRealDollars, setShowRealDollars] = useState(initialState?.display.showRealDollars ?? false);
 
   // State for comparison results
-  const [comparison, setComparison] = useState<{
-    scenarioA: MortgageResult;
-    scenarioB: MortgageResult;
-    differences: {
-      monthlyPayment: number;
-      totalInterestTerm: number;
-      totalInterestLifetime: number;
-      balanceAtEndOfTerm: number;
-      timeShaved: number;
-    };
-  }>({
-    scenarioA: {
-      monthlyPayment: 0,
-      totalMortgage: 0,
-      totalInterestTerm: 0,
-      totalInterestLifetime: 0,
-      balanceAtEndOfTerm: 0,
-      effectiveAmortization: 0,
-      amortizationSchedule: [] as AmortizationItem[]
-    },
-    scenarioB: {
-      monthlyPayment: 0,
-      totalMortgage: 0,
-      totalInterestTerm: 0,
-      totalInterestLifetime: 0,
-      balanceAtEndOfTerm: 0,
-      effectiveAmortization: 0,
-      amortizationSchedule: [] as AmortizationItem[]
-    },
-    differences: {
-      monthlyPayment: 0,
-      totalInterestTerm: 0,
-      totalInterestLifetime: 0,
-      balanceAtEndOfTerm: 0,
-      timeShaved: 0
-    }
-  });
+  const [comparison, setComparison] = useState<Comparison>(
+    () => compareScenarios(initialScenarios, baselineId, { borrower, economics })
+  );
 
-  const [activeTab, setActiveTab] = useState('input');
+  const [activeTab, setActiveTab] = useState(initialState?.activeTab ?? 'input');
+  const [scheduleScenarioId, setScheduleScenarioId] = useState(initialState?.display.scheduleScenarioId ?? initialScenarios[0].id);
+
+  // Share link feedback and any problem restoring the link this page was opened with
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+  const [restoreWarning, setRestoreWarning] = useState(shareWarning ?? null);
+
+  useEffect(() => {
+    if (!shareStatus) return;
+    const timer = setTimeout(() => setShareStatus(null), 3000);
+    return () => clearTimeout(timer);
+  }, [shareStatus]);
 
   // Utility functions
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-CA', { style: 'currency', currency: 'CAD' }).format(value);
+  const getScenarioColor = (id: string) => {
+    const index = scenarios.findIndex(scenario => scenario.id === id);
+    return SCENARIO_COLORS[Math.max(0, index) % SCENARIO_COLORS.length];
   };
 
-  const formatPercent = (value: number) => {
-    return new Intl.NumberFormat('en-CA', { style: 'percent', minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value / 100);
+  // Pick the first "Scenario X" name that is not already taken
+  const getNextScenarioName = () => {
+    const names = new Set(scenarios.map(scenario => scenario.name));
+    for (let i = 0; i < 26; i++) {
+      const name = `Scenario ${String.fromCharCode(65 + i)}`;
+      if (!names.has(name)) return name;
+    }
+    return `Scenario ${scenarios.length + 1}`;
+  };
+
+  const createScenarioId = () => `scenario-${nextScenarioNumber.current++}`;
+
+  const updateScenarioInputs = (id: string, update: (inputs: ScenarioState) => ScenarioState) => {
+    setScenarios(prev => prev.map(scenario => (
+      scenario.id === id ? { ...scenario, inputs: update(scenario.inputs) } : scenario
+    )));
   };
 
-  // Handle input changes for Scenario A
-  const handleScenarioAChange = (name: keyof ScenarioState, value: string | number) => {
+  // Handle input changes for a scenario
+  const handleScenarioChange = (id: string, name: keyof ScenarioState, value: string | number) => {
+    const inputs = scenarios.find(scenario => scenario.id === id)?.inputs;
+    if (!inputs) return;
+
     // Handle empty string
-    if (value === '') {
-      setScenarioA(prev => ({ ...prev, [name]: '' }));
+    if (value === '' && typeof inputs[name] === 'number') {
+      updateScenarioInputs(id, prev => ({ ...prev, [name]: '' }));
       return;
     }
-    
+
     // For numeric fields
-    if (typeof scenarioA[name] === 'number') {
+    if (typeof inputs[name] === 'number') {
       // Convert to number and prevent leading zeros
       const numericValue = typeof value === 'string' ? value.replace(/^0+(?=\d)/, '') : String(value);
       value = Number(numericValue);
     }
-    
-    const updatedInputs = { ...scenarioA, [name]: value };
-  
+
+    const updatedInputs = { ...inputs, [name]: value };
+
     // Update related values
-    if (name === 'purchasePrice' && scenarioA.downPaymentType === 'percent') {
+    if (name === 'purchasePrice' && inputs.downPaymentType === 'percent') {
       const purchasePrice = typeof value === 'number' ? value : 0;
-      const downPaymentPercent = typeof scenarioA.downPayment === 'number' ? scenarioA.downPayment : 0;
+      const downPaymentPercent = typeof inputs.downPayment === 'number' ? inputs.downPayment : 0;
       updatedInputs.downPayment = Math.round(purchasePrice * (downPaymentPercent / 100) / 100) * 100;
     } else if (name === 'downPayment') {
-      if (scenarioA.downPaymentType === 'percent') {
+      if (inputs.downPaymentType === 'percent') {
         const numValue = Number(value);
         if (numValue > 100) value = 100;
         updatedInputs.downPayment = Number(value);
       } else {
-        const purchasePrice = typeof scenarioA.purchasePrice === 'number' ? scenarioA.purchasePrice : 0;
+        const purchasePrice = typeof inputs.purchasePrice === 'number' ? inputs.purchasePrice : 0;
         const numValue = Number(value);
         if (numValue > purchasePrice) value = purchasePrice;
         updatedInputs.downPayment = Number(value);
       }
     } else if (name === 'downPaymentType') {
-      const purchasePrice = typeof scenarioA.purchasePrice === 'number' ? scenarioA.purchasePrice : 0;
-      const downPayment = typeof scenarioA.downPayment === 'number' ? scenarioA.downPayment : 0;
-      
+      const purchasePrice = typeof inputs.purchasePrice === 'number' ? inputs.purchasePrice : 0;
+      const downPayment = typeof inputs.downPayment === 'number' ? inputs.downPayment : 0;
+
       if (value === 'percent') {
         updatedInputs.downPayment = Math.round((downPayment / purchasePrice) * 100);
       } else {
         updatedInputs.downPayment = Math.round(purchasePrice * (downPayment / 100) / 100) * 100;
       }
-    }
-  
-    setScenarioA(updatedInputs);
-  };
+    } else if (name === 'propertyTaxType') {
+      const purchasePrice = typeof inputs.purchasePrice === 'number' ? inputs.purchasePrice : 0;
+      const propertyTax = typeof inputs.propertyTax === 'number' ? inputs.propertyTax : 0;
 
-  // Handle input changes for Scenario B
-  const handleScenarioBChange = (name: keyof ScenarioState, value: string | number) => {
-    // Handle empty string
-    if (value === '') {
-      setScenarioB(prev => ({ ...prev, [name]: '' }));
-      return;
-    }
-    
-    // For numeric fields
-    if (typeof scenarioB[name] === 'number') {
-      // Convert to number and prevent leading zeros
-      const numericValue = typeof value === 'string' ? value.replace(/^0+(?=\d)/, '') : String(value);
-      value = Number(numericValue);
-    }
-    
-    const updatedInputs = { ...scenarioB, [name]: value };
-  
-    // Update related values
-    if (name === 'purchasePrice' && scenarioB.downPaymentType === 'percent') {
-      const purchasePrice = typeof value === 'number' ? value : 0;
-      const downPaymentPercent = typeof scenarioB.downPayment === 'number' ? scenarioB.downPayment : 0;
-      updatedInputs.downPayment = Math.round(purchasePrice * (downPaymentPercent / 100) / 100) * 100;
-    } else if (name === 'downPayment') {
-      if (scenarioB.downPaymentType === 'percent') {
-        const numValue = Number(value);
-        if (numValue > 100) value = 100;
-        updatedInputs.downPayment = Number(value);
-      } else {
-        const purchasePrice = typeof scenarioB.purchasePrice === 'number' ? scenarioB.purchasePrice : 0;
-        const numValue = Number(value);
-        if (numValue > purchasePrice) value = purchasePrice;
-        updatedInputs.downPayment = Number(value);
-      }
-    } else if (name === 'downPaymentType') {
-      const purchasePrice = typeof scenarioB.purchasePrice === 'number' ? scenarioB.purchasePrice : 0;
-      const downPayment = typeof scenarioB.downPayment === 'number' ? scenarioB.downPayment : 0;
-      
       if (value === 'percent') {
-        updatedInputs.downPayment = Math.round((downPayment / purchasePrice) * 100);
+        updatedInputs.propertyTax = purchasePrice > 0 ? Math.round(propertyTax / purchasePrice * 10000) / 100 : 0;
       } else {
-        updatedInputs.downPayment = Math.round(purchasePrice * (downPayment / 100) / 100) * 100;
+        updatedInputs.propertyTax = Math.round(purchasePrice * (propertyTax / 100));
       }
+    } else if (name === 'province') {
+      // Municipal taxes belong to a single province
+      updatedInputs.municipality = '';
     }
-  
-    setScenarioB(updatedInputs);
+
+    updateScenarioInputs(id, () => updatedInputs);
+  };
+
+  const handleMarketChange = (value: string) => {
+    setScenarios(prev => prev.map(scenario => ({ ...scenario, inputs: applyMarket(scenario.inputs, value) })));
+  };
+
+  const applySolvedValue = (id: string, field: NumericScenarioField, value: number) => {
+    updateScenarioInputs(id, prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleRenewalsChange = (id: string, renewals: RenewalTerm[]) => {
+    updateScenarioInputs(id, prev => ({ ...prev, renewals }));
+  };
+
+  const handlePrimeRateChanges = (id: string, primeRateChanges: PrimeRateChange[]) => {
+    updateScenarioInputs(id, prev => ({ ...prev, primeRateChanges }));
+  };
+
+  const handleLumpSumsChange = (id: string, lumpSums: LumpSum[]) => {
+    updateScenarioInputs(id, prev => ({ ...prev, lumpSums }));
+  };
+
+  const handleHomeValuesChange = (id: string, homeValues: HomeValue[]) => {
+    updateScenarioInputs(id, prev => ({ ...prev, homeValues }));
+  };
+
+  // A lender preset sets both privileges; editing either one afterwards makes them custom
+  const handlePrivilegeChange = (id: string, value: string) => {
+    const privilege = PREPAYMENT_PRIVILEGES.find(item => item.value === value);
+    if (!privilege) return;
+    const { lumpSumLimit, paymentIncreaseLimit } = privilege;
+    updateScenarioInputs(id, prev => ({ ...prev, lumpSumLimit, paymentIncreaseLimit }));
   };
 
   // Handle blur event
-  const handleBlur = (scenario: 'A' | 'B', name: keyof ScenarioState) => {
-    if (scenario === 'A') {
-      if (scenarioA[name] === '') {
-        setScenarioA(prev => ({ ...prev, [name]: 0 }));
-      }
-    } else {
-      if (scenarioB[name] === '') {
-        setScenarioB(prev => ({ ...prev, [name]: 0 }));
-      }
+  const handleBlur = (id: string, name: keyof ScenarioState) => {
+    updateScenarioInputs(id, prev => (prev[name] === '' ? { ...prev, [name]: 0 } : prev));
+  };
+
+  // Scenario list management
+  const addScenario = () => {
+    if (scenarios.length >= MAX_SCENARIOS) return;
+    const inputs = applyMarket(DEFAULT_SCENARIO_INPUTS, market.value);
+    setScenarios(prev => [...prev, { id: createScenarioId(), name: getNextScenarioName(), inputs }]);
+  };
+
+  const duplicateScenario = (id: string) => {
+    const source = scenarios.find(scenario => scenario.id === id);
+    if (!source || scenarios.length >= MAX_SCENARIOS) return;
+
+    const copy = { id: createScenarioId(), name: `${source.name} (copy)`, inputs: { ...source.inputs } };
+    setScenarios(prev => {
+      const index = prev.findIndex(scenario => scenario.id === id);
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  };
+
+  const renameScenario = (id: string, name: string) => {
+    setScenarios(prev => prev.map(scenario => (scenario.id === id ? { ...scenario, name } : scenario)));
+  };
+
+  const removeScenario = (id: string) => {
+    if (scenarios.length <= 1) return;
+
+    const remaining = scenarios.filter(scenario => scenario.id !== id);
+    setScenarios(remaining);
+    if (baselineId === id) {
+      setBaselineId(remaining[0].id);
     }
   };
 
+  // Library entries: a preset joins as a new scenario, a comparison replaces everything with fresh ids
+  const loadPreset = (name: string, inputs: ScenarioState) => {
+    if (scenarios.length >= MAX_SCENARIOS) return;
+    setScenarios(prev => [...prev, { id: createScenarioId(), name, inputs: applyMarket(inputs, market.value) }]);
+  };
+
+  const loadComparison = (state: SharedState) => {
+    const loaded = state.scenarios.slice(0, MAX_SCENARIOS).map(scenario => ({ ...scenario, id: createScenarioId() }));
+    const getLoadedId = (id: string) => loaded[Math.max(0, state.scenarios.findIndex(scenario => scenario.id === id))]?.id ?? loaded[0].id;
+
+    setScenarios(loaded);
+    setBaselineId(getLoadedId(state.baselineId));
+    setScheduleScenarioId(getLoadedId(state.display.scheduleScenarioId));
+    setBorrower(state.borrower);
+    setRentVsBuy(state.rentVsBuy);
+    setEconomics(state.economics);
+    setRefinance(state.refinance);
+    setMonteCarlo(state.monteCarlo);
+    setPrepayVsInvest(state.prepayVsInvest);
+    setShowRealDollars(state.display.showRealDollars);
+  };
+
+  const getSharedState = (): SharedState => ({
+    scenarios,
+    baselineId,
+    activeTab,
+    borrower,
+    rentVsBuy,
+    economics,
+    refinance,
+    monteCarlo,
+    prepayVsInvest,
+    display: { scheduleScenarioId, showRealDollars }
+  });
+
   // Calculate mortgage details whenever inputs change
   useEffect(() => {
-    if (Object.values(scenarioA).some(value => value === '') || Object.values(scenarioB).some(value => value === '')) {
+    // Skip while a numeric field is cleared for editing; text fields such as the municipality may be empty
+    const isEditing = (inputs: ScenarioState) => (Object.keys(inputs) as (keyof ScenarioState)[])
+      .some(key => inputs[key] === '' && typeof DEFAULT_SCENARIO_INPUTS[key] === 'number');
+    if (scenarios.some(scenario => isEditing(scenario.inputs))) {
       return;
     }
-    
-    calculateComparison();
-  }, [scenarioA, scenarioB]);
-
-  // Generate amortization schedule
-  const generateAmortizationSchedule = (
-    principal: number, 
-    annualInterestRate: number, 
-    amortizationYears: number, 
-    paymentAmount: number, 
-    paymentsPerYear: number,
-    term: number,
-    extraPayment: number,
-    paymentIncrease: number,
-    annualPrepayment: number
-  ) => {
-    const interestRatePerPayment = (annualInterestRate / 100) / paymentsPerYear;
-    let balance = principal;
-    let totalInterestPaid = 0;
-    const yearlySchedule = [];
-    let totalInterestPaidOverTerm = 0;
-    let balanceAtEndOfTerm = 0;
-    let lastPaymentNumber = 0;
-    
-    // Calculate adjusted payment with increase
-    const adjustedPayment = paymentAmount * (1 + paymentIncrease / 100);
-    
-    // Process each year
-    for (let year = 1; year <= amortizationYears; year++) {
-      let yearlyPrincipalPaid = 0;
-      let yearlyInterestPaid = 0;
-      let yearlyExtraPayments = 0;
-      
-      // Process each payment in the year
-      for (let i = 1; i <= paymentsPerYear; i++) {
-        lastPaymentNumber++;
-        if (balance <= 0) break;
-        
-        // Calculate interest and principal for this payment
-        const interestForPayment = balance * interestRatePerPayment;
-        let principalForPayment = Math.min(adjustedPayment - interestForPayment, balance);
-        
-        // Add extra payment if specified
-        let extraPrincipalPaid = 0;
-        if (extraPayment > 0) {
-          extraPrincipalPaid = Math.min(extraPayment, balance - principalForPayment);
-          principalForPayment += extraPrincipalPaid;
-          yearlyExtraPayments += extraPrincipalPaid;
-        }
-        
-        // Update balance
-        balance -= principalForPayment;
-        
-        // Update yearly totals
-        yearlyPrincipalPaid += principalForPayment;
-        yearlyInterestPaid += interestForPayment;
-        totalInterestPaid += interestForPayment;
-        
-        // Record balance at end of term
-        if (year === term && i === paymentsPerYear) {
-          balanceAtEndOfTerm = balance;
-          totalInterestPaidOverTerm = totalInterestPaid;
-        }
-      }
-      
-      // Apply annual prepayment if specified
-      if (annualPrepayment > 0 && balance > 0) {
-        const annualPrepaymentAmount = Math.min(
-          principal * (annualPrepayment / 100),
-          balance
-        );
-        balance -= annualPrepaymentAmount;
-        yearlyPrincipalPaid += annualPrepaymentAmount;
-        yearlyExtraPayments += annualPrepaymentAmount;
-      }
-      
-      // Add year to schedule
-      yearlySchedule.push({
-        year,
-        principalPaid: yearlyPrincipalPaid,
-        interestPaid: yearlyInterestPaid,
-        extraPayments: yearlyExtraPayments,
-        endingBalance: balance
-      });
-      
-      if (balance <= 0) break;
-    }
-    
-    // Calculate effective amortization in years
-    const effectiveAmortizationYears = lastPaymentNumber / paymentsPerYear;
-    
-    return {
-      yearlySchedule,
-      totalInterestPaid,
-      totalInterestPaidOverTerm,
-      balanceAtEndOfTerm,
-      effectiveAmortizationYears
-    };
-  };
-
-  // Calculate mortgage comparison
-  const calculateComparison = () => {
-    // Calculate for Scenario A
-    const resultA = calculateMortgage(scenarioA);
-    
-    // Calculate for Scenario B
-    const resultB = calculateMortgage(scenarioB);
-    
-    // Calculate differences
-    const differences = {
-      monthlyPayment: resultB.monthlyPayment - resultA.monthlyPayment,
-      totalInterestTerm: resultB.totalInterestTerm - resultA.totalInterestTerm,
-      totalInterestLifetime: resultB.totalInterestLifetime - resultA.totalInterestLifetime,
-      balanceAtEndOfTerm: resultB.balanceAtEndOfTerm - resultA.balanceAtEndOfTerm,
-      timeShaved: resultA.effectiveAmortization - resultB.effectiveAmortization
-    };
-    
-    // Update comparison results
-    setComparison({
-      scenarioA: resultA,
-      scenarioB: resultB,
-      differences
-    } as const);
-  };
-
-  // Calculate mortgage for a single scenario
-  const calculateMortgage = (scenario: ScenarioState) => {
-    // Calculate mortgage amount (purchase price minus down payment)
-    let downPaymentAmount;
-    if (scenario.downPaymentType === 'amount') {
-      downPaymentAmount = scenario.downPayment;
-    } else {
-      downPaymentAmount = scenario.purchasePrice * (scenario.downPayment / 100);
-    }
-    
-    const mortgageAmount = scenario.purchasePrice - downPaymentAmount;
-    
-    // Get payment frequency details
-    const paymentFrequencyObj = PAYMENT_FREQUENCIES.find(f => f.value === scenario.paymentFrequency) ?? PAYMENT_FREQUENCIES[0];
-    const paymentsPerYear = paymentFrequencyObj.paymentsPerYear;
-    
-    // Calculate interest rate per payment period
-    const annualInterestRate = scenario.interestRate / 100;
-    const interestRatePerPayment = annualInterestRate / paymentsPerYear;
-    
-    // Calculate total number of payments
-    const totalPayments = scenario.amortizationPeriod * paymentsPerYear;
-    
-    // Calculate payment amount
-    let paymentAmount;
-    if (scenario.interestRate === 0) {
-      paymentAmount = mortgageAmount / totalPayments;
-    } else {
-      paymentAmount = mortgageAmount * 
-        (interestRatePerPayment * Math.pow(1 + interestRatePerPayment, totalPayments)) / 
-        (Math.pow(1 + interestRatePerPayment, totalPayments) - 1);
-    }
-    
-    // If accelerated payments, adjust the payment amount
-    if (scenario.paymentFrequency === 'accelerated_biweekly') {
-      const monthlyEquivalent = mortgageAmount * 
-        (annualInterestRate/12 * Math.pow(1 + annualInterestRate/12, scenario.amortizationPeriod * 12)) / 
-        (Math.pow(1 + annualInterestRate/12, scenario.amortizationPeriod * 12) - 1);
-      paymentAmount = monthlyEquivalent / 2;
-    } else if (scenario.paymentFrequency === 'accelerated_weekly') {
-      const monthlyEquivalent = mortgageAmount * 
-        (annualInterestRate/12 * Math.pow(1 + annualInterestRate/12, scenario.amortizationPeriod * 12)) / 
-        (Math.pow(1 + annualInterestRate/12, scenario.amortizationPeriod * 12) - 1);
-      paymentAmount = monthlyEquivalent / 4;
-    }
-    
-    // Calculate monthly equivalent for comparison
-    const monthlyPayment = scenario.paymentFrequency === 'monthly' 
-      ? paymentAmount 
-      : paymentAmount * paymentsPerYear / 12;
-    
-    // Generate detailed amortization schedule
-    const scheduleResult = generateAmortizationSchedule(
-      mortgageAmount,
-      scenario.interestRate,
-      scenario.amortizationPeriod,
-      paymentAmount,
-      paymentsPerYear,
-      scenario.term,
-      scenario.extraPayment,
-      scenario.paymentIncrease,
-      scenario.annualPrepayment
-    );
-    
-    // Return calculated results
-    return {
-      monthlyPayment,
-      totalMortgage: mortgageAmount,
-      totalInterestTerm: scheduleResult.totalInterestPaidOverTerm,
-      totalInterestLifetime: scheduleResult.totalInterestPaid,
-      balanceAtEndOfTerm: scheduleResult.balanceAtEndOfTerm,
-      effectiveAmortization: scheduleResult.effectiveAmortizationYears,
-      amortizationSchedule: scheduleResult.yearlySchedule
-    };
-  };
-
-  // Prepare comparison data for chart visualization
-  const prepareBalanceComparisonData = () => {
-    if (!comparison.scenarioA.amortizationSchedule.length || !comparison.scenarioB.amortizationSchedule.length) {
-      return [];
-    }
-    
-    const maxYears = Math.max(
-      comparison.scenarioA.amortizationSchedule.length,
-      comparison.scenarioB.amortizationSchedule.length
-    );
-    
-    const data = [];
-    for (let i = 0; i < maxYears; i++) {
-      const dataPoint = { 
-        year: i + 1,
-        scenarioA: i < comparison.scenarioA.amortizationSchedule.length 
-          ? comparison.scenarioA.amortizationSchedule[i].endingBalance 
-          : 0,
-        scenarioB: i < comparison.scenarioB.amortizationSchedule.length 
-          ? comparison.scenarioB.amortizationSchedule[i].endingBalance 
-          : 0
-      };
-      
-      data.push(dataPoint);
-    }
-    
-    return data;
-  };
-
-  // Prepare interest paid comparison data
-  const prepareInterestComparisonData = () => {
-    return [
-      {
-        name: "Over Term",
-        scenarioA: comparison.scenarioA.totalInterestTerm,
-        scenarioB: comparison.scenarioB.totalInterestTerm,
-        savings: Math.abs(comparison.differences.totalInterestTerm)
-      },
-      {
-        name: "Lifetime",
-        scenarioA: comparison.scenarioA.totalInterestLifetime,
-        scenarioB: comparison.scenarioB.totalInterestLifetime,
-        savings: Math.abs(comparison.differences.totalInterestLifetime)
-      }
-    ];
+
+    setComparison(compareScenarios(scenarios, baselineId, { borrower, economics }));
+  }, [scenarios, baselineId, borrower, economics]);
+
+  const baseline = comparison.scenarios.find(scenario => scenario.id === comparison.baselineId);
+  const getInputs = (id: string) => scenarios.find(scenario => scenario.id === id)?.inputs ?? DEFAULT_SCENARIO_INPUTS;
+
+  // Down payment checks and insurance premium for the inputs as entered
+  const getInsurance = (inputs: ScenarioState) => {
+    return calculateMortgageInsurance(inputs.purchasePrice, getDownPaymentAmount(inputs), inputs.amortizationPeriod, inputs.market);
   };
 
+  // Scenario with the lowest lifetime borrowing cost, penalties and premiums included
+  const bestScenario = comparison.scenarios.reduce<Comparison['scenarios'][number] | undefined>(
+    (best, scenario) => (!best || scenario.result.totalCost < best.result.totalCost ? scenario : best),
+    undefined
+  );
+
   const renderInput = (
-    scenario: 'A' | 'B',
-    name: string,
+    id: string,
+    name: NumericScenarioField,
     label: string,
     prefix: string = '$',
     step?: number
   ) => {
-    const scenarioState = scenario === 'A' ? scenarioA : scenarioB;
-    const handleChange = scenario === 'A' ? handleScenarioAChange : handleScenarioBChange;
-    
+    const scenarioState = getInputs(id);
+
     return (
       <div className="mb-3">
         <label className="block text-sm font-medium mb-1 text-gray-700">{label}</label>
@@ -513,208 +376,760 @@ const MortgageComparisonCalculator = () => {
             step={step}
             className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
             value={scenarioState[name] === 0 || scenarioState[name] === undefined ? '' : scenarioState[name]}
-            onChange={(e) => handleChange(name as keyof ScenarioState, e.target.value)}
-            onBlur={() => handleBlur(scenario, name as keyof ScenarioState)}
+            onChange={(e) => handleScenarioChange(id, name, e.target.value)}
+            onBlur={() => handleBlur(id, name)}
           />
         </div>
       </div>
     );
   };
 
-  return (
-    <div className="bg-white shadow-lg rounded-xl p-4 md:p-6 max-w-6xl mx-auto">
-      <h1 className="text-2xl md:text-3xl font-bold text-blue-800 mb-4 md:mb-6 text-center">Mortgage Scenario Comparison</h1>
-      
-      {/* Tabs */}
-      <div className="mb-6">
-        <div className="flex justify-center">
-          <div className="inline-flex rounded-md shadow-sm">
+  const renderScenarioInputs = (scenario: Scenario) => {
+    const { id, inputs } = scenario;
+    const color = getScenarioColor(id);
+    const isBaseline = id === baselineId;
+    const insurance = getInsurance(inputs);
+
+    // Full-length fixed rates and ARMs have no term to renew
+    const hasRenewals = !market.fullLengthTerm && inputs.rateType !== 'arm';
+
+    return (
+      <div key={id} className={`p-4 ${color.panel} rounded-lg shadow`}>
+        <div className="flex items-center justify-between gap-2 mb-4 border-b pb-2">
+          <input
+            type="text"
+            aria-label="Scenario name"
+            className={`flex-1 min-w-0 bg-transparent text-xl font-semibold ${color.heading} border-b border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none`}
+            value={scenario.name}
+            onChange={(e) => renameScenario(id, e.target.value)}
+          />
+          <div className="flex items-center gap-2 text-xs">
+            <label className="flex items-center gap-1 text-gray-700">
+              <input
+                type="radio"
+                name="baseline"
+                checked={isBaseline}
+                onChange={() => setBaselineId(id)}
+              />
+              Baseline
+            </label>
             <button
-              className={`px-4 py-2 text-sm font-medium rounded-l-lg ${activeTab === 'input' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
-              onClick={() => setActiveTab('input')}
+              className="px-2 py-1 rounded bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              onClick={() => duplicateScenario(id)}
+              disabled={scenarios.length >= MAX_SCENARIOS}
             >
-              Input Scenarios
+              Duplicate
             </button>
             <button
-              className={`px-4 py-2 text-sm font-medium rounded-r-lg ${activeTab === 'results' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
-              onClick={() => setActiveTab('results')}
+              className="px-2 py-1 rounded bg-white border border-gray-300 text-red-600 hover:bg-red-50 disabled:opacity-50"
+              onClick={() => removeScenario(id)}
+              disabled={scenarios.length <= 1}
             >
-              Compare Results
+              Remove
             </button>
           </div>
         </div>
-      </div>
-      
-      {activeTab === 'input' ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          {/* Scenario A inputs */}
-          <div className="p-4 bg-blue-50 rounded-lg shadow">
-            <h2 className="text-xl font-semibold mb-4 text-blue-800 border-b pb-2">Scenario A</h2>
-            
-            <div className="space-y-2">
-              {renderInput('A', 'purchasePrice', 'Purchase Price')}
-              
-              <div className="mb-3">
-                <label className="block text-sm font-medium mb-1 text-gray-700">Down Payment</label>
-                <div className="flex space-x-2">
-                  <div className="relative flex-1">
-                    <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-500">
-                      {scenarioA.downPaymentType === 'amount' ? '$' : '%'}
-                    </span>
-                    <input
-                      type="number"
-                      className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
-                      value={scenarioA.downPayment === 0 || scenarioA.downPayment === undefined ? '' : scenarioA.downPayment}
-                      onChange={(e) => handleScenarioAChange('downPayment', e.target.value)}
-                      onBlur={() => handleBlur('A', 'downPayment')}
-                    />
-                  </div>
-                  <select
-                    className="border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-                    value={scenarioA.downPaymentType}
-                    onChange={(e) => handleScenarioAChange('downPaymentType', e.target.value)}
-                  >
-                    <option value="amount">$</option>
-                    <option value="percent">%</option>
-                  </select>
-                </div>
+
+        <div className="space-y-2">
+          {renderInput(id, 'purchasePrice', 'Purchase Price')}
+
+          <div className="mb-3">
+            <label className="block text-sm font-medium mb-1 text-gray-700">Down Payment</label>
+            <div className="flex space-x-2">
+              <div className="relative flex-1">
+                <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-500">
+                  {inputs.downPaymentType === 'amount' ? '$' : '%'}
+                </span>
+                <input
+                  type="number"
+                  className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+                  value={inputs.downPayment === 0 || inputs.downPayment === undefined ? '' : inputs.downPayment}
+                  onChange={(e) => handleScenarioChange(id, 'downPayment', e.target.value)}
+                  onBlur={() => handleBlur(id, 'downPayment')}
+                />
               </div>
-              
-              {renderInput('A', 'interestRate', 'Interest Rate (%)', '%', 0.01)}
-              
+              <select
+                className="border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                value={inputs.downPaymentType}
+                onChange={(e) => handleScenarioChange(id, 'downPaymentType', e.target.value)}
+              >
+                <option value="amount">$</option>
+                <option value="percent">%</option>
+              </select>
+            </div>
+            {!insurance.meetsMinimumDownPayment && inputs.purchasePrice > 0 && (
+              <p className="text-xs text-red-600 mt-1">
+                Minimum down payment is {formatCurrency(insurance.minimumDownPayment)} for this price.
+              </p>
+            )}
+            {insurance.meetsMinimumDownPayment && insurance.required && market.mortgageInsurance === 'default_insurance' && (
+              <p className="text-xs text-gray-600 mt-1">
+                Default insurance of {formatCurrency(insurance.premium)} ({formatPercent(insurance.premiumRate)}) is added to the mortgage.
+              </p>
+            )}
+          </div>
+
+          {insurance.meetsMinimumDownPayment && insurance.required && market.mortgageInsurance === 'pmi' && (
+            <>
+              {renderInput(id, 'pmiRate', 'PMI Rate (% of loan yearly)', '%', 0.05)}
+              <p className="text-xs text-gray-600 -mt-2 mb-2">
+                {formatCurrency((inputs.purchasePrice - getDownPaymentAmount(inputs)) * inputs.pmiRate / 100 / 12)} a month until the
+                balance reaches {inputs.pmiCancelOnRequest ? PMI_RULES.cancellationLoanToValue : PMI_RULES.terminationLoanToValue}% of the price.
+              </p>
+              <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+                <input
+                  type="checkbox"
+                  checked={inputs.pmiCancelOnRequest}
+                  onChange={(e) => updateScenarioInputs(id, prev => ({ ...prev, pmiCancelOnRequest: e.target.checked }))}
+                />
+                Ask to cancel PMI at {PMI_RULES.cancellationLoanToValue}% loan-to-value
+              </label>
+            </>
+          )}
+
+          <div className="mb-3">
+            <label className="block text-sm font-medium mb-1 text-gray-700">Rate Type</label>
+            <select
+              className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              value={inputs.rateType}
+              onChange={(e) => handleScenarioChange(id, 'rateType', e.target.value)}
+            >
+              {market.rateTypes.map(rateType => (
+                <option key={rateType.value} value={rateType.value}>{rateType.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {inputs.rateType === 'variable' ? (
+            <>
+              {renderInput(id, 'primeRate', 'Prime Rate (%)', '%', 0.05)}
+              {renderInput(id, 'primeSpread', 'Spread to Prime (%, negative for prime minus)', '%', 0.05)}
+              <p className="text-xs text-gray-500 mb-3">Starting rate: {formatPercent(getContractRate(inputs))}</p>
+
               <div className="mb-3">
-                <label className="block text-sm font-medium mb-1 text-gray-700">Amortization Period</label>
+                <label className="block text-sm font-medium mb-1 text-gray-700">When Prime Changes</label>
                 <select
                   className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-                  value={scenarioA.amortizationPeriod}
-                  onChange={(e) => handleScenarioAChange('amortizationPeriod', Number(e.target.value))}
+                  value={inputs.variablePayment}
+                  onChange={(e) => handleScenarioChange(id, 'variablePayment', e.target.value)}
                 >
-                  {AMORTIZATION_PERIODS.map(period => (
-                    <option key={period.value} value={period.value}>{period.label}</option>
+                  {VARIABLE_PAYMENT_TYPES.map(paymentType => (
+                    <option key={paymentType.value} value={paymentType.value}>{paymentType.label}</option>
                   ))}
                 </select>
               </div>
-              
+
+              <PrimeRateChangesEditor
+                changes={inputs.primeRateChanges}
+                primeRate={inputs.primeRate}
+                primeSpread={inputs.primeSpread}
+                onChange={changes => handlePrimeRateChanges(id, changes)}
+              />
+            </>
+          ) : inputs.rateType === 'arm' ? (
+            <>
               <div className="mb-3">
-                <label className="block text-sm font-medium mb-1 text-gray-700">Term Length</label>
+                <label className="block text-sm font-medium mb-1 text-gray-700">ARM Product</label>
                 <select
                   className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-                  value={scenarioA.term}
-                  onChange={(e) => handleScenarioAChange('term', Number(e.target.value))}
+                  value={inputs.armProduct}
+                  onChange={(e) => handleScenarioChange(id, 'armProduct', e.target.value)}
                 >
-                  {TERM_LENGTHS.map(term => (
-                    <option key={term.value} value={term.value}>{term.label}</option>
+                  {ARM_PRODUCTS.map(product => (
+                    <option key={product.value} value={product.value}>{product.label}</option>
                   ))}
                 </select>
               </div>
-              
-              <div className="mb-3">
-                <label className="block text-sm font-medium mb-1 text-gray-700">Payment Frequency</label>
-                <select
-                  className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-                  value={scenarioA.paymentFrequency}
-                  onChange={(e) => handleScenarioAChange('paymentFrequency', e.target.value)}
-                >
-                  {PAYMENT_FREQUENCIES.map(frequency => (
-                    <option key={frequency.value} value={frequency.value}>{frequency.label}</option>
-                  ))}
-                </select>
+              {renderInput(id, 'interestRate', 'Start Rate (%)', '%', 0.01)}
+              <div className="grid grid-cols-2 gap-2">
+                {renderInput(id, 'armIndex', 'Index (%)', '%', 0.05)}
+                {renderInput(id, 'armMargin', 'Margin (%)', '%', 0.05)}
               </div>
-              
-              <div className="pt-2 border-t border-gray-200">
-                <h3 className="text-md font-medium mb-2 text-gray-800">Prepayment Options</h3>
-                {renderInput('A', 'extraPayment', 'Extra Payment Per Period')}
-                {renderInput('A', 'paymentIncrease', 'Payment Increase (%)', '%')}
-                {renderInput('A', 'annualPrepayment', 'Annual Lump Sum (% of principal)', '%')}
+              <div className="grid grid-cols-3 gap-2">
+                {renderInput(id, 'armInitialCap', 'Initial Cap', '%', 0.25)}
+                {renderInput(id, 'armPeriodicCap', 'Periodic Cap', '%', 0.25)}
+                {renderInput(id, 'armLifetimeCap', 'Lifetime Cap', '%', 0.25)}
               </div>
+              <p className="text-xs text-gray-500 mb-3">
+                Fully indexed rate: {formatPercent(inputs.armIndex + inputs.armMargin)}. Each adjustment moves toward it by no more than
+                the cap, and the rate stays within the lifetime cap of the start rate.
+              </p>
+            </>
+          ) : (
+            <>
+              {renderInput(id, 'interestRate', inputs.breakMonth > 0 ? 'New Interest Rate (%)' : 'Interest Rate (%)', '%', 0.01)}
+
+              {market.prepaymentPenalties && (
+                <div className="pt-2 border-t border-gray-200">
+                  <h3 className="text-md font-medium mb-2 text-gray-800">Break Existing Mortgage</h3>
+                  {renderInput(id, 'breakMonth', 'Months Into Term When Broken (0 to keep)', '#', 1)}
+                  {inputs.breakMonth > 0 && (
+                    <>
+                      {renderInput(id, 'postedRate', 'Original Posted Rate (%)', '%', 0.01)}
+                      {renderInput(id, 'rateDiscount', 'Discount From Posted Rate (%)', '%', 0.01)}
+                      <p className="text-xs text-gray-500 mb-3">
+                        Existing contract rate: {formatPercent(inputs.postedRate - inputs.rateDiscount)}
+                      </p>
+                      {renderInput(id, 'comparisonRate', 'Current Posted Rate for Remaining Term (%)', '%', 0.01)}
+                      {inputs.breakMonth >= inputs.term * 12 && (
+                        <p className="text-xs text-red-600 mb-3">The break month must fall within the {inputs.term}-year term.</p>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {market.compounding === null && (
+            <div className="mb-3">
+              <label className="block text-sm font-medium mb-1 text-gray-700">Compounding</label>
+              <select
+                className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                value={inputs.compounding}
+                onChange={(e) => handleScenarioChange(id, 'compounding', e.target.value)}
+              >
+                {COMPOUNDING_CONVENTIONS.map(convention => (
+                  <option key={convention.value} value={convention.value}>{convention.label}</option>
+                ))}
+              </select>
             </div>
+          )}
+
+          <div className="mb-3">
+            <label className="block text-sm font-medium mb-1 text-gray-700">Amortization Period</label>
+            <select
+              className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              value={inputs.amortizationPeriod}
+              onChange={(e) => handleScenarioChange(id, 'amortizationPeriod', Number(e.target.value))}
+            >
+              {AMORTIZATION_PERIODS.map(period => (
+                <option key={period.value} value={period.value}>{period.label}</option>
+              ))}
+            </select>
           </div>
-          
-          {/* Scenario B inputs */}
-          <div className="p-4 bg-green-50 rounded-lg shadow">
-            <h2 className="text-xl font-semibold mb-4 text-green-800 border-b pb-2">Scenario B</h2>
-            
-            <div className="space-y-2">
-              {renderInput('B', 'purchasePrice', 'Purchase Price')}
-              
-              <div className="mb-3">
-                <label className="block text-sm font-medium mb-1 text-gray-700">Down Payment</label>
+
+          {hasRenewals && (
+            <div className="mb-3">
+              <label className="block text-sm font-medium mb-1 text-gray-700">Term Length</label>
+              <select
+                className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                value={inputs.term}
+                onChange={(e) => handleScenarioChange(id, 'term', Number(e.target.value))}
+              >
+                {TERM_LENGTHS.map(term => (
+                  <option key={term.value} value={term.value}>{term.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="mb-3">
+            <label className="block text-sm font-medium mb-1 text-gray-700">Payment Frequency</label>
+            <select
+              className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              value={inputs.paymentFrequency}
+              onChange={(e) => handleScenarioChange(id, 'paymentFrequency', e.target.value)}
+            >
+              {PAYMENT_FREQUENCIES.map(frequency => (
+                <option key={frequency.value} value={frequency.value}>{frequency.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            <div>
+              <label className="block text-sm font-medium mb-1 text-gray-700">Start Date</label>
+              <input
+                type="date"
+                className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                value={inputs.startDate}
+                onChange={(e) => handleScenarioChange(id, 'startDate', e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1 text-gray-700">First Payment</label>
+              <input
+                type="date"
+                className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                value={inputs.firstPaymentDate}
+                min={inputs.startDate || undefined}
+                onChange={(e) => handleScenarioChange(id, 'firstPaymentDate', e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 -mt-2 mb-3">
+            Leave blank to start today with the first payment one period later. A later first payment adds interest up to the adjustment date.
+          </p>
+
+          {hasRenewals && (
+            <RenewalTermsEditor
+              renewals={inputs.renewals}
+              initialTerm={inputs.term}
+              initialRate={getContractRate(inputs)}
+              termLengths={TERM_LENGTHS}
+              onChange={renewals => handleRenewalsChange(id, renewals)}
+            />
+          )}
+
+          <div className="pt-2 border-t border-gray-200">
+            <h3 className="text-md font-medium mb-2 text-gray-800">Prepayment Options</h3>
+            {renderInput(id, 'extraPayment', 'Extra Payment Per Period')}
+            {renderInput(id, 'paymentIncrease', 'Payment Increase (%)', '%')}
+            {renderInput(id, 'annualPrepayment', 'Annual Lump Sum (% of principal)', '%')}
+            <LumpSumsEditor lumpSums={inputs.lumpSums} onChange={lumpSums => handleLumpSumsChange(id, lumpSums)} />
+            <div className="mb-3">
+              <label className="block text-sm font-medium mb-1 text-gray-700">Lender Prepayment Privileges</label>
+              <select
+                className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                value={PREPAYMENT_PRIVILEGES.find(privilege => privilege.lumpSumLimit === inputs.lumpSumLimit
+                  && privilege.paymentIncreaseLimit === inputs.paymentIncreaseLimit)?.value ?? ''}
+                onChange={(e) => handlePrivilegeChange(id, e.target.value)}
+              >
+                <option value="" disabled>Custom</option>
+                {PREPAYMENT_PRIVILEGES.map(privilege => (
+                  <option key={privilege.value} value={privilege.value}>{privilege.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {renderInput(id, 'lumpSumLimit', 'Lump Sums per Year (% of principal)', '%')}
+              {renderInput(id, 'paymentIncreaseLimit', 'Max Payment Increase (%)', '%')}
+            </div>
+          </div>
+
+          <div className="pt-2 border-t border-gray-200">
+            <h3 className="text-md font-medium mb-2 text-gray-800">Closing Costs</h3>
+            {market.landTransferTax && (
+              <>
+                <div className="grid grid-cols-2 gap-2 mb-3">
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700">Province</label>
+                    <select
+                      className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                      value={inputs.province}
+                      onChange={(e) => handleScenarioChange(id, 'province', e.target.value)}
+                    >
+                      {PROVINCES.map(province => (
+                        <option key={province.value} value={province.value}>{province.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700">Municipality</label>
+                    <select
+                      className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                      value={inputs.municipality}
+                      onChange={(e) => handleScenarioChange(id, 'municipality', e.target.value)}
+                    >
+                      <option value="">Elsewhere</option>
+                      {getProvince(inputs.province).municipalities.map(municipality => (
+                        <option key={municipality.value} value={municipality.value}>{municipality.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+                  <input
+                    type="checkbox"
+                    checked={inputs.firstTimeBuyer}
+                    onChange={(e) => updateScenarioInputs(id, prev => ({ ...prev, firstTimeBuyer: e.target.checked }))}
+                  />
+                  First-time home buyer
+                </label>
+              </>
+            )}
+            {renderInput(id, 'legalFees', 'Legal Fees')}
+            {renderInput(id, 'appraisalFee', 'Appraisal Fee')}
+            {renderInput(id, 'inspectionFee', 'Home Inspection')}
+            {renderInput(id, 'otherClosingCosts', 'Other Closing Costs')}
+            {renderInput(id, 'points', 'Discount Points (% of loan)', '%', 0.125)}
+          </div>
+
+          <div className="pt-2 border-t border-gray-200">
+            <h3 className="text-md font-medium mb-2 text-gray-800">Ownership Costs</h3>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="col-span-2 mb-3">
+                <label className="block text-sm font-medium mb-1 text-gray-700">Property Tax (yearly)</label>
                 <div className="flex space-x-2">
                   <div className="relative flex-1">
                     <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-500">
-                      {scenarioB.downPaymentType === 'amount' ? '$' : '%'}
+                      {inputs.propertyTaxType === 'amount' ? '$' : '%'}
                     </span>
                     <input
                       type="number"
+                      step={inputs.propertyTaxType === 'amount' ? undefined : 0.01}
                       className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
-                      value={scenarioB.downPayment === 0 || scenarioB.downPayment === undefined ? '' : scenarioB.downPayment}
-                      onChange={(e) => handleScenarioBChange('downPayment', e.target.value)}
-                      onBlur={() => handleBlur('B', 'downPayment')}
+                      value={inputs.propertyTax === 0 || inputs.propertyTax === undefined ? '' : inputs.propertyTax}
+                      onChange={(e) => handleScenarioChange(id, 'propertyTax', e.target.value)}
+                      onBlur={() => handleBlur(id, 'propertyTax')}
                     />
                   </div>
                   <select
                     className="border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-                    value={scenarioB.downPaymentType}
-                    onChange={(e) => handleScenarioBChange('downPaymentType', e.target.value)}
+                    value={inputs.propertyTaxType}
+                    onChange={(e) => handleScenarioChange(id, 'propertyTaxType', e.target.value)}
                   >
-                    <option value="amount">$</option>
                     <option value="percent">%</option>
+                    <option value="amount">$</option>
                   </select>
                 </div>
               </div>
-              
-              {renderInput('B', 'interestRate', 'Interest Rate (%)', '%', 0.01)}
-              
-              <div className="mb-3">
-                <label className="block text-sm font-medium mb-1 text-gray-700">Amortization Period</label>
-                <select
-                  className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-                  value={scenarioB.amortizationPeriod}
-                  onChange={(e) => handleScenarioBChange('amortizationPeriod', Number(e.target.value))}
-                >
-                  {AMORTIZATION_PERIODS.map(period => (
-                    <option key={period.value} value={period.value}>{period.label}</option>
-                  ))}
-                </select>
-              </div>
-              
-              <div className="mb-3">
-                <label className="block text-sm font-medium mb-1 text-gray-700">Term Length</label>
-                <select
-                  className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-                  value={scenarioB.term}
-                  onChange={(e) => handleScenarioBChange('term', Number(e.target.value))}
-                >
-                  {TERM_LENGTHS.map(term => (
-                    <option key={term.value} value={term.value}>{term.label}</option>
-                  ))}
-                </select>
-              </div>
-              
-              <div className="mb-3">
-                <label className="block text-sm font-medium mb-1 text-gray-700">Payment Frequency</label>
-                <select
-                  className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-                  value={scenarioB.paymentFrequency}
-                  onChange={(e) => handleScenarioBChange('paymentFrequency', e.target.value)}
-                >
-                  {PAYMENT_FREQUENCIES.map(frequency => (
-                    <option key={frequency.value} value={frequency.value}>{frequency.label}</option>
-                  ))}
-                </select>
-              </div>
-              
-              <div className="pt-2 border-t border-gray-200">
-                <h3 className="text-md font-medium mb-2 text-gray-800">Prepayment Options</h3>
-                {renderInput('B', 'extraPayment', 'Extra Payment Per Period')}
-                {renderInput('B', 'paymentIncrease', 'Payment Increase (%)', '%')}
-                {renderInput('B', 'annualPrepayment', 'Annual Lump Sum (% of principal)', '%')}
-              </div>
+              {renderInput(id, 'propertyTaxEscalation', 'Rise / yr', '%', 0.1)}
+              <div className="col-span-2">{renderInput(id, 'condoFees', 'Condo Fees (monthly)')}</div>
+              {renderInput(id, 'condoFeesEscalation', 'Rise / yr', '%', 0.1)}
+              <div className="col-span-2">{renderInput(id, 'homeInsurance', 'Home Insurance (monthly)')}</div>
+              {renderInput(id, 'homeInsuranceEscalation', 'Rise / yr', '%', 0.1)}
+              <div className="col-span-2">{renderInput(id, 'utilities', 'Utilities (monthly)')}</div>
+              {renderInput(id, 'utilitiesEscalation', 'Rise / yr', '%', 0.1)}
+              <div className="col-span-2">{renderInput(id, 'maintenance', 'Maintenance Reserve (% of price yearly)', '%', 0.1)}</div>
+              {renderInput(id, 'maintenanceEscalation', 'Rise / yr', '%', 0.1)}
             </div>
           </div>
 
-          <div className="md:col-span-2 flex justify-center mt-4">
-            <button 
+          <div className="pt-2 border-t border-gray-200">
+            <h3 className="text-md font-medium mb-2 text-gray-800">Home Value</h3>
+            {renderInput(id, 'appreciationRate', 'Appreciation Rate (yearly)', '%', 0.1)}
+            <HomeValuesEditor
+              homeValues={inputs.homeValues}
+              purchasePrice={inputs.purchasePrice}
+              appreciationRate={inputs.appreciationRate}
+              onChange={(homeValues) => handleHomeValuesChange(id, homeValues)}
+            />
+            <p className="text-xs text-gray-500 -mt-2">
+              The value grows steadily between expected values and at the appreciation rate after the last one.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Put the whole comparison into the address bar and copy it for sending to a client
+  const copyShareLink = async () => {
+    const hash = encodeShareState(getSharedState());
+    const url = `${window.location.origin}${window.location.pathname}#${hash}`;
+    window.history.replaceState(null, '', url);
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareStatus('Link copied');
+    } catch {
+      setShareStatus('Copy the link from the address bar');
+    }
+  };
+
+  // One chip per scenario, separated by "vs"
+  const renderSummaryValues = (getValue: (id: string, result: MortgageResult) => React.ReactNode) => (
+    <div className="text-sm md:text-base font-medium flex flex-wrap justify-center items-center gap-1">
+      {comparison.scenarios.map((scenario, index) => (
+        <React.Fragment key={scenario.id}>
+          {index > 0 && <span>vs</span>}
+          <span className={`${getScenarioColor(scenario.id).badge} px-2 py-1 rounded`}>{getValue(scenario.id, scenario.result)}</span>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+
+  // Table row with one column per scenario; non-baseline cells also show their difference from the baseline
+  const renderComparisonRow = (
+    label: string,
+    getValue: (id: string, result: MortgageResult) => React.ReactNode,
+    difference?: {
+      getValue: (differences: ComparisonDifferences, id: string) => number;
+      format: (value: number) => string;
+      isSaving: (value: number) => boolean;
+    }
+  ) => (
+    <tr>
+      <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{label}</td>
+      {comparison.scenarios.map(scenario => {
+        const differenceValue = difference?.getValue(scenario.differences, scenario.id);
+        return (
+          <td key={scenario.id} className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+            {getValue(scenario.id, scenario.result)}
+            {difference && differenceValue !== undefined && scenario.id !== comparison.baselineId && (
+              <div className={`text-xs ${differenceValue === 0 ? 'text-gray-400' : difference.isSaving(differenceValue) ? 'text-green-600' : 'text-red-600'}`}>
+                {difference.format(differenceValue)}
+              </div>
+            )}
+          </td>
+        );
+      })}
+    </tr>
+  );
+
+  // Bands from the last rate simulation, until its scenario is edited
+  const simulationBands = rateSimulation && getInputs(rateSimulation.scenarioId) === rateSimulation.inputs
+    ? rateSimulation.result.balance
+    : null;
+  const simulatedScenario = comparison.scenarios.find(scenario => scenario.id === rateSimulation?.scenarioId);
+
+  // Renewal terms are compared side by side once any scenario renews
+  const termCount = comparison.scenarios.some(scenario => getInputs(scenario.id).renewals.length > 0)
+    ? Math.max(...comparison.scenarios.map(scenario => scenario.result.termSummaries.filter(term => !term.assumed).length))
+    : 0;
+
+  const renderTermValue = (result: MortgageResult, index: number) => {
+    const term = result.termSummaries.filter(summary => !summary.assumed)[index];
+    if (!term) return <span className="text-gray-400">—</span>;
+
+    return (
+      <>
+        <div className="text-xs text-gray-400">Years {term.startYear}–{term.endYear} @ {formatPercent(term.interestRate)}</div>
+        <div>{formatCurrency(term.paymentAmount)} payment</div>
+        <div>{formatCurrency(term.interestPaid)} interest</div>
+        <div>{formatCurrency(term.endingBalance)} balance</div>
+      </>
+    );
+  };
+
+  const hasPenalties = comparison.scenarios.some(scenario => scenario.result.prepaymentPenalty !== null);
+
+  const renderOwnershipCosts = (result: MortgageResult) => {
+    const { propertyTax, condoFees, homeInsurance, utilities, maintenance, total } = result.ownershipCosts.monthly;
+    if (total === 0) return 'None';
+
+    const items: [string, number][] = [
+      ['Property tax', propertyTax],
+      ['Condo fees', condoFees],
+      ['Home insurance', homeInsurance],
+      ['Utilities', utilities],
+      ['Maintenance', maintenance]
+    ];
+    return (
+      <>
+        {formatCurrency(total)}
+        {items.filter(([, amount]) => amount > 0).map(([label, amount]) => (
+          <div key={label} className="text-xs text-gray-400">{label} {formatCurrency(amount)}</div>
+        ))}
+      </>
+    );
+  };
+
+  const renderPmi = (id: string, result: MortgageResult) => {
+    const { pmi } = result;
+    if (!pmi) return <span className="text-gray-400">Not required</span>;
+
+    const endDate = getInputs(id).pmiCancelOnRequest ? pmi.cancellationDate : pmi.terminationDate;
+    return (
+      <>
+        {formatCurrency(pmi.monthlyPremium)} a month
+        <div className="text-xs text-gray-400">{pmi.months} months{endDate ? `, ends ${endDate}` : ''}</div>
+        <div className="text-xs text-gray-400">{formatCurrency(pmi.totalPaid)} in total</div>
+      </>
+    );
+  };
+
+  // First ARM adjustment and the highest rate the adjustments reach
+  const describeAdjustments = (result: MortgageResult) => {
+    const [first] = result.rateAdjustments;
+    const peak = Math.max(...result.rateAdjustments.map(change => change.interestRate));
+    return `${formatPercent(first.interestRate)} from ${first.date}, peak ${formatPercent(peak)}`;
+  };
+
+  const describeCrossing = (crossing: LoanToValueCrossing) => {
+    if (crossing.year === null) return 'Not reached';
+    return crossing.year === 0 ? 'From the start' : `Year ${crossing.year}`;
+  };
+
+  const renderPenalty = (result: MortgageResult) => {
+    const penalty = result.prepaymentPenalty;
+    if (!penalty) return <span className="text-gray-400">—</span>;
+
+    return (
+      <>
+        {formatCurrency(penalty.penalty)}
+        <div className="text-xs text-gray-400">
+          {penalty.method === 'interest_rate_differential' ? 'IRD' : "3 months' interest"} on {formatCurrency(penalty.balance)} at {penalty.breakDate}
+        </div>
+        <div className="text-xs text-gray-400">
+          3 mo. {formatCurrency(penalty.threeMonthsInterest)} · IRD {formatCurrency(penalty.interestRateDifferential)}
+        </div>
+      </>
+    );
+  };
+
+  // Qualification is only shown once the borrower's income is entered
+  const hasQualification = comparison.scenarios.some(scenario => scenario.result.qualification !== null);
+
+  const renderQualificationBadge = (result: MortgageResult) => {
+    if (!result.qualification) return '—';
+
+    return (
+      <>
+        <span className={result.qualification.passes ? 'text-green-700' : 'text-red-700'}>
+          {result.qualification.passes ? 'Pass' : 'Fail'}
+        </span>
+        <span className="text-xs text-gray-600"> · max {formatCurrency(result.qualification.maxMortgage)}</span>
+      </>
+    );
+  };
+
+  const renderQualificationValue = (result: MortgageResult, getValue: (qualification: Qualification) => string) => {
+    return result.qualification ? getValue(result.qualification) : '—';
+  };
+
+  // Trigger rates only apply to fixed-payment variable scenarios
+  const hasTriggerRates = comparison.scenarios.some(scenario => scenario.result.triggerRate !== null);
+
+  const renderTriggerRate = (result: MortgageResult) => {
+    if (result.triggerRate === null) return <span className="text-gray-400">—</span>;
+
+    return (
+      <>
+        {formatPercent(result.triggerRate)}
+        {result.triggerPoint && (
+          <div className="text-xs text-red-600">
+            Reached {result.triggerPoint.date} at {formatPercent(result.triggerPoint.interestRate)}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  // A loan whose payment never catches up with its interest still has a balance at the end of the projection
+  const isRepaid = (result: MortgageResult) => !result.amortizationSchedule.length
+    || result.amortizationSchedule[result.amortizationSchedule.length - 1].endingBalance === 0;
+
+  const negativelyAmortizing = comparison.scenarios.filter(scenario => scenario.result.negativeAmortization);
+  const hasInterestAdjustments = comparison.scenarios.some(scenario => scenario.result.interestAdjustment.amount > 0);
+  const breachingPrivileges = comparison.scenarios.filter(scenario => scenario.result.prepaymentBreaches.length > 0);
+
+  const describeBreach = ({ kind, year, requested, allowed }: PrepaymentBreach) => {
+    if (kind === 'payment_increase') return `payment increase of ${formatPercent(requested)} cut to ${formatPercent(allowed)}`;
+    const name = kind === 'lump_sum' ? 'lump sum' : 'annual lump sum';
+    return `year ${year} ${name} of ${formatCurrency(requested)} cut to ${formatCurrency(allowed)}`;
+  };
+
+  const inputDifference = (getValue: (inputs: ScenarioState) => number, format: (value: number) => string) => ({
+    getValue: (_: ComparisonDifferences, id: string) => getValue(getInputs(id)) - (baseline ? getValue(getInputs(baseline.id)) : 0),
+    format,
+    isSaving: (value: number) => value < 0
+  });
+
+  const resultDifference = (metric: keyof ComparisonDifferences, format: (value: number) => string = formatCurrency) => ({
+    getValue: (differences: ComparisonDifferences) => differences[metric],
+    format,
+    isSaving: (value: number) => (metric === 'timeShaved' ? value > 0 : value < 0)
+  });
+
+  // Cost rows follow the real-dollars toggle, with differences taken on the same basis
+  const renderCostRow = (label: string, metric: 'totalInterestTerm' | 'totalInterestLifetime' | 'totalCost' | 'balanceAtEndOfTerm') => (
+    showRealDollars
+      ? renderComparisonRow(`${label} (today's $)`, (_, result) => formatCurrency(result.realDollars[metric]), {
+        getValue: (_, id) => (comparison.scenarios.find(scenario => scenario.id === id)?.result.realDollars[metric] ?? 0)
+          - (baseline?.result.realDollars[metric] ?? 0),
+        format: formatCurrency,
+        isSaving: value => value < 0
+      })
+      : renderComparisonRow(label, (_, result) => formatCurrency(result[metric]), resultDifference(metric))
+  );
+
+  return (
+    <div className="bg-white shadow-lg rounded-xl p-4 md:p-6 max-w-6xl mx-auto">
+      <h1 className="text-2xl md:text-3xl font-bold text-blue-800 mb-4 md:mb-6 text-center">Mortgage Scenario Comparison</h1>
+
+      {restoreWarning && (
+        <div className="mb-4 flex items-start justify-between gap-4 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+          <span>{restoreWarning}</span>
+          <button className="text-amber-700 hover:underline" onClick={() => setRestoreWarning(null)}>Dismiss</button>
+        </div>
+      )}
+
+      {/* Tabs */}
+      <div className="mb-6">
+        <div className="flex justify-center">
+          <div className="inline-flex rounded-md shadow-sm">
+            <button
+              className={`px-4 py-2 text-sm font-medium rounded-l-lg ${activeTab === 'input' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              onClick={() => setActiveTab('input')}
+            >
+              Input Scenarios
+            </button>
+            <button
+              className={`px-4 py-2 text-sm font-medium ${activeTab === 'results' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              onClick={() => setActiveTab('results')}
+            >
+              Compare Results
+            </button>
+            <button
+              className={`px-4 py-2 text-sm font-medium ${activeTab === 'rent_vs_buy' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              onClick={() => setActiveTab('rent_vs_buy')}
+            >
+              Rent vs Buy
+            </button>
+            <button
+              className={`px-4 py-2 text-sm font-medium ${activeTab === 'refinance' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              onClick={() => setActiveTab('refinance')}
+            >
+              Refinance
+            </button>
+            <button
+              className={`px-4 py-2 text-sm font-medium rounded-r-lg ${activeTab === 'sensitivity' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              onClick={() => setActiveTab('sensitivity')}
+            >
+              Sensitivity
+            </button>
+          </div>
+        </div>
+        <div className="flex justify-center items-center gap-2 mt-3">
+          <select
+            aria-label="Market"
+            className="border border-gray-300 rounded px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500"
+            value={market.value}
+            onChange={(e) => handleMarketChange(e.target.value)}
+          >
+            {MARKETS.map(item => (
+              <option key={item.value} value={item.value}>{item.label}</option>
+            ))}
+          </select>
+          <button
+            className="px-3 py-1 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+            onClick={copyShareLink}
+          >
+            Copy Share Link
+          </button>
+          {shareStatus && <span className="text-xs text-gray-500">{shareStatus}</span>}
+        </div>
+      </div>
+
+      {activeTab === 'sensitivity' ? (
+        <SensitivityView scenarios={scenarios} market={market} />
+      ) : activeTab === 'refinance' ? (
+        <RefinanceView inputs={refinance} market={market} onChange={setRefinance} />
+      ) : activeTab === 'rent_vs_buy' ? (
+        <RentVsBuyView
+          scenarios={scenarios}
+          comparison={comparison}
+          market={market}
+          inputs={rentVsBuy}
+          onChange={setRentVsBuy}
+          getColor={id => getScenarioColor(id).stroke}
+        />
+      ) : activeTab === 'input' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <ScenarioLibrary
+            scenarios={scenarios}
+            canAddScenario={scenarios.length < MAX_SCENARIOS}
+            getCurrentState={getSharedState}
+            onLoadPreset={loadPreset}
+            onLoadComparison={loadComparison}
+          />
+
+          <BorrowerPanel borrower={borrower} market={market} onChange={setBorrower} />
+
+          {scenarios.map(renderScenarioInputs)}
+
+          <div className="md:col-span-2 flex flex-wrap justify-center gap-4 mt-4">
+            <button
+              className="bg-white border border-blue-600 text-blue-700 hover:bg-blue-50 px-6 py-3 rounded-md font-medium shadow-md transition disabled:opacity-50"
+              onClick={addScenario}
+              disabled={scenarios.length >= MAX_SCENARIOS}
+            >
+              Add Scenario
+            </button>
+            <button
               className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-md font-medium shadow-md transition"
               onClick={() => setActiveTab('results')}
             >
@@ -727,128 +1142,214 @@ const MortgageComparisonCalculator = () => {
           {/* Summary Card */}
           <div className="bg-white border rounded-lg p-6 shadow">
             <h2 className="text-xl font-semibold mb-4 text-gray-800 border-b pb-2">Comparison Summary</h2>
-            
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="md:col-span-1 flex flex-col justify-center">
                 <div className="space-y-2 text-center">
                   <div className="text-sm font-medium text-gray-500">Better Option</div>
-                  <div className={`text-2xl font-bold ${comparison.differences.totalInterestLifetime <= 0 ? 'text-blue-700' : 'text-green-700'}`}>
-                    {comparison.differences.totalInterestLifetime <= 0 ? 'Scenario A' : 'Scenario B'}
+                  <div className={`text-2xl font-bold ${bestScenario ? getScenarioColor(bestScenario.id).heading : 'text-gray-700'}`}>
+                    {bestScenario?.name}
                   </div>
                   <div className="text-lg font-semibold text-gray-700">
-                    Lifetime Savings: {formatCurrency(Math.abs(comparison.differences.totalInterestLifetime))}
+                    Net Lifetime Savings: {formatCurrency(Math.abs(bestScenario?.differences.totalCost ?? 0))}
                   </div>
+                  <div className="text-xs text-gray-500">Compared with {baseline?.name}</div>
                 </div>
               </div>
-              
+
               <div className="md:col-span-2">
-                <div className="grid grid-cols-3 gap-2">
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
                   <div className="text-center">
                     <div className="text-xs text-gray-500 mb-1">Monthly Payment</div>
-                    <div className="text-sm md:text-base font-medium">
-                      <span className="bg-blue-100 px-2 py-1 rounded">{formatCurrency(comparison.scenarioA.monthlyPayment)}</span>
-                      {' vs '}
-                      <span className="bg-green-100 px-2 py-1 rounded">{formatCurrency(comparison.scenarioB.monthlyPayment)}</span>
-                    </div>
+                    {renderSummaryValues((_, result) => formatCurrency(result.monthlyPayment))}
                   </div>
-                  
+
                   <div className="text-center">
-                    <div className="text-xs text-gray-500 mb-1">Interest (Term)</div>
-                    <div className="text-sm md:text-base font-medium">
-                      <span className="bg-blue-100 px-2 py-1 rounded">{formatCurrency(comparison.scenarioA.totalInterestTerm)}</span>
-                      {' vs '}
-                      <span className="bg-green-100 px-2 py-1 rounded">{formatCurrency(comparison.scenarioB.totalInterestTerm)}</span>
+                    <div className="text-xs text-gray-500 mb-1">All-In Monthly Cost</div>
+                    {renderSummaryValues((_, result) => formatCurrency(result.allInMonthlyCost))}
+                  </div>
+
+                  {hasQualification && (
+                    <div className="text-center">
+                      <div className="text-xs text-gray-500 mb-1">{market.labels.qualification}</div>
+                      {renderSummaryValues((_, result) => renderQualificationBadge(result))}
                     </div>
+                  )}
+
+                  <div className="text-center">
+                    <div className="text-xs text-gray-500 mb-1">Interest (Term)</div>
+                    {renderSummaryValues((_, result) => formatCurrency(result.totalInterestTerm))}
                   </div>
-                  
+
                   <div className="text-center">
                     <div className="text-xs text-gray-500 mb-1">Interest (Lifetime)</div>
-                    <div className="text-sm md:text-base font-medium">
-                      <span className="bg-blue-100 px-2 py-1 rounded">{formatCurrency(comparison.scenarioA.totalInterestLifetime)}</span>
-                      {' vs '}
-                      <span className="bg-green-100 px-2 py-1 rounded">{formatCurrency(comparison.scenarioB.totalInterestLifetime)}</span>
-                    </div>
+                    {renderSummaryValues((_, result) => formatCurrency(result.totalInterestLifetime))}
+                  </div>
+
+                  <div className="text-center">
+                    <div className="text-xs text-gray-500 mb-1">Borrowing Cost (Lifetime)</div>
+                    {renderSummaryValues((_, result) => formatCurrency(result.totalCost))}
                   </div>
-                  
+
+                  <div className="text-center">
+                    <div className="text-xs text-gray-500 mb-1">Ownership Cost (Lifetime)</div>
+                    {renderSummaryValues((_, result) => formatCurrency(result.lifetimeOwnershipCost))}
+                  </div>
+
                   <div className="text-center">
                     <div className="text-xs text-gray-500 mb-1">Payment Frequency</div>
-                    <div className="text-sm md:text-base font-medium">
-                      <span className="bg-blue-100 px-2 py-1 rounded">
-                        {PAYMENT_FREQUENCIES.find(f => f.value === scenarioA.paymentFrequency)?.label}
-                      </span>
-                      {' vs '}
-                      <span className="bg-green-100 px-2 py-1 rounded">
-                        {PAYMENT_FREQUENCIES.find(f => f.value === scenarioB.paymentFrequency)?.label}
-                      </span>
-                    </div>
+                    {renderSummaryValues(id => PAYMENT_FREQUENCIES.find(f => f.value === getInputs(id).paymentFrequency)?.label)}
                   </div>
-                  
+
                   <div className="text-center">
                     <div className="text-xs text-gray-500 mb-1">Balance After Term</div>
-                    <div className="text-sm md:text-base font-medium">
-                      <span className="bg-blue-100 px-2 py-1 rounded">{formatCurrency(comparison.scenarioA.balanceAtEndOfTerm)}</span>
-                      {' vs '}
-                      <span className="bg-green-100 px-2 py-1 rounded">{formatCurrency(comparison.scenarioB.balanceAtEndOfTerm)}</span>
-                    </div>
+                    {renderSummaryValues((_, result) => formatCurrency(result.balanceAtEndOfTerm))}
                   </div>
-                  
+
                   <div className="text-center">
                     <div className="text-xs text-gray-500 mb-1">Effective Amortization</div>
-                    <div className="text-sm md:text-base font-medium">
-                      <span className="bg-blue-100 px-2 py-1 rounded">{comparison.scenarioA.effectiveAmortization.toFixed(1)} yrs</span>
-                      {' vs '}
-                      <span className="bg-green-100 px-2 py-1 rounded">{comparison.scenarioB.effectiveAmortization.toFixed(1)} yrs</span>
-                    </div>
+                    {renderSummaryValues((_, result) => (isRepaid(result) ? `${result.effectiveAmortization.toFixed(1)} yrs` : 'Not repaid'))}
                   </div>
                 </div>
               </div>
             </div>
           </div>
-          
+
+          {negativelyAmortizing.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">
+              <span className="font-semibold">Negative amortization: </span>
+              {negativelyAmortizing.map(scenario => scenario.name).join(', ')}
+              {negativelyAmortizing.length === 1 ? ' reaches its' : ' reach their'} trigger rate, so fixed payments no longer cover
+              the interest and the unpaid interest is added to the balance. Lenders usually require a higher payment or a lump sum at this point.
+            </div>
+          )}
+
+          {breachingPrivileges.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+              <span className="font-semibold">Prepayment privileges exceeded: </span>
+              prepayments above the lender&apos;s limits are cut back to them in the results.
+              <ul className="list-disc ml-5 mt-1">
+                {breachingPrivileges.map(({ id, name, result }) => (
+                  <li key={id}>
+                    {name}: {result.prepaymentBreaches.slice(0, 3).map(describeBreach).join('; ')}
+                    {result.prepaymentBreaches.length > 3 && ` and ${result.prepaymentBreaches.length - 3} more`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Time value of money: shared by the balance chart and the detailed comparison */}
+          <div className="bg-gray-50 rounded-lg p-4 shadow">
+            <div className="flex flex-wrap items-end gap-4">
+              {(['discountRate', 'inflationRate'] as const).map(name => (
+                <div key={name} className="w-36">
+                  <label className="block text-sm font-medium mb-1 text-gray-700">{name === 'discountRate' ? 'Discount Rate' : 'Inflation Rate'}</label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      step="0.1"
+                      className="w-full pl-3 pr-8 py-2 border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+                      value={economics[name]}
+                      onChange={(e) => setEconomics({ ...economics, [name]: Number(e.target.value) })}
+                    />
+                    <span className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-500">%</span>
+                  </div>
+                </div>
+              ))}
+              <label className="flex items-center gap-2 py-2 text-sm text-gray-700">
+                <input type="checkbox" checked={showRealDollars} onChange={(e) => setShowRealDollars(e.target.checked)} />
+                Show costs and balances in today&apos;s dollars
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              The present value of payments discounts each payment to the start date at the discount rate, such as the return the cash
+              could earn elsewhere. Today&apos;s dollars deflate each amount at the inflation rate from the date it is paid.
+            </p>
+          </div>
+
           {/* Charts */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Balance Comparison Chart */}
             <div className="bg-white border rounded-lg p-4 shadow">
-              <h3 className="text-lg font-semibold mb-4 text-gray-800">Mortgage Balance Over Time</h3>
+              <h3 className="text-lg font-semibold mb-4 text-gray-800">
+                Mortgage Balance Over Time{showRealDollars && <span className="text-sm font-normal text-gray-500"> (today&apos;s dollars)</span>}
+              </h3>
               <div className="h-64">
                 <ResponsiveContainer width="100%" height="100%">
-                  <LineChart
-                    data={prepareBalanceComparisonData()}
+                  <ComposedChart
+                    data={simulationBands
+                      ? addBalanceBands(getBalanceChartData(comparison, showRealDollars), simulationBands, showRealDollars ? economics.inflationRate : 0)
+                      : getBalanceChartData(comparison, showRealDollars)}
                     margin={{ top: 5, right: 20, left: 20, bottom: 5 }}
                   >
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="year" />
                     <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
-                    <Tooltip formatter={(value) => formatCurrency(Number(value))} />
-                    <Legend />
-                    <Line
-                      type="monotone"
-                      dataKey="scenarioA"
-                      name="Scenario A"
-                      stroke="#2563eb"
-                      strokeWidth={2}
-                      activeDot={{ r: 8 }}
+                    <Tooltip
+                      formatter={(value) => (Array.isArray(value)
+                        ? value.map(item => formatCurrency(Number(item))).join(' – ')
+                        : formatCurrency(Number(value)))}
                     />
-                    <Line
-                      type="monotone"
-                      dataKey="scenarioB"
-                      name="Scenario B"
-                      stroke="#16a34a"
-                      strokeWidth={2}
-                      activeDot={{ r: 8 }}
-                    />
-                  </LineChart>
+                    <Legend />
+                    {simulationBands && simulatedScenario && (
+                      <Area
+                        type="monotone"
+                        dataKey="simulatedRange"
+                        name={`${simulatedScenario.name} P10–P90`}
+                        stroke="none"
+                        fill={getScenarioColor(simulatedScenario.id).fill}
+                        fillOpacity={0.5}
+                        activeDot={false}
+                      />
+                    )}
+                    {simulationBands && simulatedScenario && (
+                      <Line
+                        type="monotone"
+                        dataKey="simulatedMedian"
+                        name={`${simulatedScenario.name} P50`}
+                        stroke={getScenarioColor(simulatedScenario.id).stroke}
+                        strokeDasharray="5 5"
+                        strokeWidth={1.5}
+                        dot={false}
+                      />
+                    )}
+                    {comparison.scenarios.map(scenario => (
+                      <Line
+                        key={scenario.id}
+                        type="monotone"
+                        dataKey={scenario.id}
+                        name={scenario.name}
+                        stroke={getScenarioColor(scenario.id).stroke}
+                        strokeWidth={2}
+                        activeDot={{ r: 8 }}
+                      />
+                    ))}
+                    {comparison.scenarios.flatMap(scenario => scenario.result.termSummaries
+                      .filter(term => !term.assumed && term.endingBalance > 0 && term.termNumber < scenario.result.termSummaries.length)
+                      .map(term => (
+                        <ReferenceDot
+                          key={`${scenario.id}-${term.termNumber}`}
+                          x={term.endYear}
+                          y={term.endingBalance}
+                          r={4}
+                          fill={getScenarioColor(scenario.id).stroke}
+                          stroke="none"
+                        />
+                      )))}
+                  </ComposedChart>
                 </ResponsiveContainer>
               </div>
+              {termCount > 0 && <p className="text-xs text-gray-500 mt-2">Dots mark the balance at each renewal.</p>}
             </div>
-            
+
             {/* Interest Comparison Chart */}
             <div className="bg-white border rounded-lg p-4 shadow">
               <h3 className="text-lg font-semibold mb-4 text-gray-800">Interest Cost Comparison</h3>
               <div className="h-64">
                 <ResponsiveContainer width="100%" height="100%">
                   <BarChart
-                    data={prepareInterestComparisonData()}
+                    data={getInterestChartData(comparison)}
                     margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
                   >
                     <CartesianGrid strokeDasharray="3 3" />
@@ -856,118 +1357,245 @@ const MortgageComparisonCalculator = () => {
                     <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
                     <Tooltip formatter={(value) => formatCurrency(Number(value))} />
                     <Legend />
-                    <Bar dataKey="scenarioA" name="Scenario A" fill="#93c5fd" />
-                    <Bar dataKey="scenarioB" name="Scenario B" fill="#86efac" />
-                    <Bar dataKey="savings" name="Savings" fill="#fb923c" />
+                    {comparison.scenarios.map(scenario => (
+                      <Bar key={scenario.id} dataKey={scenario.id} name={scenario.name} fill={getScenarioColor(scenario.id).fill} />
+                    ))}
+                    <Bar dataKey="savings" name="Best Savings" fill="#fb923c" />
                   </BarChart>
                 </ResponsiveContainer>
               </div>
             </div>
           </div>
-          
+
+          {/* Equity Chart */}
+          <div className="bg-white border rounded-lg p-4 shadow">
+            <h3 className="text-lg font-semibold mb-4 text-gray-800">Home Equity Over Time</h3>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={getEquityChartData(comparison)} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="year" />
+                  <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
+                  <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                  <Legend />
+                  {comparison.scenarios.map(scenario => (
+                    <Line
+                      key={scenario.id}
+                      type="monotone"
+                      dataKey={scenario.id}
+                      name={scenario.name}
+                      stroke={getScenarioColor(scenario.id).stroke}
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-3 text-sm">
+              {LOAN_TO_VALUE_THRESHOLDS.map((loanToValue, index) => (
+                <div key={loanToValue}>
+                  <span className="font-medium text-gray-700">{loanToValue}% LTV</span>
+                  <span className="text-xs text-gray-500"> ({index === 0 ? 'conventional refinance' : 'HELOC access'})</span>
+                  {renderSummaryValues((_, result) => describeCrossing(result.equity.crossings[index]))}
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Equity is the home&apos;s expected value less the balance owing at the end of each mortgage year.
+            </p>
+          </div>
+
           {/* Detailed Comparison Table */}
           <div className="bg-white border rounded-lg p-4 shadow">
             <h3 className="text-lg font-semibold mb-4 text-gray-800">Detailed Comparison</h3>
-            
+            <p className="text-xs text-gray-500 mb-2">Differences are shown against the baseline, {baseline?.name}.</p>
+
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
                     <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Parameter</th>
-                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scenario A</th>
-                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scenario B</th>
-                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Difference</th>
+                    {comparison.scenarios.map(scenario => (
+                      <th key={scenario.id} className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {scenario.name}
+                        {scenario.id === comparison.baselineId && <span className="ml-1 normal-case text-gray-400">(baseline)</span>}
+                      </th>
+                    ))}
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  <tr>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">Purchase Price</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(scenarioA.purchasePrice)}</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(scenarioB.purchasePrice)}</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(scenarioB.purchasePrice - scenarioA.purchasePrice)}</td>
-                  </tr>
-                  <tr>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">Down Payment</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
-                      {scenarioA.downPaymentType === 'amount' 
-                        ? formatCurrency(scenarioA.downPayment)
-                        : formatCurrency(scenarioA.purchasePrice * scenarioA.downPayment / 100)}
-                    </td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
-                      {scenarioB.downPaymentType === 'amount' 
-                        ? formatCurrency(scenarioB.downPayment)
-                        : formatCurrency(scenarioB.purchasePrice * scenarioB.downPayment / 100)}
-                    </td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
-                      {formatCurrency(
-                        (scenarioB.downPaymentType === 'amount' 
-                          ? scenarioB.downPayment
-                          : scenarioB.purchasePrice * scenarioB.downPayment / 100) -
-                        (scenarioA.downPaymentType === 'amount' 
-                          ? scenarioA.downPayment
-                          : scenarioA.purchasePrice * scenarioA.downPayment / 100)
-                      )}
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">Mortgage Amount</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(comparison.scenarioA.totalMortgage)}</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(comparison.scenarioB.totalMortgage)}</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(comparison.scenarioB.totalMortgage - comparison.scenarioA.totalMortgage)}</td>
-                  </tr>
-                  <tr>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">Interest Rate</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatPercent(scenarioA.interestRate)}</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatPercent(scenarioB.interestRate)}</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatPercent(scenarioB.interestRate - scenarioA.interestRate)}</td>
-                  </tr>
-                  <tr>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">Monthly Payment</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(comparison.scenarioA.monthlyPayment)}</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(comparison.scenarioB.monthlyPayment)}</td>
-                    <td className={`px-3 py-2 whitespace-nowrap text-sm ${comparison.differences.monthlyPayment < 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {formatCurrency(comparison.differences.monthlyPayment)}
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">Interest Over Term</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(comparison.scenarioA.totalInterestTerm)}</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(comparison.scenarioB.totalInterestTerm)}</td>
-                    <td className={`px-3 py-2 whitespace-nowrap text-sm ${comparison.differences.totalInterestTerm < 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {formatCurrency(comparison.differences.totalInterestTerm)}
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">Interest Over Lifetime</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(comparison.scenarioA.totalInterestLifetime)}</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(comparison.scenarioB.totalInterestLifetime)}</td>
-                    <td className={`px-3 py-2 whitespace-nowrap text-sm ${comparison.differences.totalInterestLifetime < 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {formatCurrency(comparison.differences.totalInterestLifetime)}
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">Balance at End of Term</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(comparison.scenarioA.balanceAtEndOfTerm)}</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{formatCurrency(comparison.scenarioB.balanceAtEndOfTerm)}</td>
-                    <td className={`px-3 py-2 whitespace-nowrap text-sm ${comparison.differences.balanceAtEndOfTerm < 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {formatCurrency(comparison.differences.balanceAtEndOfTerm)}
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">Years to Pay Off</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{comparison.scenarioA.effectiveAmortization.toFixed(2)} years</td>
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{comparison.scenarioB.effectiveAmortization.toFixed(2)} years</td>
-                    <td className={`px-3 py-2 whitespace-nowrap text-sm ${comparison.differences.timeShaved > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {comparison.differences.timeShaved.toFixed(2)} years
-                    </td>
-                  </tr>
+                  {renderComparisonRow(
+                    'Purchase Price',
+                    id => formatCurrency(getInputs(id).purchasePrice),
+                    inputDifference(inputs => inputs.purchasePrice, formatCurrency)
+                  )}
+                  {renderComparisonRow(
+                    'Down Payment',
+                    id => formatCurrency(getDownPaymentAmount(getInputs(id))),
+                    inputDifference(getDownPaymentAmount, formatCurrency)
+                  )}
+                  {renderComparisonRow(
+                    'Closing Costs',
+                    (_, result) => (
+                      <>
+                        {formatCurrency(result.closingCosts.total)}
+                        {market.landTransferTax && (
+                          <div className="text-xs text-gray-400">Land transfer tax {formatCurrency(result.closingCosts.landTransferTax)}</div>
+                        )}
+                        {result.closingCosts.firstTimeBuyerRebate > 0 && (
+                          <div className="text-xs text-gray-400">after {formatCurrency(result.closingCosts.firstTimeBuyerRebate)} rebate</div>
+                        )}
+                        <div className="text-xs text-gray-400">Fees {formatCurrency(result.closingCosts.fees)}</div>
+                        {result.closingCosts.points > 0 && (
+                          <div className="text-xs text-gray-400">Points {formatCurrency(result.closingCosts.points)}</div>
+                        )}
+                        {result.closingCosts.insurancePst > 0 && (
+                          <div className="text-xs text-gray-400">PST on insurance {formatCurrency(result.closingCosts.insurancePst)}</div>
+                        )}
+                      </>
+                    )
+                  )}
+                  {hasInterestAdjustments && renderComparisonRow('Interest Adjustment', (_, result) => (
+                    <>
+                      {formatCurrency(result.interestAdjustment.amount)}
+                      <div className="text-xs text-gray-400">
+                        {result.interestAdjustment.days} days to {result.interestAdjustment.date}
+                      </div>
+                    </>
+                  ))}
+                  {renderComparisonRow('Total Cash Required', (_, result) => formatCurrency(result.cashRequired), resultDifference('cashRequired'))}
+                  {renderComparisonRow(
+                    'Mortgage Amount',
+                    id => formatCurrency(getInputs(id).purchasePrice - getDownPaymentAmount(getInputs(id))),
+                    inputDifference(inputs => inputs.purchasePrice - getDownPaymentAmount(inputs), formatCurrency)
+                  )}
+                  {market.mortgageInsurance === 'pmi'
+                    ? renderComparisonRow('Mortgage Insurance (PMI)', (id, result) => renderPmi(id, result))
+                    : renderComparisonRow(
+                      'Insurance Premium',
+                      (_, result) => (
+                        <>
+                          {formatCurrency(result.insurance.premium)}
+                          <div className="text-xs text-gray-400">
+                            {result.insurance.required ? `${formatPercent(result.insurance.premiumRate)} at ${formatPercent(result.insurance.loanToValue)} LTV` : 'Not required'}
+                          </div>
+                        </>
+                      ),
+                      inputDifference(inputs => getInsurance(inputs).premium, formatCurrency)
+                    )}
+                  {renderComparisonRow(
+                    'Total Mortgage',
+                    (_, result) => formatCurrency(result.totalMortgage),
+                    inputDifference(inputs => inputs.purchasePrice - getDownPaymentAmount(inputs) + getInsurance(inputs).premium, formatCurrency)
+                  )}
+                  {renderComparisonRow(
+                    'Interest Rate',
+                    (id, result) => (
+                      <>
+                        {formatPercent(getContractRate(getInputs(id)))}
+                        {result.rateAdjustments.length > 0 && <div className="text-xs text-gray-400">{describeAdjustments(result)}</div>}
+                      </>
+                    ),
+                    inputDifference(getContractRate, formatPercent)
+                  )}
+                  {hasTriggerRates && renderComparisonRow('Trigger Rate', (_, result) => renderTriggerRate(result))}
+                  {renderComparisonRow('Monthly Payment', (_, result) => formatCurrency(result.monthlyPayment), resultDifference('monthlyPayment'))}
+                  {renderComparisonRow('Ownership Costs (monthly)', (_, result) => renderOwnershipCosts(result))}
+                  {renderComparisonRow('All-In Monthly Cost', (_, result) => formatCurrency(result.allInMonthlyCost), resultDifference('allInMonthlyCost'))}
+                  {renderComparisonRow('First Payment', (_, result) => result.firstPaymentDate)}
+                  {renderComparisonRow('Maturity Date', (_, result) => result.maturityDate)}
+                  {hasQualification && (
+                    <>
+                      {renderComparisonRow('Qualifying Rate', (_, result) => renderQualificationValue(result, q => formatPercent(q.stressTest.interestRate)))}
+                      {renderComparisonRow(`${market.labels.housingRatio} (contract / qualifying)`, (_, result) => renderQualificationValue(
+                        result,
+                        q => `${formatPercent(q.contract.gds)} / ${formatPercent(q.stressTest.gds)}`
+                      ))}
+                      {renderComparisonRow(`${market.labels.totalRatio} (contract / qualifying)`, (_, result) => renderQualificationValue(
+                        result,
+                        q => `${formatPercent(q.contract.tds)} / ${formatPercent(q.stressTest.tds)}`
+                      ))}
+                      {renderComparisonRow('Maximum Mortgage', (_, result) => renderQualificationValue(result, q => formatCurrency(q.maxMortgage)))}
+                    </>
+                  )}
+                  {renderCostRow('Interest Over Term', 'totalInterestTerm')}
+                  {renderCostRow('Interest Over Lifetime', 'totalInterestLifetime')}
+                  {hasPenalties && renderComparisonRow('Prepayment Penalty', (_, result) => renderPenalty(result))}
+                  {renderCostRow('Total Borrowing Cost', 'totalCost')}
+                  {renderComparisonRow(
+                    'Lifetime Ownership Cost',
+                    (_, result) => (
+                      <>
+                        {formatCurrency(result.lifetimeOwnershipCost)}
+                        <div className="text-xs text-gray-400">Ownership costs {formatCurrency(result.ownershipCosts.lifetime)}</div>
+                      </>
+                    ),
+                    resultDifference('lifetimeOwnershipCost')
+                  )}
+                  {renderComparisonRow(
+                    `Present Value of Payments (${formatPercent(economics.discountRate)})`,
+                    (_, result) => formatCurrency(result.paymentsPresentValue),
+                    resultDifference('paymentsPresentValue')
+                  )}
+                  {renderCostRow('Balance at End of Term', 'balanceAtEndOfTerm')}
+                  {LOAN_TO_VALUE_THRESHOLDS.map((loanToValue, index) => (
+                    <React.Fragment key={loanToValue}>
+                      {renderComparisonRow(`Reaches ${loanToValue}% LTV`, (_, result) => {
+                        const crossing = result.equity.crossings[index];
+                        return (
+                          <>
+                            {describeCrossing(crossing)}
+                            {crossing.year !== null && crossing.year > 0 && <div className="text-xs text-gray-400">{crossing.date}</div>}
+                          </>
+                        );
+                      })}
+                    </React.Fragment>
+                  ))}
+                  {renderComparisonRow(
+                    'Years to Pay Off',
+                    (_, result) => (isRepaid(result) ? `${result.effectiveAmortization.toFixed(2)} years` : 'Not repaid'),
+                    resultDifference('timeShaved', value => `${value.toFixed(2)} years shaved`)
+                  )}
+                  {Array.from({ length: termCount }, (_, index) => (
+                    <React.Fragment key={index}>
+                      {renderComparisonRow(`Term ${index + 1}`, (_, result) => renderTermValue(result, index))}
+                    </React.Fragment>
+                  ))}
                 </tbody>
               </table>
             </div>
           </div>
-          
+
+          <GoalSeekPanel scenarios={scenarios} comparison={comparison} borrower={borrower} market={market} onApply={applySolvedValue} />
+
+          <RateSimulationPanel
+            scenarios={scenarios}
+            market={market}
+            inputs={monteCarlo}
+            onChange={setMonteCarlo}
+            simulation={rateSimulation}
+            onSimulate={setRateSimulation}
+          />
+
+          <PrepayVsInvestPanel scenarios={scenarios} market={market} inputs={prepayVsInvest} onChange={setPrepayVsInvest} />
+
+          <AmortizationScheduleTable
+            scenarios={comparison.scenarios}
+            selectedId={scheduleScenarioId}
+            onSelect={setScheduleScenarioId}
+            getColor={id => getScenarioColor(id).badge}
+            market={market}
+          />
+
+          <ClientReportPanel
+            scenarios={scenarios}
+            comparison={comparison}
+            colors={comparison.scenarios.map(scenario => getScenarioColor(scenario.id).stroke)}
+          />
+
           <div className="flex justify-center mt-4">
-            <button 
+            <button
               className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-md font-medium shadow-md transition"
               onClick={() => setActiveTab('input')}
             >
@@ -976,15 +1604,12 @@ const MortgageComparisonCalculator = () => {
           </div>
         </div>
       )}
-      
+
       <div className="mt-6 text-center p-3 bg-gray-50 rounded-lg">
-        <p className="text-sm text-gray-700">
-          This calculator provides estimates only and should not be considered financial advice.
-          Consult with a mortgage professional for personalized information.
-        </p>
+        <p className="text-sm text-gray-700">{REPORT_DISCLAIMER}</p>
       </div>
     </div>
   );
 };
 
-export default MortgageComparisonCalculator;
\ No newline at end of file
+export default MortgageComparisonCalculator;
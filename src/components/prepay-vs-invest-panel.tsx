@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import {
+  INVESTMENT_ACCOUNT_TYPES,
+  calculatePrepayVsInvest,
+  type MarketProfile,
+  type PrepayVsInvestInputs,
+  type Scenario
+} from '@/lib/mortgage';
+import { getFormatters } from '@/lib/format';
+
+interface PrepayVsInvestPanelProps {
+  scenarios: Scenario[];
+  market: MarketProfile;
+  inputs: PrepayVsInvestInputs;
+  onChange: (inputs: PrepayVsInvestInputs) => void;
+}
+
+const hasPrepayments = (scenario: Scenario) => {
+  const { extraPayment, paymentIncrease, annualPrepayment, lumpSums } = scenario.inputs;
+  return extraPayment > 0 || paymentIncrease > 0 || annualPrepayment > 0 || lumpSums.length > 0;
+};
+
+// Whether a scenario's prepayments beat investing the same cash at the client's expected return
+const PrepayVsInvestPanel = ({ scenarios, market, inputs, onChange }: PrepayVsInvestPanelProps) => {
+  const { formatCurrency, formatPercent } = getFormatters(market);
+  const [selectedId, setSelectedId] = useState('');
+  const selected = scenarios.find(scenario => scenario.id === selectedId) ?? scenarios.find(hasPrepayments) ?? scenarios[0];
+  if (!selected) return null;
+
+  const result = hasPrepayments(selected) ? calculatePrepayVsInvest(selected.inputs, inputs) : null;
+  const account = INVESTMENT_ACCOUNT_TYPES.find(type => type.value === inputs.accountType)?.label;
+
+  const renderPercentInput = (name: 'investmentReturn' | 'marginalTaxRate' | 'retirementTaxRate', label: string) => (
+    <div>
+      <label className="block text-sm font-medium mb-1 text-gray-700">{label}</label>
+      <div className="relative">
+        <input
+          type="number"
+          step="0.1"
+          className="w-full pl-3 pr-8 py-2 border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+          value={inputs[name]}
+          onChange={(e) => onChange({ ...inputs, [name]: Number(e.target.value) })}
+        />
+        <span className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-500">%</span>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white border rounded-lg p-4 shadow">
+      <h3 className="text-lg font-semibold mb-1 text-gray-800">Prepay vs Invest</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Sets the scenario&apos;s extra payments, payment increase, annual prepayment and lump sums against paying only the regular payment and
+        investing the same cash. Net worth is investments after tax less the mortgage balance; the home is the same either way.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 mb-4">
+        <div>
+          <label className="block text-sm font-medium mb-1 text-gray-700">Scenario</label>
+          <select
+            className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+            value={selected.id}
+            onChange={(e) => setSelectedId(e.target.value)}
+          >
+            {scenarios.map(scenario => (
+              <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1 text-gray-700">Account</label>
+          <select
+            className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+            value={inputs.accountType}
+            onChange={(e) => onChange({ ...inputs, accountType: e.target.value })}
+          >
+            {INVESTMENT_ACCOUNT_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+        </div>
+        {renderPercentInput('investmentReturn', 'Investment Return')}
+        {inputs.accountType !== 'tfsa' && renderPercentInput('marginalTaxRate', 'Marginal Tax Rate')}
+        {inputs.accountType === 'rrsp' && renderPercentInput('retirementTaxRate', 'Tax Rate on Withdrawal')}
+      </div>
+
+      {!result ? (
+        <p className="text-sm text-gray-500">
+          {selected.name} has no extra payments, payment increase, annual prepayment or lump sums to compare.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4 text-center">
+            <div>
+              <div className="text-xs text-gray-500 mb-1">Interest Saved by Prepaying</div>
+              <div className="text-lg font-semibold text-gray-800">{formatCurrency(result.interestSaved)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 mb-1">Break-Even Return ({account})</div>
+              <div className="text-lg font-semibold text-gray-800">
+                {result.breakEvenReturn === null ? '—' : formatPercent(result.breakEvenReturn)}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 mb-1">At {formatPercent(inputs.investmentReturn)}</div>
+              <div className={`text-lg font-semibold ${result.advantage > 0 ? 'text-green-700' : 'text-blue-800'}`}>
+                {result.advantage > 0 ? 'Investing' : 'Prepaying'} ahead by {formatCurrency(Math.abs(result.advantage))}
+              </div>
+            </div>
+          </div>
+
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={result.years} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="year" />
+                <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
+                <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                <Legend />
+                <Line type="monotone" dataKey="prepayNetWorth" name="Prepay" stroke="#2563eb" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="investNetWorth" name={`Invest (${account})`} stroke="#16a34a" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Prepaying comes out ahead whenever the investment earns less than the break-even return after fees.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PrepayVsInvestPanel;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { addMonths, todayISODate, type PrimeRateChange } from '@/lib/mortgage';
+
+interface PrimeRateChangesEditorProps {
+  changes: PrimeRateChange[];
+  primeRate: number;
+  primeSpread: number;
+  onChange: (changes: PrimeRateChange[]) => void;
+}
+
+// Dated list of expected prime rate moves for a variable-rate scenario
+const PrimeRateChangesEditor = ({ changes, primeRate, primeSpread, onChange }: PrimeRateChangesEditorProps) => {
+  const updateChange = (index: number, update: Partial<PrimeRateChange>) => {
+    onChange(changes.map((change, i) => (i === index ? { ...change, ...update } : change)));
+  };
+
+  // New changes default to six months after the previous one, at the same prime rate
+  const addChange = () => {
+    const previous = changes[changes.length - 1];
+    onChange([
+      ...changes,
+      {
+        date: addMonths(previous?.date ?? todayISODate(), 6),
+        primeRate: previous?.primeRate ?? primeRate
+      }
+    ]);
+  };
+
+  const removeChange = (index: number) => {
+    onChange(changes.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="mb-3">
+      <label className="block text-sm font-medium mb-1 text-gray-700">Prime Rate Changes</label>
+      {changes.map((change, index) => (
+        <div key={index} className="flex items-center gap-2 mb-2">
+          <input
+            type="date"
+            aria-label="Effective date"
+            className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500"
+            value={change.date}
+            onChange={(e) => updateChange(index, { date: e.target.value })}
+          />
+          <div className="relative w-24">
+            <span className="absolute inset-y-0 left-0 flex items-center pl-2 text-gray-500 text-sm">%</span>
+            <input
+              type="number"
+              step={0.05}
+              aria-label="Prime rate"
+              className="w-full pl-6 pr-2 py-1 border border-gray-300 rounded text-sm focus:ring-blue-500 focus:border-blue-500"
+              value={change.primeRate}
+              onChange={(e) => updateChange(index, { primeRate: Number(e.target.value) })}
+            />
+          </div>
+          <span className="w-20 text-xs text-gray-500">= {(change.primeRate + primeSpread).toFixed(2)}%</span>
+          <button
+            className="text-xs text-red-600 hover:underline"
+            onClick={() => removeChange(index)}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button
+        className="text-sm text-blue-700 hover:underline"
+        onClick={addChange}
+      >
+        + Add prime rate change
+      </button>
+    </div>
+  );
+};
+
+export default PrimeRateChangesEditor;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import {
+  getInitialTerm,
+  getMarket,
+  MAX_SIMULATIONS,
+  simulateRatesInChunks,
+  type MarketProfile,
+  type MonteCarloInputs,
+  type MonteCarloResult,
+  type PercentileBand,
+  type Scenario,
+  type ScenarioState
+} from '@/lib/mortgage';
+import { getFormatters } from '@/lib/format';
+
+// A finished run and the inputs it was made from, so the bands can be hidden once the scenario changes
+export interface RateSimulation {
+  scenarioId: string;
+  inputs: ScenarioState;
+  result: MonteCarloResult;
+}
+
+interface RateSimulationPanelProps {
+  scenarios: Scenario[];
+  market: MarketProfile;
+  inputs: MonteCarloInputs;
+  onChange: (inputs: MonteCarloInputs) => void;
+  simulation: RateSimulation | null;
+  onSimulate: (simulation: RateSimulation) => void;
+}
+
+const FIELDS: { name: keyof MonteCarloInputs; label: string; unit: '%' | ''; step: number }[] = [
+  { name: 'simulations', label: 'Simulations', unit: '', step: 100 },
+  { name: 'seed', label: 'Seed', unit: '', step: 1 },
+  { name: 'longRunRate', label: 'Long-Run Rate', unit: '%', step: 0.1 },
+  { name: 'reversionSpeed', label: 'Reversion Speed (per year)', unit: '', step: 0.05 },
+  { name: 'volatility', label: 'Volatility (per year)', unit: '%', step: 0.1 },
+  { name: 'drift', label: 'Drift (per year)', unit: '%', step: 0.05 }
+];
+
+// Spread of outcomes when a scenario's rate follows simulated paths at renewal, or monthly for variable rates
+const RateSimulationPanel = ({ scenarios, market, inputs, onChange, simulation, onSimulate }: RateSimulationPanelProps) => {
+  const { formatCurrency } = getFormatters(market);
+  const [selectedId, setSelectedId] = useState('');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+  const selected = scenarios.find(scenario => scenario.id === selectedId) ?? scenarios[0];
+  if (!selected) return null;
+
+  const isCurrent = simulation?.scenarioId === selected.id && simulation.inputs === selected.inputs;
+  const { rateType } = selected.inputs;
+  const startRate = rateType === 'variable'
+    ? selected.inputs.primeRate
+    : rateType === 'arm' ? selected.inputs.armIndex : selected.inputs.interestRate;
+
+  const handleChange = (name: keyof MonteCarloInputs, value: string) => {
+    const number = Number(value);
+    const limited = name === 'simulations' ? Math.min(Math.max(Math.round(number), 1), MAX_SIMULATIONS)
+      : name === 'seed' ? Math.round(number)
+        : number;
+    onChange({ ...inputs, [name]: limited });
+  };
+
+  // Paths are computed in chunks with a pause after each, so the page keeps responding during a long run
+  const runSimulation = async () => {
+    const { id, inputs: scenarioInputs } = selected;
+    setProgress(0);
+    setSimulationError(null);
+    try {
+      const result = await simulateRatesInChunks(scenarioInputs, inputs, {}, (completed, total) => setProgress(completed / total));
+      onSimulate({ scenarioId: id, inputs: scenarioInputs, result });
+    } catch (error) {
+      setSimulationError(`The simulation could not be run${error instanceof Error ? `: ${error.message}` : ''}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const renderBandRow = (label: string, band: PercentileBand) => (
+    <tr>
+      <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{label}</td>
+      {(['p10', 'p50', 'p90'] as const).map(key => (
+        <td key={key} className="px-3 py-2 whitespace-nowrap text-sm text-gray-500 text-right">{formatCurrency(band[key])}</td>
+      ))}
+    </tr>
+  );
+
+  const result = isCurrent ? simulation.result : null;
+  const termBalance = result?.balance[Math.max(getInitialTerm(selected.inputs), 1) - 1];
+
+  return (
+    <div className="bg-white border rounded-lg p-4 shadow">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <h3 className="text-lg font-semibold text-gray-800">Rate Simulation</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {simulationError && <span role="alert" className="text-xs text-red-600">{simulationError}</span>}
+          <button
+            className="px-3 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            onClick={runSimulation}
+            disabled={progress !== null}
+          >
+            {progress !== null ? `Running… ${Math.round(progress * 100)}%` : 'Run Simulation'}
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Rates start at {rateType === 'variable' ? 'prime' : rateType === 'arm' ? 'the ARM index' : 'the contract rate'} ({startRate}%) and drift back
+        toward the long-run rate each month with random shocks. {rateType === 'variable'
+          ? 'Prime follows each path monthly.'
+          : rateType === 'arm'
+            ? 'Each adjustment takes the simulated index plus the margin, within the caps.'
+            : getMarket(selected.inputs.market).fullLengthTerm
+              ? 'The rate is fixed for the whole amortization, so every path is the same.'
+              : 'The first term keeps its rate; each renewal takes the simulated rate at that date.'} The same seed always gives the same result.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-7 gap-3 mb-4">
+        <div>
+          <label className="block text-sm font-medium mb-1 text-gray-700">Scenario</label>
+          <select
+            className="w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+            value={selected.id}
+            onChange={(e) => setSelectedId(e.target.value)}
+          >
+            {scenarios.map(scenario => (
+              <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+            ))}
+          </select>
+        </div>
+        {FIELDS.map(field => (
+          <div key={field.name}>
+            <label className="block text-sm font-medium mb-1 text-gray-700">{field.label}</label>
+            <div className="relative">
+              <input
+                type="number"
+                step={field.step}
+                className="w-full pl-3 pr-8 py-2 border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500"
+                value={inputs[field.name]}
+                onChange={(e) => handleChange(field.name, e.target.value)}
+              />
+              {field.unit && <span className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-500">{field.unit}</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {!result ? (
+        <p className="text-sm text-gray-500">
+          {simulation?.scenarioId === selected.id ? 'The scenario has changed since the last run.' : 'No simulation run for this scenario yet.'}
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {result.simulations.toLocaleString()} Paths
+                  </th>
+                  <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">P10</th>
+                  <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">P50</th>
+                  <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">P90</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {renderBandRow('Total Interest', result.totalInterest)}
+                {renderBandRow('Peak Payment', result.peakPayment)}
+                {termBalance && renderBandRow(`Balance After Year ${termBalance.year}`, termBalance)}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            The shaded band on the balance chart spans P10 to P90, with the dashed line at P50. One path in ten ends below P10 and one in ten above P90.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RateSimulationPanel;
@@ -0,0 +1,182 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { calculateRefinance, type MarketProfile, type RefinanceInputs } from '@/lib/mortgage';
+import { getFormatters } from '@/lib/format';
+
+interface RefinanceViewProps {
+  inputs: RefinanceInputs;
+  market: MarketProfile;
+  onChange: (inputs: RefinanceInputs) => void;
+}
+
+type NumericRefinanceField = Exclude<keyof RefinanceInputs, 'financeCosts'>;
+
+// Only used to work out the lender's penalty for breaking the term
+const PENALTY_FIELDS: NumericRefinanceField[] = ['rateDiscount', 'comparisonRate'];
+
+// Schedules run in whole years, so an amortization is at least one
+const YEAR_FIELDS: NumericRefinanceField[] = ['remainingAmortization', 'newAmortization'];
+
+const EXISTING_FIELDS: { name: NumericRefinanceField; label: string; unit: '$' | '%' | 'years' | 'months' }[] = [
+  { name: 'balance', label: 'Current Balance', unit: '$' },
+  { name: 'currentRate', label: 'Current Rate', unit: '%' },
+  { name: 'remainingAmortization', label: 'Remaining Amortization', unit: 'years' },
+  { name: 'remainingTermMonths', label: 'Time Left in Term', unit: 'months' },
+  { name: 'rateDiscount', label: 'Discount Off Posted Rate', unit: '%' },
+  { name: 'comparisonRate', label: 'Posted Rate for Remaining Term', unit: '%' },
+  { name: 'renewalRate', label: 'Rate at Renewal', unit: '%' }
+];
+
+const NEW_FIELDS: { name: NumericRefinanceField; label: string; unit: '$' | '%' | 'years' | 'months' }[] = [
+  { name: 'newRate', label: 'New Rate', unit: '%' },
+  { name: 'newAmortization', label: 'New Amortization', unit: 'years' },
+  { name: 'legalFees', label: 'Legal Fees', unit: '$' },
+  { name: 'dischargeFee', label: 'Discharge Fee', unit: '$' },
+  { name: 'cashOut', label: 'Cash Out', unit: '$' }
+];
+
+const formatMonths = (months: number) => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  if (!years) return `${rest} month${rest === 1 ? '' : 's'}`;
+  return `${years} yr${years === 1 ? '' : 's'}${rest ? ` ${rest} mo` : ''}`;
+};
+
+// Keep an existing mortgage to renewal or break it now for a new rate, amortization or cash out
+const RefinanceView = ({ inputs, market, onChange }: RefinanceViewProps) => {
+  const { formatCurrency } = getFormatters(market);
+  const result = calculateRefinance(inputs, market.value);
+  const existingFields = market.prepaymentPenalties
+    ? EXISTING_FIELDS
+    : EXISTING_FIELDS.filter(field => !PENALTY_FIELDS.includes(field.name));
+
+  // Year-end points keep the chart light over a long amortization
+  const chartData = result.months
+    .filter(month => month.month % 12 === 0 || month.month === result.months.length - 1)
+    .map(month => ({ year: Number((month.month / 12).toFixed(1)), stay: month.stayCost, refinance: month.refinanceCost }));
+
+  const handleChange = (name: NumericRefinanceField, value: string) => {
+    const number = Math.max(Number(value), 0);
+    if (YEAR_FIELDS.includes(name)) {
+      onChange({ ...inputs, [name]: Math.max(Math.round(number), 1) });
+      return;
+    }
+    onChange({ ...inputs, [name]: name === 'remainingTermMonths' ? Math.round(number) : number });
+  };
+
+  const renderFields = (fields: typeof EXISTING_FIELDS) => fields.map(field => (
+    <div key={field.name}>
+      <label className="block text-sm font-medium mb-1 text-gray-700">{field.label}</label>
+      <div className="relative">
+        {field.unit === '$' && <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-500">$</span>}
+        <input
+          type="number"
+          min={field.unit === 'years' ? 1 : 0}
+          step={field.unit === '%' ? 0.05 : 1}
+          className={`w-full ${field.unit === '$' ? 'pl-8' : 'pl-3'} pr-16 py-2 border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500`}
+          value={inputs[field.name]}
+          onChange={(e) => handleChange(field.name, e.target.value)}
+        />
+        {field.unit !== '$' && (
+          <span className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-500">{field.unit}</span>
+        )}
+      </div>
+    </div>
+  ));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 rounded-lg p-4 shadow">
+        <h2 className="text-lg font-semibold mb-1 text-gray-800">Refinance</h2>
+        <p className="text-xs text-gray-500 mb-3">
+          Sets keeping the existing mortgage, renewing at the renewal rate when its term ends, against breaking it today.
+          {market.prepaymentPenalties
+            ? " The penalty is the greater of three months' interest and the interest rate differential."
+            : ' There is no penalty for paying the mortgage off early.'}
+          {' '}Both mortgages are paid monthly.
+        </p>
+        <h3 className="text-md font-medium mb-2 text-gray-800">Existing Mortgage</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 mb-4">{renderFields(existingFields)}</div>
+        <h3 className="text-md font-medium mb-2 text-gray-800">New Mortgage</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          {renderFields(NEW_FIELDS)}
+          <label className="flex items-center gap-2 text-sm text-gray-700 sm:mt-6">
+            <input
+              type="checkbox"
+              checked={inputs.financeCosts}
+              onChange={(e) => onChange({ ...inputs, financeCosts: e.target.checked })}
+            />
+            Add the {market.prepaymentPenalties ? 'penalty and fees' : 'fees'} to the new mortgage
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-white border rounded-lg p-4 shadow">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 text-center">
+          <div>
+            <div className="text-xs text-gray-500 mb-1">{market.prepaymentPenalties ? 'Penalty and Fees' : 'Fees'}</div>
+            <div className="text-lg font-semibold text-gray-800">{formatCurrency(result.costs)}</div>
+            <div className="text-xs text-gray-400">
+              {!market.prepaymentPenalties
+                ? 'No prepayment penalty'
+                : result.penalty.penalty === 0
+                  ? 'No penalty at the end of the term'
+                  : `Penalty ${formatCurrency(result.penalty.penalty)} (${result.penalty.method === 'interest_rate_differential' ? 'IRD' : "3 months' interest"})`}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 mb-1">Monthly Cash Flow</div>
+            <div className={`text-lg font-semibold ${result.monthlyCashFlowChange >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+              {result.monthlyCashFlowChange >= 0 ? '+' : '-'}{formatCurrency(Math.abs(result.monthlyCashFlowChange))}
+            </div>
+            <div className="text-xs text-gray-400">
+              {formatCurrency(result.currentPayment)} now, {formatCurrency(result.newPayment)} on {formatCurrency(result.newMortgage)}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 mb-1">Break-Even</div>
+            <div className="text-lg font-semibold text-gray-800">
+              {result.breakEvenMonth === null ? 'Never' : `Month ${result.breakEvenMonth}`}
+            </div>
+            {result.breakEvenMonth !== null && <div className="text-xs text-gray-400">{formatMonths(result.breakEvenMonth)}</div>}
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 mb-1">Lifetime Interest</div>
+            <div className={`text-lg font-semibold ${result.interestDifference <= 0 ? 'text-green-700' : 'text-red-700'}`}>
+              {formatCurrency(Math.abs(result.interestDifference))} {result.interestDifference <= 0 ? 'less' : 'more'}
+            </div>
+            <div className="text-xs text-gray-400">
+              {formatCurrency(result.refinanceInterest)} vs {formatCurrency(result.stayInterest)} staying
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white border rounded-lg p-4 shadow">
+        <h3 className="text-lg font-semibold mb-1 text-gray-800">Cost to Date</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          Payments made plus the balance still owing and any costs paid in cash, less cash taken out. Refinancing has broken even
+          once its line is at or below staying.
+        </p>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="year" />
+              <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
+              <Tooltip formatter={(value) => formatCurrency(Number(value))} labelFormatter={(year) => `Year ${year}`} />
+              <Legend />
+              {result.breakEvenMonth !== null && (
+                <ReferenceLine x={Math.ceil(result.breakEvenMonth / 12)} stroke="#9ca3af" strokeDasharray="3 3" label="Break-even" />
+              )}
+              <Line type="monotone" dataKey="stay" name="Keep Existing" stroke="#6b7280" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="refinance" name="Refinance" stroke="#2563eb" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RefinanceView;
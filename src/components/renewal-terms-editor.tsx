@@ -0,0 +1,102 @@
+import React from 'react';
+import { PAYMENT_FREQUENCIES, type RenewalTerm } from '@/lib/mortgage';
+
+interface RenewalTermsEditorProps {
+  renewals: RenewalTerm[];
+  initialTerm: number;
+  initialRate: number;
+  termLengths: { value: number; label: string }[];
+  onChange: (renewals: RenewalTerm[]) => void;
+}
+
+// Editable list of the terms that follow the initial term
+const RenewalTermsEditor = ({ renewals, initialTerm, initialRate, termLengths, onChange }: RenewalTermsEditorProps) => {
+  const updateRenewal = (index: number, changes: Partial<RenewalTerm>) => {
+    onChange(renewals.map((renewal, i) => (i === index ? { ...renewal, ...changes } : renewal)));
+  };
+
+  // New renewals start from the previous term's rate and keep its payment frequency
+  const addRenewal = () => {
+    const previousRate = renewals.length ? renewals[renewals.length - 1].interestRate : initialRate;
+    onChange([...renewals, { years: 5, interestRate: previousRate, paymentFrequency: '' }]);
+  };
+
+  const removeRenewal = (index: number) => {
+    onChange(renewals.filter((_, i) => i !== index));
+  };
+
+  let startYear = initialTerm + 1;
+
+  return (
+    <div className="pt-2 border-t border-gray-200">
+      <h3 className="text-md font-medium mb-2 text-gray-800">Renewal Terms</h3>
+      {renewals.length === 0 && (
+        <p className="text-xs text-gray-500 mb-2">
+          After the initial term the mortgage continues at the same rate and payment.
+        </p>
+      )}
+
+      {renewals.map((renewal, index) => {
+        const label = `Term ${index + 2} (from year ${startYear})`;
+        startYear += renewal.years;
+
+        return (
+          <div key={index} className="mb-3 p-2 bg-white bg-opacity-60 rounded border border-gray-200">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700">{label}</span>
+              <button
+                className="text-xs text-red-600 hover:underline"
+                onClick={() => removeRenewal(index)}
+              >
+                Remove
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <select
+                aria-label="Term length"
+                className="border border-gray-300 rounded px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500"
+                value={renewal.years}
+                onChange={(e) => updateRenewal(index, { years: Number(e.target.value) })}
+              >
+                {termLengths.map(term => (
+                  <option key={term.value} value={term.value}>{term.label}</option>
+                ))}
+              </select>
+              <div className="relative">
+                <span className="absolute inset-y-0 left-0 flex items-center pl-2 text-gray-500 text-sm">%</span>
+                <input
+                  type="number"
+                  step={0.01}
+                  aria-label="Interest rate"
+                  className="w-full pl-6 pr-2 py-1 border border-gray-300 rounded text-sm focus:ring-blue-500 focus:border-blue-500"
+                  value={renewal.interestRate === 0 ? '' : renewal.interestRate}
+                  onChange={(e) => updateRenewal(index, { interestRate: Number(e.target.value) })}
+                />
+              </div>
+              <select
+                aria-label="Payment frequency"
+                className="border border-gray-300 rounded px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500"
+                value={renewal.paymentFrequency}
+                onChange={(e) => updateRenewal(index, { paymentFrequency: e.target.value })}
+              >
+                <option value="">Same frequency</option>
+                {PAYMENT_FREQUENCIES.map(frequency => (
+                  <option key={frequency.value} value={frequency.value}>{frequency.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        className="text-sm text-blue-700 hover:underline"
+        onClick={addRenewal}
+      >
+        + Add renewal term
+      </button>
+    </div>
+  );
+};
+
+export default RenewalTermsEditor;
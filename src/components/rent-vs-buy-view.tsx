@@ -0,0 +1,145 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { calculateRentVsBuy, DEFAULT_SCENARIO_INPUTS, type Comparison, type MarketProfile, type RentVsBuyInputs, type Scenario } from '@/lib/mortgage';
+import { getFormatters } from '@/lib/format';
+
+interface RentVsBuyViewProps {
+  scenarios: Scenario[];
+  comparison: Comparison;
+  market: MarketProfile;
+  inputs: RentVsBuyInputs;
+  onChange: (inputs: RentVsBuyInputs) => void;
+  getColor: (id: string) => string;
+}
+
+const FIELDS: { name: keyof RentVsBuyInputs; label: string; unit: '$' | '%' | 'years' }[] = [
+  { name: 'monthlyRent', label: 'Monthly Rent', unit: '$' },
+  { name: 'rentInflation', label: 'Rent Increase per Year', unit: '%' },
+  { name: 'investmentReturn', label: 'Investment Return', unit: '%' },
+  { name: 'horizonYears', label: 'Horizon', unit: 'years' }
+];
+
+const RENTER_COLOR = '#6b7280';
+
+// Net worth of renting and investing against buying with each purchase scenario
+const RentVsBuyView = ({ scenarios, comparison, market, inputs, onChange, getColor }: RentVsBuyViewProps) => {
+  const { formatCurrency } = getFormatters(market);
+  const results = comparison.scenarios.map(scenario => {
+    const scenarioInputs = scenarios.find(item => item.id === scenario.id)?.inputs ?? DEFAULT_SCENARIO_INPUTS;
+    return { ...scenario, rentVsBuy: calculateRentVsBuy(scenarioInputs, scenario.result, inputs) };
+  });
+
+  // Each purchase scenario has its own renter, who invests that scenario's upfront cash
+  const chartData = Array.from({ length: inputs.horizonYears + 1 }, (_, year) => {
+    const dataPoint: Record<string, number> = { year };
+    results.forEach(({ id, rentVsBuy }) => {
+      dataPoint[id] = rentVsBuy.years[year]?.buyerNetWorth ?? 0;
+      dataPoint[`${id}-rent`] = rentVsBuy.years[year]?.renterNetWorth ?? 0;
+    });
+    return dataPoint;
+  });
+
+  const handleChange = (name: keyof RentVsBuyInputs, value: string) => {
+    const number = Number(value);
+    onChange({ ...inputs, [name]: name === 'horizonYears' ? Math.min(Math.max(Math.round(number), 1), 50) : number });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 rounded-lg p-4 shadow">
+        <h2 className="text-lg font-semibold mb-1 text-gray-800">Rent vs Buy</h2>
+        <p className="text-xs text-gray-500 mb-3">
+          The renter invests the buyer&apos;s down payment and closing costs. Each year, whichever path costs less invests the
+          difference. Buying costs are the mortgage payments from each scenario plus its property tax, condo fees, home insurance and
+          maintenance, and the home grows in value at the scenario&apos;s appreciation rate.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          {FIELDS.map(field => (
+            <div key={field.name}>
+              <label className="block text-sm font-medium mb-1 text-gray-700">{field.label}</label>
+              <div className="relative">
+                {field.unit === '$' && <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-500">$</span>}
+                <input
+                  type="number"
+                  step={field.unit === '%' ? 0.1 : 1}
+                  className={`w-full ${field.unit === '$' ? 'pl-8' : 'pl-3'} pr-12 py-2 border border-gray-300 rounded focus:ring-blue-500 focus:border-blue-500`}
+                  value={inputs[field.name]}
+                  onChange={(e) => handleChange(field.name, e.target.value)}
+                />
+                {field.unit !== '$' && (
+                  <span className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-500">{field.unit}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white border rounded-lg p-4 shadow">
+        <h3 className="text-lg font-semibold mb-4 text-gray-800">Net Worth Over Time</h3>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="year" />
+              <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
+              <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+              <Legend />
+              {results.map(({ id, name }) => (
+                <React.Fragment key={id}>
+                  <Line type="monotone" dataKey={id} name={`Buy: ${name}`} stroke={getColor(id)} strokeWidth={2} dot={false} />
+                  <Line
+                    type="monotone"
+                    dataKey={`${id}-rent`}
+                    name={results.length > 1 ? `Rent (vs ${name})` : 'Rent'}
+                    stroke={results.length > 1 ? getColor(id) : RENTER_COLOR}
+                    strokeDasharray="5 5"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </React.Fragment>
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white border rounded-lg p-4 shadow overflow-x-auto">
+        <h3 className="text-lg font-semibold mb-4 text-gray-800">Break-Even</h3>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scenario</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Buying Breaks Even</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Buyer Net Worth</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Renter Net Worth</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Buying Ahead By</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {results.map(({ id, name, rentVsBuy }) => {
+              const end = rentVsBuy.years[rentVsBuy.years.length - 1];
+              const advantage = end.buyerNetWorth - end.renterNetWorth;
+              return (
+                <tr key={id}>
+                  <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{name}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                    {rentVsBuy.breakEvenYear === null ? `Not within ${inputs.horizonYears} years` : `Year ${rentVsBuy.breakEvenYear}`}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500 text-right">{formatCurrency(end.buyerNetWorth)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500 text-right">{formatCurrency(end.renterNetWorth)}</td>
+                  <td className={`px-3 py-2 whitespace-nowrap text-sm text-right ${advantage >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(advantage)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 mt-2">Net worth after {inputs.horizonYears} years; home values exclude selling costs.</p>
+      </div>
+    </div>
+  );
+};
+
+export default RentVsBuyView;
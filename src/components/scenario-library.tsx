@@ -0,0 +1,225 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Scenario, ScenarioState } from '@/lib/mortgage';
+import type { SharedState } from '@/lib/share';
+import { downloadFile } from '@/lib/export/download';
+import {
+  createSavedComparison,
+  createScenarioPreset,
+  getLibraryTags,
+  loadLibrary,
+  mergeLibraryEntries,
+  parseLibrary,
+  parseTags,
+  removeLibraryEntry,
+  renameLibraryEntry,
+  saveLibrary,
+  serializeLibrary,
+  setLibraryEntryTags,
+  type LibraryEntry,
+  type StoredLibrary
+} from '@/lib/library';
+
+interface ScenarioLibraryProps {
+  scenarios: Scenario[];
+  canAddScenario: boolean;
+  getCurrentState: () => SharedState;
+  onLoadPreset: (name: string, inputs: ScenarioState) => void;
+  onLoadComparison: (state: SharedState) => void;
+}
+
+const INPUT_CLASS = 'w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500';
+const BUTTON_CLASS = 'px-3 py-1 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50';
+
+// Named scenario presets and whole comparisons kept in this browser, with JSON import/export
+const ScenarioLibrary = ({ scenarios, canAddScenario, getCurrentState, onLoadPreset, onLoadComparison }: ScenarioLibraryProps) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [presetScenarioId, setPresetScenarioId] = useState('');
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+  const [messages, setMessages] = useState<string[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const stored = useRef<StoredLibrary | null>(null);
+
+  // Storage is only available in the browser, so the library is read after the first render
+  useEffect(() => {
+    const library = loadLibrary(window.localStorage);
+    stored.current = library;
+    setEntries(library.entries);
+    if (library.errors.length > 0) {
+      setMessages([
+        library.canSave
+          ? 'Some saved entries could not be read. They are kept in this browser but not shown.'
+          : 'The saved library could not be read and is left as it is. Changes here will not be saved.',
+        ...library.errors
+      ]);
+    }
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded || !stored.current?.canSave) return;
+    if (!saveLibrary(window.localStorage, entries, stored.current.rejected)) {
+      setMessages(['The library could not be saved in this browser. Export it to keep a copy.']);
+    }
+  }, [entries, isLoaded]);
+
+  const presetScenario = scenarios.find(scenario => scenario.id === presetScenarioId) ?? scenarios[0];
+
+  const saveComparison = () => {
+    setEntries(prev => [...prev, createSavedComparison(name || 'Saved comparison', getCurrentState(), parseTags(tags))]);
+    setName('');
+    setMessages([]);
+  };
+
+  const savePreset = () => {
+    if (!presetScenario) return;
+    setEntries(prev => [...prev, createScenarioPreset(name || presetScenario.name, { ...presetScenario.inputs }, parseTags(tags))]);
+    setName('');
+    setMessages([]);
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    setEntries(prev => setLibraryEntryTags(renameLibraryEntry(prev, editing.id, editing.name), editing.id, parseTags(editing.tags)));
+    setEditing(null);
+  };
+
+  const loadEntry = (entry: LibraryEntry) => {
+    if (entry.kind === 'scenario') {
+      onLoadPreset(entry.name, entry.inputs);
+    } else {
+      onLoadComparison(entry.state);
+    }
+  };
+
+  const exportLibrary = () => {
+    downloadFile(serializeLibrary(entries), 'mortgage-scenario-library.json', 'application/json');
+  };
+
+  const importLibrary = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const imported = parseLibrary(await file.text());
+    setEntries(prev => mergeLibraryEntries(prev, imported.entries));
+    setMessages([
+      `Imported ${imported.entries.length} ${imported.entries.length === 1 ? 'entry' : 'entries'} from ${file.name}.`,
+      ...imported.errors
+    ]);
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleEntries = entries.filter(entry => (
+    (!tagFilter || entry.tags.includes(tagFilter)) &&
+    (!query || entry.name.toLowerCase().includes(query) || entry.tags.some(tag => tag.toLowerCase().includes(query)))
+  ));
+  const allTags = getLibraryTags(entries);
+
+  return (
+    <div className="md:col-span-2 p-4 bg-gray-50 rounded-lg shadow">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 className="text-lg font-semibold text-gray-800">Scenario Library</h2>
+        <div className="flex flex-wrap gap-2">
+          <button className={BUTTON_CLASS} onClick={exportLibrary} disabled={entries.length === 0}>Export JSON</button>
+          <button className={BUTTON_CLASS} onClick={() => fileInput.current?.click()}>Import JSON</button>
+          <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={importLibrary} />
+        </div>
+      </div>
+
+      {/* Save */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 items-end mb-4">
+        <div>
+          <label className="block text-sm font-medium mb-1 text-gray-700">Name</label>
+          <input className={INPUT_CLASS} value={name} placeholder="e.g. Lender A — 5 yr fixed" onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1 text-gray-700">Tags</label>
+          <input className={INPUT_CLASS} value={tags} placeholder="Comma separated" onChange={(e) => setTags(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1 text-gray-700">Scenario to save as a preset</label>
+          <select className={INPUT_CLASS} value={presetScenario?.id ?? ''} onChange={(e) => setPresetScenarioId(e.target.value)}>
+            {scenarios.map(scenario => (
+              <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button className={BUTTON_CLASS} onClick={savePreset}>Save Preset</button>
+          <button className={BUTTON_CLASS} onClick={saveComparison}>Save Comparison</button>
+        </div>
+      </div>
+
+      {messages.length > 0 && (
+        <div className="mb-3 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800">
+          {messages.map(message => <div key={message}>{message}</div>)}
+        </div>
+      )}
+
+      {/* Saved entries */}
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing saved yet. Saved presets and comparisons stay in this browser.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-3">
+            <input className={`${INPUT_CLASS} sm:w-64`} value={search} placeholder="Search names and tags" onChange={(e) => setSearch(e.target.value)} />
+            <select className={`${INPUT_CLASS} sm:w-48`} value={tagFilter} onChange={(e) => setTagFilter(e.target.value)}>
+              <option value="">All tags</option>
+              {allTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+          </div>
+          <ul className="divide-y divide-gray-200 bg-white border rounded">
+            {visibleEntries.map(entry => (
+              <li key={entry.id} className="p-3 flex flex-wrap items-center justify-between gap-2">
+                {editing?.id === entry.id ? (
+                  <div className="flex flex-wrap gap-2 flex-1">
+                    <input className={`${INPUT_CLASS} sm:w-56`} value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} />
+                    <input className={`${INPUT_CLASS} sm:w-56`} value={editing.tags} onChange={(e) => setEditing({ ...editing, tags: e.target.value })} />
+                    <button className={BUTTON_CLASS} onClick={saveEdit}>Save</button>
+                    <button className={BUTTON_CLASS} onClick={() => setEditing(null)}>Cancel</button>
+                  </div>
+                ) : (
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {entry.name}
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        {entry.kind === 'scenario' ? 'Preset' : `Comparison of ${entry.state.scenarios.length}`} · {entry.savedAt.slice(0, 10)}
+                      </span>
+                    </div>
+                    {entry.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {entry.tags.map(tag => <span key={tag} className="px-2 py-0.5 text-xs rounded bg-blue-50 text-blue-700">{tag}</span>)}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {editing?.id !== entry.id && (
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      className={BUTTON_CLASS}
+                      onClick={() => loadEntry(entry)}
+                      disabled={entry.kind === 'scenario' && !canAddScenario}
+                      title={entry.kind === 'scenario' ? 'Add as a new scenario' : 'Replace the current comparison'}
+                    >
+                      Load
+                    </button>
+                    <button className={BUTTON_CLASS} onClick={() => setEditing({ id: entry.id, name: entry.name, tags: entry.tags.join(', ') })}>Edit</button>
+                    <button className={`${BUTTON_CLASS} text-red-600`} onClick={() => setEntries(prev => removeLibraryEntry(prev, entry.id))}>Delete</button>
+                  </div>
+                )}
+              </li>
+            ))}
+            {visibleEntries.length === 0 && <li className="p-3 text-sm text-gray-500">No saved entries match.</li>}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioLibrary;
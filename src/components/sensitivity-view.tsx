@@ -0,0 +1,252 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import {
+  SENSITIVITY_METRICS,
+  calculateSensitivityGridInChunks,
+  calculateTornado,
+  getDefaultSensitivityRange,
+  getSensitivityVariable,
+  getSensitivityVariables,
+  type MarketProfile,
+  type NumericScenarioField,
+  type Scenario,
+  type SensitivityGrid,
+  type SensitivityMetric,
+  type SensitivityRange
+} from '@/lib/mortgage';
+import { getFormatters } from '@/lib/format';
+
+interface SensitivityViewProps {
+  scenarios: Scenario[];
+  market: MarketProfile;
+}
+
+const SELECT_CLASS = 'w-full border border-gray-300 rounded px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Pause after the last change before the grid is recalculated, so typing a range does not start a run per keystroke
+const GRID_DELAY_MS = 300;
+
+// Green for the lowest value of the grid through red for the highest; lower is better for every metric
+const getHeatColor = (value: number, min: number, max: number) => {
+  const share = max > min ? (value - min) / (max - min) : 0;
+  return `hsl(${Math.round(120 * (1 - share))}, 70%, 85%)`;
+};
+
+// Two-input heatmap and a one-input tornado chart for a single scenario
+const SensitivityView = ({ scenarios, market }: SensitivityViewProps) => {
+  const { formatCurrency } = getFormatters(market);
+  const formatMetric = (metric: SensitivityMetric, value: number) => {
+    return metric === 'effectiveAmortization' ? `${value.toFixed(1)} yrs` : formatCurrency(value);
+  };
+  const formatInput = (field: NumericScenarioField, value: number) => {
+    const { unit } = getSensitivityVariable(field);
+    if (unit === '$') return formatCurrency(value).replace(/\.00$/, '');
+    return unit === '%' ? `${value}%` : `${value} yrs`;
+  };
+
+  const [scenarioId, setScenarioId] = useState(scenarios[0]?.id ?? '');
+  const scenario = (scenarios.find(item => item.id === scenarioId) ?? scenarios[0]).inputs;
+  const variables = useMemo(() => getSensitivityVariables(scenario), [scenario]);
+  const getVariable = (field: NumericScenarioField) => variables.find(variable => variable.field === field) ?? variables[0];
+
+  const [metric, setMetric] = useState<SensitivityMetric>('monthlyPayment');
+  const [rows, setRows] = useState<SensitivityRange>(() => getDefaultSensitivityRange(scenario, variables[0]));
+  const [columns, setColumns] = useState<SensitivityRange>(
+    () => getDefaultSensitivityRange(scenario, getVariable('amortizationPeriod'))
+  );
+
+  // Switching to a variable-rate scenario swaps the contract rate for prime
+  const rowRange = useMemo(
+    () => (variables.some(variable => variable.field === rows.field) ? rows : getDefaultSensitivityRange(scenario, variables[0])),
+    [scenario, variables, rows]
+  );
+  const columnRange = useMemo(
+    () => (variables.some(variable => variable.field === columns.field) ? columns : getDefaultSensitivityRange(scenario, variables[0])),
+    [scenario, variables, columns]
+  );
+
+  // The grid is computed in chunks once the inputs settle, and a change while it runs abandons that run.
+  // The last grid stays on screen with the metric it was computed for until the next one is ready
+  const [grid, setGrid] = useState<SensitivityGrid | null>(null);
+  const [gridMetric, setGridMetric] = useState(metric);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [gridError, setGridError] = useState<string | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setProgress(0);
+      setGridError(null);
+      calculateSensitivityGridInChunks(scenario, rowRange, columnRange, metric, {}, (completed, total) => {
+        setProgress(completed / total);
+      }, controller.signal)
+        .then(result => {
+          setGrid(result);
+          setGridMetric(metric);
+          setProgress(null);
+        })
+        .catch(error => {
+          if (controller.signal.aborted) return;
+          setGridError(`The grid could not be calculated${error instanceof Error ? `: ${error.message}` : ''}`);
+          setProgress(null);
+        });
+    }, GRID_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [scenario, rowRange, columnRange, metric]);
+
+  const tornado = useMemo(() => calculateTornado(scenario, variables, metric), [scenario, variables, metric]);
+
+  const allValues = grid?.values.flat() ?? [];
+  const minValue = Math.min(...allValues);
+  const maxValue = Math.max(...allValues);
+
+  const tornadoData = tornado.bars.map(bar => ({
+    label: bar.label,
+    low: bar.low - tornado.base,
+    high: bar.high - tornado.base,
+    lowInput: formatInput(bar.field, bar.lowInput),
+    highInput: formatInput(bar.field, bar.highInput)
+  }));
+
+  const renderRangeInputs = (label: string, range: SensitivityRange, onChange: (range: SensitivityRange) => void) => (
+    <div>
+      <label className="block text-sm font-medium mb-1 text-gray-700">{label}</label>
+      <select
+        className={`${SELECT_CLASS} mb-2`}
+        value={range.field}
+        onChange={(e) => onChange(getDefaultSensitivityRange(scenario, getVariable(e.target.value as NumericScenarioField)))}
+      >
+        {variables.map(variable => (
+          <option key={variable.field} value={variable.field}>{variable.label}</option>
+        ))}
+      </select>
+      <div className="grid grid-cols-3 gap-2">
+        {(['min', 'max', 'step'] as const).map(key => (
+          <div key={key}>
+            <span className="block text-xs text-gray-500 capitalize">{key}</span>
+            <input
+              type="number"
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500"
+              value={range[key]}
+              onChange={(e) => onChange({ ...range, [key]: Number(e.target.value) })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 rounded-lg p-4 shadow">
+        <h2 className="text-lg font-semibold mb-1 text-gray-800">Sensitivity</h2>
+        <p className="text-xs text-gray-500 mb-3">
+          Varies two inputs of one scenario while everything else stays as entered. The outlined cell is the scenario itself.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1 text-gray-700">Scenario</label>
+            <select className={`${SELECT_CLASS} mb-2`} value={scenarioId} onChange={(e) => setScenarioId(e.target.value)}>
+              {scenarios.map(item => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </select>
+            <label className="block text-sm font-medium mb-1 text-gray-700">Metric</label>
+            <select className={SELECT_CLASS} value={metric} onChange={(e) => setMetric(e.target.value as SensitivityMetric)}>
+              {SENSITIVITY_METRICS.map(item => (
+                <option key={item.value} value={item.value}>{item.label}</option>
+              ))}
+            </select>
+          </div>
+          {renderRangeInputs('Rows', rowRange, setRows)}
+          {renderRangeInputs('Columns', columnRange, setColumns)}
+        </div>
+      </div>
+
+      <div className="bg-white border rounded-lg p-4 shadow">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">
+            {SENSITIVITY_METRICS.find(item => item.value === metric)?.label} by {getSensitivityVariable(rowRange.field).label} and{' '}
+            {getSensitivityVariable(columnRange.field).label}
+          </h3>
+          {gridError
+            ? <span role="alert" className="text-xs text-red-600">{gridError}</span>
+            : progress !== null && <span className="text-xs text-gray-500">Calculating… {Math.round(progress * 100)}%</span>}
+        </div>
+        {!grid ? (
+          <p className="text-sm text-gray-500">Calculating the grid…</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead>
+                <tr>
+                  <th className="px-2 py-2 text-left text-gray-500"></th>
+                  {grid.columnValues.map(value => (
+                    <th key={value} className="px-2 py-2 text-right font-medium text-gray-600 whitespace-nowrap">
+                      {formatInput(grid.columnField, value)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {grid.rowValues.map((rowValue, rowIndex) => (
+                  <tr key={rowValue}>
+                    <th className="px-2 py-1 text-left font-medium text-gray-600 whitespace-nowrap">{formatInput(grid.rowField, rowValue)}</th>
+                    {grid.columnValues.map((columnValue, columnIndex) => {
+                      const value = grid.values[rowIndex][columnIndex];
+                      const isCurrent = rowValue === scenario[grid.rowField] && columnValue === scenario[grid.columnField];
+                      return (
+                        <td
+                          key={columnValue}
+                          className={`px-2 py-1 text-right whitespace-nowrap text-gray-800 ${isCurrent ? 'ring-2 ring-inset ring-blue-700 font-semibold' : ''}`}
+                          style={{ backgroundColor: getHeatColor(value, minValue, maxValue) }}
+                        >
+                          {formatMetric(gridMetric, value)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white border rounded-lg p-4 shadow">
+        <h3 className="text-lg font-semibold mb-1 text-gray-800">What Moves the Outcome Most</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          Change in {SENSITIVITY_METRICS.find(item => item.value === metric)?.label.toLowerCase()} from{' '}
+          {formatMetric(metric, tornado.base)} when each input moves down or up on its own.
+        </p>
+        <div style={{ height: Math.max(200, tornadoData.length * 44) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={tornadoData} layout="vertical" stackOffset="sign" margin={{ top: 5, right: 30, left: 40, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                tickFormatter={(value) => (metric === 'effectiveAmortization' ? `${value} yrs` : `$${(value / 1000).toFixed(0)}k`)}
+              />
+              <YAxis type="category" dataKey="label" width={120} />
+              <Tooltip
+                formatter={(value, name, item) => [
+                  `${Number(value) > 0 ? '+' : ''}${formatMetric(metric, Number(value))}`,
+                  name === 'low' ? `At ${item.payload.lowInput}` : `At ${item.payload.highInput}`
+                ]}
+              />
+              <Legend formatter={(value) => (value === 'low' ? 'Input lowered' : 'Input raised')} />
+              <ReferenceLine x={0} stroke="#374151" />
+              <Bar dataKey="low" stackId="swing" fill="#60a5fa" />
+              <Bar dataKey="high" stackId="swing" fill="#f97316" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SensitivityView;
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCENARIO_INPUTS, compareScenarios, type Scenario } from '@/lib/mortgage';
+import { buildClientReport, EMPTY_BROKER_DETAILS } from './client-report';
+import { clientReportToPdfBuffer, createClientReportPdf } from './client-report-pdf';
+
+const scenarios: Scenario[] = [
+  { id: 'a', name: 'Big Bank', inputs: DEFAULT_SCENARIO_INPUTS },
+  { id: 'b', name: 'Credit Union', inputs: { ...DEFAULT_SCENARIO_INPUTS, amortizationPeriod: 30, interestRate: 4.5 } }
+];
+const report = buildClientReport({
+  scenarios,
+  comparison: compareScenarios(scenarios, 'a', {}),
+  broker: { ...EMPTY_BROKER_DETAILS, name: 'Jordan Lee', company: 'Northern Mortgages', licence: 'M12345' },
+  date: new Date(2025, 2, 1)
+});
+
+describe('createClientReportPdf', () => {
+  it('paginates the report with the broker header on every page', () => {
+    const doc = createClientReportPdf(report);
+    const pageCount = doc.getNumberOfPages();
+    const text = new TextDecoder('latin1').decode(clientReportToPdfBuffer(report));
+
+    expect(text.startsWith('%PDF-')).toBe(true);
+    expect(pageCount).toBeGreaterThan(2);
+    expect(text.match(/\(Northern Mortgages\) Tj/g)).toHaveLength(pageCount);
+    expect(text).toContain(`(Page ${pageCount} of ${pageCount}) Tj`);
+    expect(text).toContain('(Licence M12345) Tj');
+    expect(text).toContain('(Amortization Schedule: Credit Union) Tj');
+  });
+});
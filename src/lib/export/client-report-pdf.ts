@@ -0,0 +1,252 @@
+import { jsPDF } from 'jspdf';
+import { getFormatters } from '@/lib/format';
+import type { ClientReport, ReportSeries, ReportTable } from './client-report';
+
+// US Letter in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const HEADER_BOTTOM = 96;
+const FOOTER_TOP = PAGE_HEIGHT - 36;
+
+const LINE_HEIGHT = 11;
+const CELL_PADDING = 4;
+const CHART_HEIGHT = 190;
+
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const RULE_COLOR = '#d1d5db';
+const ACCENT_COLOR = '#1e40af';
+
+// The document being written and the vertical position of the next block
+interface ReportWriter {
+  doc: jsPDF;
+  report: ClientReport;
+  y: number;
+}
+
+// Round a chart maximum up to 1, 2 or 5 times a power of ten
+const niceCeiling = (value: number) => {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 5, 10].find(multiple => multiple * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+// Broker name, company, licence and contact details, with the report date on the right
+const drawHeader = ({ doc, report }: ReportWriter) => {
+  const { broker, title, date } = report;
+  const contact = [broker.phone, broker.email].filter(Boolean).join('  |  ');
+  const details = [
+    broker.company && broker.name ? broker.name : '',
+    broker.licence ? `Licence ${broker.licence}` : '',
+    contact
+  ].filter(Boolean);
+
+  doc.setFont('helvetica', 'bold').setFontSize(11).setTextColor(TEXT_COLOR);
+  doc.text(broker.company || broker.name || title, MARGIN, MARGIN);
+  doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(MUTED_COLOR);
+  details.forEach((line, index) => doc.text(line, MARGIN, MARGIN + 12 + index * 10));
+  doc.text(date, PAGE_WIDTH - MARGIN, MARGIN, { align: 'right' });
+  doc.setDrawColor(ACCENT_COLOR).setLineWidth(1).line(MARGIN, HEADER_BOTTOM - 20, PAGE_WIDTH - MARGIN, HEADER_BOTTOM - 20);
+};
+
+// Start a new page when the next block would run into the footer
+const ensureSpace = (writer: ReportWriter, height: number) => {
+  if (writer.y + height <= FOOTER_TOP) return;
+  writer.doc.addPage();
+  drawHeader(writer);
+  writer.y = HEADER_BOTTOM;
+};
+
+const drawHeading = (writer: ReportWriter, text: string) => {
+  const { doc } = writer;
+  ensureSpace(writer, 60);
+  writer.y += 10;
+  doc.setFont('helvetica', 'bold').setFontSize(13).setTextColor(TEXT_COLOR);
+  doc.text(text, MARGIN, writer.y);
+  writer.y += 8;
+  doc.setDrawColor(RULE_COLOR).setLineWidth(0.5).line(MARGIN, writer.y, PAGE_WIDTH - MARGIN, writer.y);
+  writer.y += 14;
+};
+
+const drawParagraph = (writer: ReportWriter, text: string, fontSize = 9, color = TEXT_COLOR) => {
+  const { doc } = writer;
+  doc.setFont('helvetica', 'normal').setFontSize(fontSize).setTextColor(color);
+  const lines: string[] = doc.splitTextToSize(text, CONTENT_WIDTH);
+  ensureSpace(writer, lines.length * (fontSize + 3));
+  doc.text(lines, MARGIN, writer.y);
+  writer.y += lines.length * (fontSize + 3) + 4;
+};
+
+// The first column holds labels; cells wrap, extra lines are muted and the header row repeats on every page
+const drawTable = (writer: ReportWriter, table: ReportTable, firstColumnWidth = 120) => {
+  const { doc } = writer;
+  const valueWidth = (CONTENT_WIDTH - firstColumnWidth) / Math.max(table.columns.length - 1, 1);
+  const widths = table.columns.map((_, index) => (index === 0 ? firstColumnWidth : valueWidth));
+
+  const layoutRow = (cells: string[]) => {
+    doc.setFont('helvetica', 'normal').setFontSize(8);
+    const lines = cells.map((cell, index) => cell.split('\n')
+      .flatMap(line => doc.splitTextToSize(line, widths[index] - 2 * CELL_PADDING) as string[]));
+    return { lines, height: Math.max(...lines.map(cellLines => cellLines.length)) * LINE_HEIGHT + 2 * CELL_PADDING };
+  };
+
+  const drawRow = (cells: string[], fill: string | null, isHeader = false) => {
+    const { lines, height } = layoutRow(cells);
+    if (fill) doc.setFillColor(fill).rect(MARGIN, writer.y, CONTENT_WIDTH, height, 'F');
+
+    let x = MARGIN;
+    lines.forEach((cellLines, index) => {
+      doc.setFont('helvetica', isHeader || index === 0 ? 'bold' : 'normal');
+      cellLines.forEach((line, lineIndex) => {
+        doc.setTextColor(lineIndex > 0 && !isHeader ? MUTED_COLOR : TEXT_COLOR);
+        doc.text(line, x + CELL_PADDING, writer.y + CELL_PADDING + (lineIndex + 1) * LINE_HEIGHT - 3);
+      });
+      x += widths[index];
+    });
+    writer.y += height;
+  };
+
+  ensureSpace(writer, layoutRow(table.columns).height + 2 * LINE_HEIGHT);
+  drawRow(table.columns, '#e5e7eb', true);
+
+  table.rows.forEach((row, index) => {
+    if (writer.y + layoutRow(row).height > FOOTER_TOP) {
+      ensureSpace(writer, FOOTER_TOP);
+      drawRow(table.columns, '#e5e7eb', true);
+    }
+    drawRow(row, index % 2 === 1 ? '#f3f4f6' : null);
+  });
+  writer.y += 12;
+};
+
+const drawLegend = ({ doc }: ReportWriter, series: ReportSeries[], y: number) => {
+  let x = MARGIN;
+  doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(TEXT_COLOR);
+  series.forEach(item => {
+    doc.setFillColor(item.color).rect(x, y - 6, 8, 8, 'F');
+    doc.text(item.name, x + 12, y + 1);
+    x += 24 + doc.getTextWidth(item.name);
+  });
+};
+
+// Gridlines and $k axis labels shared by both charts; returns the plot area
+const drawChartFrame = (writer: ReportWriter, maxValue: number) => {
+  const { doc } = writer;
+  ensureSpace(writer, CHART_HEIGHT + 30);
+  const plot = { left: MARGIN + 50, right: PAGE_WIDTH - MARGIN, top: writer.y, bottom: writer.y + CHART_HEIGHT - 20, maxValue: niceCeiling(maxValue) };
+
+  doc.setFont('helvetica', 'normal').setFontSize(7).setTextColor(MUTED_COLOR);
+  for (let step = 0; step <= 4; step++) {
+    const y = plot.bottom - ((plot.bottom - plot.top) * step) / 4;
+    doc.setDrawColor(RULE_COLOR).setLineWidth(0.3).setLineDashPattern(step === 0 ? [] : [2, 2], 0);
+    doc.line(plot.left, y, plot.right, y);
+    doc.text(`$${((plot.maxValue * step) / 4 / 1000).toFixed(0)}k`, plot.left - 4, y + 2, { align: 'right' });
+  }
+  doc.setLineDashPattern([], 0);
+
+  return plot;
+};
+
+const drawLineChart = (writer: ReportWriter, chart: ClientReport['balanceChart']) => {
+  const { doc } = writer;
+  const plot = drawChartFrame(writer, Math.max(1, ...chart.series.flatMap(item => item.values)));
+  const toX = (index: number) => plot.left + ((plot.right - plot.left) * index) / Math.max(chart.years.length - 1, 1);
+  const toY = (value: number) => plot.bottom - ((plot.bottom - plot.top) * value) / plot.maxValue;
+
+  // Label about ten years along the axis
+  const labelEvery = Math.max(1, Math.ceil(chart.years.length / 10));
+  chart.years.forEach((year, index) => {
+    if (index % labelEvery === 0) doc.text(String(year), toX(index), plot.bottom + 10, { align: 'center' });
+  });
+
+  chart.series.forEach(item => {
+    doc.setDrawColor(item.color).setLineWidth(1.5);
+    item.values.forEach((value, index) => {
+      if (index > 0) doc.line(toX(index - 1), toY(item.values[index - 1]), toX(index), toY(value));
+    });
+  });
+
+  drawLegend(writer, chart.series, plot.bottom + 26);
+  writer.y = plot.bottom + 40;
+};
+
+const drawBarChart = (writer: ReportWriter, chart: ClientReport['interestChart']) => {
+  const { doc } = writer;
+  const plot = drawChartFrame(writer, Math.max(1, ...chart.series.flatMap(item => item.values)));
+  const groupWidth = (plot.right - plot.left) / chart.categories.length;
+  const barWidth = (groupWidth * 0.8) / chart.series.length;
+
+  chart.categories.forEach((category, categoryIndex) => {
+    const groupLeft = plot.left + groupWidth * (categoryIndex + 0.1);
+    chart.series.forEach((item, seriesIndex) => {
+      const height = ((plot.bottom - plot.top) * item.values[categoryIndex]) / plot.maxValue;
+      doc.setFillColor(item.color).rect(groupLeft + barWidth * seriesIndex, plot.bottom - height, barWidth - 1, height, 'F');
+    });
+    doc.setFontSize(7).setTextColor(MUTED_COLOR).text(category, plot.left + groupWidth * (categoryIndex + 0.5), plot.bottom + 10, { align: 'center' });
+  });
+
+  drawLegend(writer, chart.series, plot.bottom + 26);
+  writer.y = plot.bottom + 40;
+};
+
+// Page numbers are added last, once the page count is known
+const drawFooters = ({ doc }: ReportWriter) => {
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal').setFontSize(7).setTextColor(MUTED_COLOR);
+    doc.text('Estimates only. Not financial advice.', MARGIN, PAGE_HEIGHT - 20);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 20, { align: 'right' });
+  }
+};
+
+// Lay out the report as a paginated PDF; everything is drawn in the browser, charts included, so no server is needed
+export const createClientReportPdf = (report: ClientReport) => {
+  const writer: ReportWriter = { doc: new jsPDF({ unit: 'pt', format: 'letter' }), report, y: HEADER_BOTTOM };
+  drawHeader(writer);
+
+  writer.doc.setFont('helvetica', 'bold').setFontSize(18).setTextColor(ACCENT_COLOR);
+  writer.doc.text(report.title, MARGIN, writer.y);
+  writer.y += 18;
+  if (report.preparedFor) drawParagraph(writer, `Prepared for ${report.preparedFor}`, 10, MUTED_COLOR);
+
+  drawHeading(writer, 'Scenario Inputs');
+  drawTable(writer, report.inputs);
+
+  drawHeading(writer, 'Comparison Summary');
+  if (report.bestScenario) {
+    drawParagraph(
+      writer,
+      `Better option: ${report.bestScenario.name}, with net lifetime savings of ${getFormatters(report.market).formatCurrency(report.bestScenario.savings)} `
+        + `compared with ${report.bestScenario.baselineName}.`,
+      10
+    );
+  }
+  drawTable(writer, report.summary);
+
+  drawHeading(writer, 'Mortgage Balance Over Time');
+  drawLineChart(writer, report.balanceChart);
+
+  drawHeading(writer, 'Interest Cost Comparison');
+  drawBarChart(writer, report.interestChart);
+
+  drawHeading(writer, 'Detailed Comparison');
+  drawTable(writer, report.details);
+
+  report.schedules.forEach(schedule => {
+    drawHeading(writer, `Amortization Schedule: ${schedule.name}`);
+    drawTable(writer, schedule.table, 60);
+  });
+
+  drawHeading(writer, 'Disclaimer');
+  drawParagraph(writer, report.disclaimer, 9, MUTED_COLOR);
+
+  drawFooters(writer);
+  return writer.doc;
+};
+
+export const clientReportToPdfBuffer = (report: ClientReport): ArrayBuffer => {
+  return createClientReportPdf(report).output('arraybuffer');
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCENARIO_INPUTS, compareScenarios, type Scenario } from '@/lib/mortgage';
+import { buildClientReport, EMPTY_BROKER_DETAILS, loadBrokerDetails, saveBrokerDetails } from './client-report';
+
+const scenarios: Scenario[] = [
+  { id: 'a', name: 'Big Bank', inputs: DEFAULT_SCENARIO_INPUTS },
+  { id: 'b', name: 'Credit Union', inputs: { ...DEFAULT_SCENARIO_INPUTS, interestRate: 4.5 } }
+];
+const comparison = compareScenarios(scenarios, 'a', {});
+const broker = { ...EMPTY_BROKER_DETAILS, name: 'Jordan Lee', company: 'Northern Mortgages' };
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    }
+  } as unknown as Storage;
+};
+
+describe('buildClientReport', () => {
+  const report = buildClientReport({ scenarios, comparison, broker, preparedFor: ' The Smiths ', date: new Date(2025, 2, 1) });
+
+  it('dates the report and names the client and the better option', () => {
+    expect(report.date).toBe('March 1, 2025');
+    expect(report.preparedFor).toBe('The Smiths');
+    expect(report.bestScenario).toEqual({
+      name: 'Credit Union',
+      savings: Math.abs(comparison.scenarios[1].differences.totalCost),
+      baselineName: 'Big Bank'
+    });
+  });
+
+  it('lays every table out with one column per scenario and marks the baseline', () => {
+    [report.inputs, report.summary, report.details].forEach(table => {
+      expect(table.columns.slice(1)).toEqual(['Big Bank (baseline)', 'Credit Union']);
+      table.rows.forEach(row => expect(row).toHaveLength(3));
+    });
+    expect(report.inputs.rows.find(row => row[0] === 'Interest Rate')?.slice(1)).toEqual(['5.50%', '4.50%']);
+  });
+
+  it('adds the difference from the baseline under non-baseline values', () => {
+    const monthlyPayment = report.details.rows.find(row => row[0] === 'Monthly Payment');
+
+    expect(monthlyPayment?.[1]).not.toContain('\n');
+    expect(monthlyPayment?.[2]).toMatch(/^\$[\d,.]+\n-\$[\d,.]+ vs baseline$/);
+  });
+
+  it('carries the chart series and the yearly schedule of each scenario', () => {
+    expect(report.balanceChart.years).toHaveLength(25);
+    expect(report.balanceChart.series.map(series => series.color)).toEqual(['#2563eb', '#16a34a']);
+    expect(report.interestChart.categories).toEqual(['Over Term', 'Lifetime', 'Total Cost']);
+    expect(report.interestChart.series.map(series => series.name)).toEqual(['Big Bank', 'Credit Union', 'Best Savings']);
+    expect(report.schedules.map(schedule => schedule.table.rows.length)).toEqual([25, 25]);
+    expect(report.schedules[0].table.rows[24][5]).toBe('$0.00');
+  });
+});
+
+describe('buildClientReport in the US market', () => {
+  it('drops the province and reports PMI in US dollars', () => {
+    const inputs = { ...DEFAULT_SCENARIO_INPUTS, market: 'US', compounding: 'monthly', downPayment: 40000 };
+    const usScenarios: Scenario[] = [{ id: 'a', name: 'Fixed 30', inputs }];
+    const report = buildClientReport({
+      scenarios: usScenarios,
+      comparison: compareScenarios(usScenarios, 'a', {}),
+      broker,
+      preparedFor: '',
+      date: new Date(2025, 2, 1)
+    });
+
+    expect(report.inputs.rows.some(row => row[0] === 'Province')).toBe(false);
+    expect(report.details.rows.find(row => row[0] === 'Mortgage Insurance (PMI)')?.[1]).toMatch(/^\$[\d,.]+ a month for \d+ months\n/);
+    expect(report.details.rows.some(row => row[0] === 'Insurance Premium')).toBe(false);
+  });
+});
+
+describe('broker details', () => {
+  it('round-trips through storage and ignores anything unexpected', () => {
+    const storage = memoryStorage();
+    expect(loadBrokerDetails(storage)).toEqual(EMPTY_BROKER_DETAILS);
+
+    saveBrokerDetails(storage, broker);
+    expect(loadBrokerDetails(storage)).toEqual(broker);
+
+    storage.setItem('mortgage-report-broker', '{"name": 7, "phone": "555-0100"');
+    expect(loadBrokerDetails(storage)).toEqual(EMPTY_BROKER_DETAILS);
+  });
+
+  it('reports a storage failure instead of throwing', () => {
+    const full = {
+      getItem: () => null,
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      }
+    } as unknown as Storage;
+
+    expect(saveBrokerDetails(full, broker)).toBe(false);
+    expect(saveBrokerDetails(memoryStorage(), broker)).toBe(true);
+  });
+});
@@ -0,0 +1,325 @@
+import {
+  DEFAULT_SCENARIO_INPUTS,
+  LOAN_TO_VALUE_THRESHOLDS,
+  getArmProduct,
+  getBalanceChartData,
+  getCompoundingConvention,
+  getContractRate,
+  getDownPaymentAmount,
+  getInitialTerm,
+  getInterestChartData,
+  getMarket,
+  getPaymentFrequency,
+  getProvince,
+  type Comparison,
+  type ComparisonDifferences,
+  type MarketProfile,
+  type MortgageResult,
+  type Scenario,
+  type ScenarioState
+} from '@/lib/mortgage';
+import { getFormatters } from '@/lib/format';
+
+export const REPORT_DISCLAIMER = 'This calculator provides estimates only and should not be considered financial advice. '
+  + 'Consult with a mortgage professional for personalized information.';
+
+// Contact block printed at the top of every report page
+export interface BrokerDetails {
+  name: string;
+  company: string;
+  licence: string;
+  phone: string;
+  email: string;
+}
+
+export const EMPTY_BROKER_DETAILS: BrokerDetails = { name: '', company: '', licence: '', phone: '', email: '' };
+
+// Cells may hold several lines separated by "\n"
+export interface ReportTable {
+  columns: string[];
+  rows: string[][];
+}
+
+export interface ReportSeries {
+  name: string;
+  color: string;
+  values: number[];
+}
+
+export interface ClientReport {
+  title: string;
+  market: MarketProfile; // sets the currency and number formats
+  preparedFor: string;
+  date: string;
+  broker: BrokerDetails;
+  inputs: ReportTable;
+  bestScenario: { name: string; savings: number; baselineName: string } | null;
+  summary: ReportTable;
+  balanceChart: { years: number[]; series: ReportSeries[] };
+  interestChart: { categories: string[]; series: ReportSeries[] };
+  details: ReportTable;
+  schedules: { name: string; table: ReportTable }[];
+  disclaimer: string;
+}
+
+export interface ClientReportOptions {
+  scenarios: Scenario[];
+  comparison: Comparison;
+  broker: BrokerDetails;
+  preparedFor?: string;
+  date?: Date;
+  colors?: string[]; // Chart colour of each scenario, in comparison order
+}
+
+const DEFAULT_COLORS = ['#2563eb', '#16a34a', '#9333ea', '#d97706'];
+const SAVINGS_COLOR = '#fb923c';
+
+const BROKER_STORAGE_KEY = 'mortgage-report-broker';
+
+export const loadBrokerDetails = (storage: Storage): BrokerDetails => {
+  try {
+    const saved: unknown = JSON.parse(storage.getItem(BROKER_STORAGE_KEY) ?? '{}');
+    const details = { ...EMPTY_BROKER_DETAILS };
+    if (typeof saved === 'object' && saved !== null) {
+      (Object.keys(details) as (keyof BrokerDetails)[]).forEach(key => {
+        const value = (saved as Record<string, unknown>)[key];
+        if (typeof value === 'string') details[key] = value;
+      });
+    }
+    return details;
+  } catch {
+    return { ...EMPTY_BROKER_DETAILS };
+  }
+};
+
+// Returns false when the browser refuses to store the details, e.g. in private browsing or when storage is full
+export const saveBrokerDetails = (storage: Storage, broker: BrokerDetails) => {
+  try {
+    storage.setItem(BROKER_STORAGE_KEY, JSON.stringify(broker));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isRepaid = (result: MortgageResult) => !result.amortizationSchedule.length
+  || result.amortizationSchedule[result.amortizationSchedule.length - 1].endingBalance === 0;
+
+const formatYears = (years: number) => `${years} year${years === 1 ? '' : 's'}`;
+
+// Text version of the results tab, laid out for a paginated client report
+export const buildClientReport = ({
+  scenarios,
+  comparison,
+  broker,
+  preparedFor = '',
+  date = new Date(),
+  colors = DEFAULT_COLORS
+}: ClientReportOptions): ClientReport => {
+  const getInputs = (id: string): ScenarioState => scenarios.find(scenario => scenario.id === id)?.inputs ?? DEFAULT_SCENARIO_INPUTS;
+  const market = getMarket(scenarios[0]?.inputs.market ?? DEFAULT_SCENARIO_INPUTS.market);
+  const { formatCurrency, formatPercent, formatDate } = getFormatters(market);
+  const formatSignedCurrency = (value: number) => `${value > 0 ? '+' : ''}${formatCurrency(value)}`;
+  const baseline = comparison.scenarios.find(scenario => scenario.id === comparison.baselineId);
+  const columns = (label: string) => [label, ...comparison.scenarios.map(scenario => (
+    scenario.id === comparison.baselineId ? `${scenario.name} (baseline)` : scenario.name
+  ))];
+
+  // One row per parameter, optionally followed by each scenario's difference from the baseline
+  const row = (
+    label: string,
+    getValue: (id: string, result: MortgageResult) => string,
+    getDifference?: (differences: ComparisonDifferences, id: string) => string
+  ) => [label, ...comparison.scenarios.map(scenario => {
+    const value = getValue(scenario.id, scenario.result);
+    return getDifference && scenario.id !== comparison.baselineId
+      ? `${value}\n${getDifference(scenario.differences, scenario.id)} vs baseline`
+      : value;
+  })];
+
+  const inputRow = (label: string, getValue: (inputs: ScenarioState) => string) => row(label, id => getValue(getInputs(id)));
+  const difference = (metric: keyof ComparisonDifferences) => (differences: ComparisonDifferences) => formatSignedCurrency(differences[metric]);
+
+  const inputs: ReportTable = {
+    columns: columns('Input'),
+    rows: [
+      inputRow('Purchase Price', values => formatCurrency(values.purchasePrice)),
+      inputRow('Down Payment', values => formatCurrency(getDownPaymentAmount(values))),
+      inputRow('Rate Type', values => (values.rateType === 'variable'
+        ? `Variable, prime ${formatPercent(values.primeRate)} ${values.primeSpread < 0 ? '-' : '+'} ${Math.abs(values.primeSpread).toFixed(2)}`
+        : values.rateType === 'arm'
+          ? `${getArmProduct(values.armProduct).label}, index ${formatPercent(values.armIndex)} + ${values.armMargin.toFixed(2)}\n`
+            + `Caps ${values.armInitialCap}/${values.armPeriodicCap}/${values.armLifetimeCap}`
+          : 'Fixed')),
+      inputRow('Interest Rate', values => formatPercent(getContractRate(values))),
+      inputRow('Compounding', values => getCompoundingConvention(market.compounding ?? values.compounding).label),
+      inputRow('Amortization', values => formatYears(values.amortizationPeriod)),
+      inputRow('Term', values => formatYears(getInitialTerm(values))),
+      inputRow('Payment Frequency', values => getPaymentFrequency(values.paymentFrequency).label),
+      row('Payment Dates', (_, result) => `First payment ${result.firstPaymentDate}\nMatures ${result.maturityDate}`),
+      inputRow('Extra Payment', values => formatCurrency(values.extraPayment)),
+      inputRow('Payment Increase', values => formatPercent(values.paymentIncrease)),
+      inputRow('Annual Prepayment', values => formatPercent(values.annualPrepayment)),
+      inputRow('Lump Sums', values => (values.lumpSums.length
+        ? values.lumpSums.map(lumpSum => `${formatCurrency(lumpSum.amount)} ${lumpSum.date ? `on ${lumpSum.date}` : `with payment ${lumpSum.paymentNumber}`}`).join('\n')
+        : 'None')),
+      inputRow('Prepayment Privileges', values => `${formatPercent(values.lumpSumLimit)} lump sum\n${formatPercent(values.paymentIncreaseLimit)} increase`),
+      inputRow('Renewals', values => (values.renewals.length
+        ? values.renewals.map(term => `${formatYears(term.years)} @ ${formatPercent(term.interestRate)}`).join('\n')
+        : 'None')),
+      ...(market.landTransferTax ? [inputRow('Province', values => getProvince(values.province).label)] : []),
+      inputRow('Appreciation', values => [
+        `${formatPercent(values.appreciationRate)} a year`,
+        ...values.homeValues.map(homeValue => `${formatCurrency(homeValue.value)} on ${homeValue.date}`)
+      ].join('\n'))
+    ]
+  };
+
+  // Lowest lifetime borrowing cost, as highlighted in the Comparison Summary
+  const best = comparison.scenarios.reduce<Comparison['scenarios'][number] | undefined>(
+    (current, scenario) => (!current || scenario.result.totalCost < current.result.totalCost ? scenario : current),
+    undefined
+  );
+  const hasQualification = comparison.scenarios.some(scenario => scenario.result.qualification !== null);
+
+  const summary: ReportTable = {
+    columns: columns('Summary'),
+    rows: [
+      row('Monthly Payment', (_, result) => formatCurrency(result.monthlyPayment)),
+      row('All-In Monthly Cost', (_, result) => formatCurrency(result.allInMonthlyCost)),
+      ...(hasQualification
+        ? [row(market.labels.qualification, (_, result) => (result.qualification
+          ? `${result.qualification.passes ? 'Pass' : 'Fail'}, max ${formatCurrency(result.qualification.maxMortgage)}`
+          : '-'))]
+        : []),
+      row('Interest (Term)', (_, result) => formatCurrency(result.totalInterestTerm)),
+      row('Interest (Lifetime)', (_, result) => formatCurrency(result.totalInterestLifetime)),
+      row('Ownership Cost (Lifetime)', (_, result) => formatCurrency(result.lifetimeOwnershipCost)),
+      row('Balance After Term', (_, result) => formatCurrency(result.balanceAtEndOfTerm)),
+      row('Effective Amortization', (_, result) => (isRepaid(result) ? `${result.effectiveAmortization.toFixed(1)} yrs` : 'Not repaid'))
+    ]
+  };
+
+  const termCount = comparison.scenarios.some(scenario => getInputs(scenario.id).renewals.length > 0)
+    ? Math.max(...comparison.scenarios.map(scenario => scenario.result.termSummaries.filter(term => !term.assumed).length))
+    : 0;
+
+  const details: ReportTable = {
+    columns: columns('Parameter'),
+    rows: [
+      inputRow('Purchase Price', values => formatCurrency(values.purchasePrice)),
+      inputRow('Down Payment', values => formatCurrency(getDownPaymentAmount(values))),
+      row('Closing Costs', (_, result) => [
+        formatCurrency(result.closingCosts.total),
+        ...(market.landTransferTax ? [`Land transfer tax ${formatCurrency(result.closingCosts.landTransferTax)}`] : []),
+        ...(result.closingCosts.points > 0 ? [`Points ${formatCurrency(result.closingCosts.points)}`] : [])
+      ].join('\n')),
+      ...(comparison.scenarios.some(scenario => scenario.result.interestAdjustment.amount > 0)
+        ? [row('Interest Adjustment', (_, result) => `${formatCurrency(result.interestAdjustment.amount)}\n${result.interestAdjustment.days} days to ${result.interestAdjustment.date}`)]
+        : []),
+      row('Total Cash Required', (_, result) => formatCurrency(result.cashRequired), difference('cashRequired')),
+      market.mortgageInsurance === 'pmi'
+        ? row('Mortgage Insurance (PMI)', (_, result) => (result.pmi
+          ? `${formatCurrency(result.pmi.monthlyPremium)} a month for ${result.pmi.months} months\n${formatCurrency(result.pmi.totalPaid)} in total`
+          : 'Not required'))
+        : row('Insurance Premium', (_, result) => (result.insurance.required
+          ? `${formatCurrency(result.insurance.premium)}\n${formatPercent(result.insurance.premiumRate)} at ${formatPercent(result.insurance.loanToValue)} LTV`
+          : 'Not required')),
+      row('Total Mortgage', (_, result) => formatCurrency(result.totalMortgage)),
+      row('Interest Rate', (id, result) => {
+        const rate = formatPercent(getContractRate(getInputs(id)));
+        const [adjustment] = result.rateAdjustments;
+        return adjustment ? `${rate}\nAdjusts to ${formatPercent(adjustment.interestRate)} from ${adjustment.date}` : rate;
+      }),
+      ...(comparison.scenarios.some(scenario => scenario.result.triggerRate !== null)
+        ? [row('Trigger Rate', (_, result) => (result.triggerRate === null ? '-' : formatPercent(result.triggerRate)))]
+        : []),
+      row('Monthly Payment', (_, result) => formatCurrency(result.monthlyPayment), difference('monthlyPayment')),
+      row('All-In Monthly Cost', (_, result) => formatCurrency(result.allInMonthlyCost), difference('allInMonthlyCost')),
+      ...(hasQualification
+        ? [
+          row('Qualifying Rate', (_, result) => (result.qualification ? formatPercent(result.qualification.stressTest.interestRate) : '-')),
+          row(`${market.labels.housingRatio} / ${market.labels.totalRatio} (qualifying)`, (_, result) => (result.qualification
+            ? `${formatPercent(result.qualification.stressTest.gds)} / ${formatPercent(result.qualification.stressTest.tds)}`
+            : '-'))
+        ]
+        : []),
+      row('Interest Over Term', (_, result) => formatCurrency(result.totalInterestTerm), difference('totalInterestTerm')),
+      row('Interest Over Lifetime', (_, result) => formatCurrency(result.totalInterestLifetime), difference('totalInterestLifetime')),
+      ...(comparison.scenarios.some(scenario => scenario.result.prepaymentPenalty !== null)
+        ? [row('Prepayment Penalty', (_, result) => (result.prepaymentPenalty ? formatCurrency(result.prepaymentPenalty.penalty) : '-'))]
+        : []),
+      row('Total Borrowing Cost', (_, result) => formatCurrency(result.totalCost), difference('totalCost')),
+      row('Lifetime Ownership Cost', (_, result) => formatCurrency(result.lifetimeOwnershipCost), difference('lifetimeOwnershipCost')),
+      row('Balance at End of Term', (_, result) => formatCurrency(result.balanceAtEndOfTerm), difference('balanceAtEndOfTerm')),
+      ...LOAN_TO_VALUE_THRESHOLDS.map((loanToValue, index) => row(`Reaches ${loanToValue}% LTV`, (_, result) => {
+        const { year, date } = result.equity.crossings[index];
+        if (year === null) return 'Not reached';
+        return year === 0 ? 'From the start' : `Year ${year}\n${date}`;
+      })),
+      row(
+        'Years to Pay Off',
+        (_, result) => (isRepaid(result) ? `${result.effectiveAmortization.toFixed(2)} years` : 'Not repaid'),
+        differences => `${differences.timeShaved.toFixed(2)} years shaved`
+      ),
+      ...Array.from({ length: termCount }, (_, index) => row(`Term ${index + 1}`, (_, result) => {
+        const term = result.termSummaries.filter(summary => !summary.assumed)[index];
+        return term
+          ? `Years ${term.startYear}-${term.endYear} @ ${formatPercent(term.interestRate)}\n${formatCurrency(term.paymentAmount)} payment\n${formatCurrency(term.endingBalance)} balance`
+          : '-';
+      }))
+    ]
+  };
+
+  const balanceData = getBalanceChartData(comparison);
+  const interestData = getInterestChartData(comparison);
+  const getColor = (index: number) => colors[index % colors.length];
+
+  return {
+    title: 'Mortgage Scenario Comparison',
+    market,
+    preparedFor: preparedFor.trim(),
+    date: formatDate(date),
+    broker,
+    inputs,
+    bestScenario: best && baseline
+      ? { name: best.name, savings: Math.abs(best.differences.totalCost), baselineName: baseline.name }
+      : null,
+    summary,
+    balanceChart: {
+      years: balanceData.map(point => point.year),
+      series: comparison.scenarios.map((scenario, index) => ({
+        name: scenario.name,
+        color: getColor(index),
+        values: balanceData.map(point => point[scenario.id])
+      }))
+    },
+    interestChart: {
+      categories: interestData.map(point => String(point.name)),
+      series: [
+        ...comparison.scenarios.map((scenario, index) => ({
+          name: scenario.name,
+          color: getColor(index),
+          values: interestData.map(point => Number(point[scenario.id]))
+        })),
+        { name: 'Best Savings', color: SAVINGS_COLOR, values: interestData.map(point => Number(point.savings)) }
+      ]
+    },
+    details,
+    schedules: comparison.scenarios.map(scenario => ({
+      name: scenario.name,
+      table: {
+        columns: ['Year', 'Payment', 'Interest', 'Principal', 'Extra', 'Balance'],
+        rows: scenario.result.amortizationSchedule.map(item => [
+          String(item.year),
+          formatCurrency(item.interestPaid + item.principalPaid),
+          formatCurrency(item.interestPaid),
+          formatCurrency(item.principalPaid - item.extraPayments),
+          formatCurrency(item.extraPayments),
+          formatCurrency(item.endingBalance)
+        ])
+      }
+    })),
+    disclaimer: REPORT_DISCLAIMER
+  };
+};
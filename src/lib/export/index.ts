@@ -0,0 +1,5 @@
+export * from './download';
+export * from './schedule-csv';
+export * from './schedule-workbook';
+export * from './client-report';
+export * from './client-report-pdf';
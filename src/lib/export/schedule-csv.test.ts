@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import type { AmortizationPayment } from '@/lib/mortgage';
+import { scheduleToCsv } from './schedule-csv';
+
+const payments: AmortizationPayment[] = [
+  { paymentNumber: 1, year: 1, date: '2025-02-15', payment: 599.5505, interest: 500, principal: 99.5505, extra: 0, balance: 99900.4495, interestRate: 6 },
+  { paymentNumber: 2, year: 1, date: '2025-03-15', payment: 699.5505, interest: 499.502, principal: 100.0485, extra: 100, balance: 99700.401, interestRate: 6 }
+];
+
+describe('scheduleToCsv', () => {
+  it('writes a header and one row per payment rounded to the cent', () => {
+    expect(scheduleToCsv(payments)).toBe(
+      'Payment #,Date,Payment,Interest,Principal,Extra,Balance,Rate (%)\r\n' +
+      '1,2025-02-15,599.55,500.00,99.55,0.00,99900.45,6\r\n' +
+      '2,2025-03-15,699.55,499.50,100.05,100.00,99700.40,6\r\n'
+    );
+  });
+});
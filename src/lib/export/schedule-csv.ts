@@ -0,0 +1,30 @@
+import type { AmortizationPayment } from '@/lib/mortgage';
+
+export const SCHEDULE_COLUMNS: { header: string; key: keyof AmortizationPayment; money: boolean }[] = [
+  { header: 'Payment #', key: 'paymentNumber', money: false },
+  { header: 'Date', key: 'date', money: false },
+  { header: 'Payment', key: 'payment', money: true },
+  { header: 'Interest', key: 'interest', money: true },
+  { header: 'Principal', key: 'principal', money: true },
+  { header: 'Extra', key: 'extra', money: true },
+  { header: 'Balance', key: 'balance', money: true },
+  { header: 'Rate (%)', key: 'interestRate', money: false }
+];
+
+// Quote a CSV field only when it contains a delimiter, quote or line break
+const escapeCsvField = (value: string) => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Build a CSV document of the per-payment schedule, with amounts rounded to the cent
+export const scheduleToCsv = (payments: AmortizationPayment[]) => {
+  const header = SCHEDULE_COLUMNS.map(column => escapeCsvField(column.header)).join(',');
+  const rows = payments.map(payment => SCHEDULE_COLUMNS
+    .map(column => {
+      const value = payment[column.key];
+      return escapeCsvField(column.money ? Number(value).toFixed(2) : String(value));
+    })
+    .join(','));
+
+  return [header, ...rows].join('\r\n') + '\r\n';
+};
@@ -0,0 +1,36 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import type { AmortizationPayment } from '@/lib/mortgage';
+import { scheduleWorkbookToBuffer, toSheetNames } from './schedule-workbook';
+
+const payments: AmortizationPayment[] = [
+  { paymentNumber: 1, year: 1, date: '2025-02-15', payment: 599.5505, interest: 500, principal: 99.5505, extra: 0, balance: 99900.4495, interestRate: 6 },
+  { paymentNumber: 2, year: 1, date: '2025-03-15', payment: 699.5505, interest: 499.502, principal: 100.0485, extra: 100, balance: 99700.401, interestRate: 6 }
+];
+
+describe('toSheetNames', () => {
+  it('strips forbidden characters, truncates and de-duplicates', () => {
+    expect(toSheetNames(['Lender A/B', 'lender a b', 'A very long scenario name that will not fit', ''])).toEqual([
+      'Lender A B',
+      'lender a b 2',
+      'A very long scenario name that',
+      'Scenario 4'
+    ]);
+  });
+});
+
+describe('scheduleWorkbookToBuffer', () => {
+  it('writes one sheet per scenario', async () => {
+    const buffer = await scheduleWorkbookToBuffer([
+      { name: 'Scenario A', payments },
+      { name: 'Scenario B', payments: payments.slice(0, 1) }
+    ]);
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer);
+
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual(['Scenario A', 'Scenario B']);
+    expect(workbook.getWorksheet('Scenario A')!.rowCount).toBe(3);
+    expect(workbook.getWorksheet('Scenario A')!.getRow(3).getCell(6).value).toBe(100);
+    expect(workbook.getWorksheet('Scenario B')!.getRow(2).getCell(2).value).toBe('2025-02-15');
+  });
+});
@@ -0,0 +1,53 @@
+import ExcelJS from 'exceljs';
+import type { AmortizationPayment } from '@/lib/mortgage';
+import { SCHEDULE_COLUMNS } from './schedule-csv';
+
+export interface ScheduleSheet {
+  name: string;
+  payments: AmortizationPayment[];
+}
+
+// Excel sheet names are limited to 31 characters, cannot contain []:*?/\ and must be unique
+export const toSheetNames = (names: string[]) => {
+  const used = new Set<string>();
+
+  return names.map((name, index) => {
+    const base = name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31).trim() || `Scenario ${index + 1}`;
+    let candidate = base;
+    for (let suffix = 2; used.has(candidate.toLowerCase()); suffix++) {
+      candidate = `${base.slice(0, 31 - String(suffix).length - 1)} ${suffix}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+// Build an Excel workbook with one schedule sheet per scenario
+export const createScheduleWorkbook = (sheets: ScheduleSheet[]) => {
+  const workbook = new ExcelJS.Workbook();
+  const sheetNames = toSheetNames(sheets.map(sheet => sheet.name));
+
+  sheets.forEach((sheet, index) => {
+    const worksheet = workbook.addWorksheet(sheetNames[index], { views: [{ state: 'frozen', ySplit: 1 }] });
+    worksheet.columns = SCHEDULE_COLUMNS.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: column.key === 'date' ? 12 : 14,
+      style: column.money ? { numFmt: '#,##0.00' } : {}
+    }));
+    worksheet.getRow(1).font = { bold: true };
+
+    sheet.payments.forEach(payment => {
+      worksheet.addRow(Object.fromEntries(SCHEDULE_COLUMNS.map(column => [
+        column.key,
+        column.money ? Math.round(Number(payment[column.key]) * 100) / 100 : payment[column.key]
+      ])));
+    });
+  });
+
+  return workbook;
+};
+
+export const scheduleWorkbookToBuffer = async (sheets: ScheduleSheet[]) => {
+  return createScheduleWorkbook(sheets).xlsx.writeBuffer();
+};
@@ -0,0 +1,28 @@
+import type { MarketProfile } from '@/lib/mortgage';
+
+export interface Formatters {
+  formatCurrency: (value: number) => string;
+  formatPercent: (value: number) => string;
+  formatDate: (date: Date) => string;
+}
+
+const formattersByMarket = new Map<string, Formatters>();
+
+// Display formatting in a market's locale and currency, shared by the calculator views and the client report
+// The number formats are built once per market
+export const getFormatters = (market: MarketProfile): Formatters => {
+  const cached = formattersByMarket.get(market.value);
+  if (cached) return cached;
+
+  const currency = new Intl.NumberFormat(market.locale, { style: 'currency', currency: market.currency });
+  const percent = new Intl.NumberFormat(market.locale, { style: 'percent', minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const date = new Intl.DateTimeFormat(market.locale, { year: 'numeric', month: 'long', day: 'numeric' });
+  const formatters: Formatters = {
+    formatCurrency: value => currency.format(value),
+    formatPercent: value => percent.format(value / 100),
+    formatDate: value => date.format(value)
+  };
+
+  formattersByMarket.set(market.value, formatters);
+  return formatters;
+};
@@ -0,0 +1,3 @@
+export * from './library';
+export * from './library-file';
+export * from './storage';
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BORROWER, DEFAULT_ECONOMICS, DEFAULT_MONTE_CARLO, DEFAULT_PREPAY_VS_INVEST, DEFAULT_REFINANCE, DEFAULT_RENT_VS_BUY, DEFAULT_SCENARIO_INPUTS } from '@/lib/mortgage';
+import { createSavedComparison, createScenarioPreset } from './library';
+import { LIBRARY_FILE_FORMAT, parseLibrary, serializeLibrary } from './library-file';
+
+const preset = createScenarioPreset('Credit union', { ...DEFAULT_SCENARIO_INPUTS, interestRate: 4.19 }, ['lender']);
+const comparison = createSavedComparison('Smith family', {
+  scenarios: [{ id: 'scenario-1', name: 'Fixed', inputs: DEFAULT_SCENARIO_INPUTS }],
+  baselineId: 'scenario-1',
+  activeTab: 'results',
+  borrower: DEFAULT_BORROWER,
+  rentVsBuy: { ...DEFAULT_RENT_VS_BUY, monthlyRent: 2900 },
+  economics: { discountRate: 6, inflationRate: 2 },
+  refinance: { ...DEFAULT_REFINANCE, newRate: 3.99 },
+  monteCarlo: { ...DEFAULT_MONTE_CARLO, seed: 77 },
+  prepayVsInvest: { ...DEFAULT_PREPAY_VS_INVEST, accountType: 'taxable', investmentReturn: 8 },
+  display: { scheduleScenarioId: 'scenario-1', showRealDollars: true }
+});
+
+const fileWith = (entries: unknown[], overrides: Record<string, unknown> = {}) => {
+  return JSON.stringify({ format: LIBRARY_FILE_FORMAT, version: 1, exportedAt: '2025-03-01T00:00:00.000Z', entries, ...overrides });
+};
+
+describe('library files', () => {
+  it('round-trips presets and comparisons', () => {
+    const text = serializeLibrary([preset, comparison], '2025-03-01T00:00:00.000Z');
+
+    expect(JSON.parse(text)).toMatchObject({ format: LIBRARY_FILE_FORMAT, version: 1, exportedAt: '2025-03-01T00:00:00.000Z' });
+    expect(parseLibrary(text)).toEqual({ entries: [preset, comparison], rejected: [], errors: [] });
+  });
+
+  it('fills inputs missing from older files with their defaults', () => {
+    const { inputs, ...rest } = preset;
+    const parsed = parseLibrary(fileWith([{ ...rest, inputs: { interestRate: inputs.interestRate } }]));
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.entries[0]).toEqual(preset);
+  });
+
+  it('fills comparison settings missing from older files with their defaults', () => {
+    const { rentVsBuy, economics, refinance, monteCarlo, prepayVsInvest, ...state } = comparison.state;
+    const parsed = parseLibrary(fileWith([{ ...comparison, state: { ...state, display: { scheduleScenarioId: 'scenario-1' } } }]));
+
+    expect(parsed.entries[0]).toEqual({
+      ...comparison,
+      state: {
+        ...comparison.state,
+        rentVsBuy: DEFAULT_RENT_VS_BUY,
+        economics: DEFAULT_ECONOMICS,
+        refinance: DEFAULT_REFINANCE,
+        monteCarlo: DEFAULT_MONTE_CARLO,
+        prepayVsInvest: DEFAULT_PREPAY_VS_INVEST,
+        display: { scheduleScenarioId: 'scenario-1', showRealDollars: false }
+      }
+    });
+    expect([rentVsBuy, economics, refinance, monteCarlo, prepayVsInvest])
+      .not.toEqual([DEFAULT_RENT_VS_BUY, DEFAULT_ECONOMICS, DEFAULT_REFINANCE, DEFAULT_MONTE_CARLO, DEFAULT_PREPAY_VS_INVEST]);
+  });
+
+  it('keeps valid entries and reports the ones that fail validation', () => {
+    const parsed = parseLibrary(fileWith([
+      preset,
+      { ...preset, id: 'bad-inputs', name: 'Broken', inputs: { interestRate: 'five' } },
+      { ...comparison, id: 'no-scenarios', state: { ...comparison.state, scenarios: [] } },
+      { ...preset, kind: 'folder' }
+    ]));
+
+    expect(parsed.entries).toEqual([preset]);
+    expect(parsed.rejected.map(raw => (raw as { id: string }).id)).toEqual(['bad-inputs', 'no-scenarios', preset.id]);
+    expect(parsed.errors).toEqual([
+      'Entry 2 "Broken" has invalid scenario inputs.',
+      'Entry 3 "Smith family" has an invalid comparison.',
+      'Entry 4 "Credit union" is neither a scenario nor a comparison.'
+    ]);
+  });
+
+  it('rejects files that are not libraries or come from a newer version', () => {
+    expect(parseLibrary('{').errors).toEqual(['The file is not valid JSON.']);
+    expect(parseLibrary(fileWith([], { format: 'other' })).errors).toEqual(['The file is not a mortgage scenario library.']);
+    expect(parseLibrary(fileWith([preset], { version: 2 })).entries).toEqual([]);
+  });
+});
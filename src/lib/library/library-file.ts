@@ -0,0 +1,153 @@
+import {
+  isRecord,
+  sanitizeBorrower,
+  sanitizeEconomics,
+  sanitizeMonteCarlo,
+  sanitizePrepayVsInvest,
+  sanitizeRefinance,
+  sanitizeRentVsBuy,
+  sanitizeScenarioInputs,
+  type SharedState
+} from '@/lib/share';
+import type { LibraryEntry } from './library';
+
+// Library files (and the copy kept in browser storage) are JSON documents of this shape:
+//
+//   {
+//     "format": "mortgage-scenario-library",
+//     "version": 1,
+//     "exportedAt": "2025-03-01T12:00:00.000Z",
+//     "entries": [
+//       { "kind": "scenario", "id": "…", "name": "Lender A 5-yr fixed", "tags": ["lender-a"],
+//         "savedAt": "…", "inputs": { ...ScenarioState } },
+//       { "kind": "comparison", "id": "…", "name": "Smith family", "tags": [], "savedAt": "…",
+//         "state": { "scenarios": [{ "id", "name", "inputs" }], "baselineId", "activeTab", "borrower",
+//                    "rentVsBuy", "economics", "refinance", "monteCarlo", "prepayVsInvest",
+//                    "display": { "scheduleScenarioId", "showRealDollars" } } }
+//     ]
+//   }
+//
+// Inputs missing from an entry take their defaults, so files from older releases still load
+export const LIBRARY_FILE_FORMAT = 'mortgage-scenario-library';
+export const LIBRARY_FILE_VERSION = 1;
+
+export interface LibraryFile {
+  format: typeof LIBRARY_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  entries: LibraryEntry[];
+}
+
+export interface ParsedLibraryFile {
+  entries: LibraryEntry[];
+  // The raw entries that failed validation, one per entry error
+  rejected: unknown[];
+  errors: string[];
+}
+
+// Rejected entries from a stored library can be passed back in so that writing it again does not lose them
+export const serializeLibrary = (entries: LibraryEntry[], exportedAt = new Date().toISOString(), rejected: unknown[] = []) => {
+  const file: LibraryFile = { format: LIBRARY_FILE_FORMAT, version: LIBRARY_FILE_VERSION, exportedAt, entries };
+  return JSON.stringify({ ...file, entries: [...entries, ...rejected] }, null, 2);
+};
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+};
+
+const parseComparisonState = (raw: unknown): SharedState | null => {
+  if (!isRecord(raw) || !Array.isArray(raw.scenarios) || raw.scenarios.length === 0) return null;
+  if (typeof raw.baselineId !== 'string' || typeof raw.activeTab !== 'string') return null;
+  if (!isRecord(raw.display) || typeof raw.display.scheduleScenarioId !== 'string') return null;
+
+  const scenarios = [];
+  for (const scenario of raw.scenarios) {
+    if (!isRecord(scenario) || typeof scenario.id !== 'string' || typeof scenario.name !== 'string') return null;
+    const inputs = sanitizeScenarioInputs(scenario.inputs);
+    if (!inputs.valid) return null;
+    scenarios.push({ id: scenario.id, name: scenario.name, inputs: inputs.value });
+  }
+
+  const borrower = sanitizeBorrower(raw.borrower);
+  if (!borrower.valid) return null;
+
+  // Comparisons saved before these settings were kept take their defaults
+  const rentVsBuy = sanitizeRentVsBuy(raw.rentVsBuy ?? {});
+  const economics = sanitizeEconomics(raw.economics ?? {});
+  const refinance = sanitizeRefinance(raw.refinance ?? {});
+  const monteCarlo = sanitizeMonteCarlo(raw.monteCarlo ?? {});
+  const prepayVsInvest = sanitizePrepayVsInvest(raw.prepayVsInvest ?? {});
+  if (!rentVsBuy.valid || !economics.valid || !refinance.valid || !monteCarlo.valid || !prepayVsInvest.valid) return null;
+
+  return {
+    scenarios,
+    baselineId: raw.baselineId,
+    activeTab: raw.activeTab,
+    borrower: borrower.value,
+    rentVsBuy: rentVsBuy.value,
+    economics: economics.value,
+    refinance: refinance.value,
+    monteCarlo: monteCarlo.value,
+    prepayVsInvest: prepayVsInvest.value,
+    display: { scheduleScenarioId: raw.display.scheduleScenarioId, showRealDollars: raw.display.showRealDollars === true }
+  };
+};
+
+// Validate one entry; returns the problem as a message instead of the entry when it does not match the schema
+const parseEntry = (raw: unknown): LibraryEntry | string => {
+  if (!isRecord(raw)) return 'is not an object';
+  if (typeof raw.id !== 'string' || !raw.id) return 'has no id';
+  if (typeof raw.name !== 'string') return 'has no name';
+  if (!isStringArray(raw.tags)) return 'has tags that are not a list of text';
+  if (typeof raw.savedAt !== 'string') return 'has no saved date';
+
+  const base = { id: raw.id, name: raw.name, tags: raw.tags, savedAt: raw.savedAt };
+
+  if (raw.kind === 'scenario') {
+    const inputs = sanitizeScenarioInputs(raw.inputs);
+    return inputs.valid ? { ...base, kind: 'scenario', inputs: inputs.value } : 'has invalid scenario inputs';
+  }
+
+  if (raw.kind === 'comparison') {
+    const state = parseComparisonState(raw.state);
+    return state ? { ...base, kind: 'comparison', state } : 'has an invalid comparison';
+  }
+
+  return 'is neither a scenario nor a comparison';
+};
+
+// Parse and validate a library file; valid entries are kept even when others are rejected
+export const parseLibrary = (text: string): ParsedLibraryFile => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { entries: [], rejected: [], errors: ['The file is not valid JSON.'] };
+  }
+
+  if (!isRecord(file) || file.format !== LIBRARY_FILE_FORMAT) {
+    return { entries: [], rejected: [], errors: ['The file is not a mortgage scenario library.'] };
+  }
+  if (typeof file.version !== 'number' || file.version > LIBRARY_FILE_VERSION) {
+    return { entries: [], rejected: [], errors: [`The library was saved by a newer version (format version ${String(file.version)}).`] };
+  }
+  if (!Array.isArray(file.entries)) {
+    return { entries: [], rejected: [], errors: ['The library has no entries list.'] };
+  }
+
+  const entries: LibraryEntry[] = [];
+  const rejected: unknown[] = [];
+  const errors: string[] = [];
+  file.entries.forEach((raw: unknown, index) => {
+    const entry = parseEntry(raw);
+    if (typeof entry === 'string') {
+      const name = isRecord(raw) && typeof raw.name === 'string' ? ` "${raw.name}"` : '';
+      errors.push(`Entry ${index + 1}${name} ${entry}.`);
+      rejected.push(raw);
+    } else {
+      entries.push(entry);
+    }
+  });
+
+  return { entries, rejected, errors };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCENARIO_INPUTS } from '@/lib/mortgage';
+import {
+  createScenarioPreset,
+  getLibraryTags,
+  mergeLibraryEntries,
+  parseTags,
+  removeLibraryEntry,
+  renameLibraryEntry,
+  setLibraryEntryTags
+} from './library';
+
+describe('parseTags', () => {
+  it('trims, drops blanks and ignores case-insensitive duplicates', () => {
+    expect(parseTags(' Lender A, fixed,, lender a ,Smith ')).toEqual(['Lender A', 'fixed', 'Smith']);
+  });
+});
+
+describe('library entries', () => {
+  const first = createScenarioPreset('Big Bank', DEFAULT_SCENARIO_INPUTS, ['fixed', 'big-bank']);
+  const second = createScenarioPreset('  ', DEFAULT_SCENARIO_INPUTS, ['fixed']);
+
+  it('names untitled entries and gives each a unique id', () => {
+    expect(second.name).toBe('Untitled');
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it('renames, retags and deletes by id', () => {
+    const renamed = renameLibraryEntry([first, second], second.id, 'Credit union');
+    const retagged = setLibraryEntryTags(renamed, second.id, ['variable']);
+
+    expect(retagged.map(entry => entry.name)).toEqual(['Big Bank', 'Credit union']);
+    expect(renameLibraryEntry(retagged, first.id, ' ')).toEqual(retagged);
+    expect(getLibraryTags(retagged)).toEqual(['big-bank', 'fixed', 'variable']);
+    expect(removeLibraryEntry(retagged, first.id).map(entry => entry.id)).toEqual([second.id]);
+  });
+
+  it('replaces entries with the same id when merging an import', () => {
+    const imported = { ...first, name: 'Big Bank (updated)' };
+    const merged = mergeLibraryEntries([first, second], [imported]);
+
+    expect(merged.map(entry => entry.name)).toEqual(['Untitled', 'Big Bank (updated)']);
+  });
+});
@@ -0,0 +1,80 @@
+import type { ScenarioState } from '@/lib/mortgage';
+import type { SharedState } from '@/lib/share';
+
+interface LibraryEntryBase {
+  id: string;
+  name: string;
+  tags: string[];
+  savedAt: string; // ISO timestamp of the last save or edit
+}
+
+// A single scenario's inputs, e.g. one lender's offer
+export interface ScenarioPreset extends LibraryEntryBase {
+  kind: 'scenario';
+  inputs: ScenarioState;
+}
+
+// A whole comparison, restored the same way as a share link
+export interface SavedComparison extends LibraryEntryBase {
+  kind: 'comparison';
+  state: SharedState;
+}
+
+export type LibraryEntry = ScenarioPreset | SavedComparison;
+
+const createEntryBase = (name: string, tags: string[]): LibraryEntryBase => ({
+  id: crypto.randomUUID(),
+  name: name.trim() || 'Untitled',
+  tags,
+  savedAt: new Date().toISOString()
+});
+
+export const createScenarioPreset = (name: string, inputs: ScenarioState, tags: string[] = []): ScenarioPreset => ({
+  ...createEntryBase(name, tags),
+  kind: 'scenario',
+  inputs
+});
+
+export const createSavedComparison = (name: string, state: SharedState, tags: string[] = []): SavedComparison => ({
+  ...createEntryBase(name, tags),
+  kind: 'comparison',
+  state
+});
+
+// Split comma-separated tags, dropping blanks and case-insensitive duplicates
+export const parseTags = (text: string) => {
+  const seen = new Set<string>();
+  return text.split(',').map(tag => tag.trim()).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Every tag in use, sorted for display
+export const getLibraryTags = (entries: LibraryEntry[]) => {
+  return [...new Set(entries.flatMap(entry => entry.tags))].sort((a, b) => a.localeCompare(b));
+};
+
+const updateEntry = (entries: LibraryEntry[], id: string, changes: Partial<LibraryEntryBase>) => {
+  return entries.map(entry => (entry.id === id ? { ...entry, ...changes, savedAt: new Date().toISOString() } : entry));
+};
+
+export const renameLibraryEntry = (entries: LibraryEntry[], id: string, name: string) => {
+  return name.trim() ? updateEntry(entries, id, { name: name.trim() }) : entries;
+};
+
+export const setLibraryEntryTags = (entries: LibraryEntry[], id: string, tags: string[]) => {
+  return updateEntry(entries, id, { tags });
+};
+
+export const removeLibraryEntry = (entries: LibraryEntry[], id: string) => {
+  return entries.filter(entry => entry.id !== id);
+};
+
+// Imported entries replace saved ones with the same id and are otherwise added to the end
+export const mergeLibraryEntries = (entries: LibraryEntry[], imported: LibraryEntry[]) => {
+  const importedIds = new Set(imported.map(entry => entry.id));
+  return [...entries.filter(entry => !importedIds.has(entry.id)), ...imported];
+};
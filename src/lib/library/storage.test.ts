@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCENARIO_INPUTS } from '@/lib/mortgage';
+import { createScenarioPreset } from './library';
+import { LIBRARY_FILE_FORMAT } from './library-file';
+import { loadLibrary, saveLibrary } from './storage';
+
+const preset = createScenarioPreset('Credit union', { ...DEFAULT_SCENARIO_INPUTS, interestRate: 4.19 }, ['lender']);
+const broken = { ...preset, id: 'broken', name: 'Broken', inputs: { interestRate: 'five' } };
+
+const memoryStorage = (items: Record<string, string> = {}) => ({
+  getItem: (key: string) => items[key] ?? null,
+  setItem: (key: string, value: string) => {
+    items[key] = value;
+  }
+} as unknown as Storage);
+
+const storedFile = (entries: unknown[], version = 1) => ({
+  'mortgage-scenario-library': JSON.stringify({ format: LIBRARY_FILE_FORMAT, version, exportedAt: '', entries })
+});
+
+describe('library storage', () => {
+  it('keeps entries that fail validation when the library is saved again', () => {
+    const items = storedFile([preset, broken]);
+    const storage = memoryStorage(items);
+    const library = loadLibrary(storage);
+
+    expect(library.entries).toEqual([preset]);
+    expect(library.errors).toEqual(['Entry 2 "Broken" has invalid scenario inputs.']);
+    expect(library.canSave).toBe(true);
+
+    saveLibrary(storage, [], library.rejected);
+    expect(JSON.parse(items['mortgage-scenario-library']).entries).toEqual([broken]);
+  });
+
+  it('does not offer to overwrite a library it cannot read', () => {
+    expect(loadLibrary(memoryStorage(storedFile([preset], 2))).canSave).toBe(false);
+    expect(loadLibrary(memoryStorage()).canSave).toBe(true);
+  });
+
+  it('reports a storage failure instead of throwing', () => {
+    const full = {
+      getItem: () => null,
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      }
+    } as unknown as Storage;
+
+    expect(saveLibrary(full, [preset])).toBe(false);
+  });
+});
@@ -0,0 +1,33 @@
+import type { LibraryEntry } from './library';
+import { parseLibrary, serializeLibrary } from './library-file';
+
+const STORAGE_KEY = 'mortgage-scenario-library';
+
+export interface StoredLibrary {
+  entries: LibraryEntry[];
+  // Stored entries that no longer validate, written back untouched so that saving does not delete them
+  rejected: unknown[];
+  errors: string[];
+  // False when the stored library could not be read at all, such as one saved by a newer version; it is then left alone
+  canSave: boolean;
+}
+
+// The saved library; entries that fail validation are reported and kept aside rather than dropped
+export const loadLibrary = (storage: Storage): StoredLibrary => {
+  const text = storage.getItem(STORAGE_KEY);
+  if (!text) return { entries: [], rejected: [], errors: [], canSave: true };
+
+  const { entries, rejected, errors } = parseLibrary(text);
+  // Every entry error has its rejected entry; any other error is about the library as a whole
+  return { entries, rejected, errors, canSave: errors.length === rejected.length };
+};
+
+// Returns false when the browser refuses to store the library, e.g. when its storage quota is full
+export const saveLibrary = (storage: Storage, entries: LibraryEntry[], rejected: unknown[] = []) => {
+  try {
+    storage.setItem(STORAGE_KEY, serializeLibrary(entries, undefined, rejected));
+    return true;
+  } catch {
+    return false;
+  }
+};
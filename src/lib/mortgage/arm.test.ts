@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { getArmRateChanges } from './arm';
+import { DEFAULT_SCENARIO_INPUTS } from './defaults';
+import type { ScenarioState } from './types';
+
+// 5.5% start, 4.3% index plus 2.75% margin, 2/2/5 caps over 30 years
+const arm: ScenarioState = { ...DEFAULT_SCENARIO_INPUTS, market: 'US', rateType: 'arm', interestRate: 5.5, amortizationPeriod: 30 };
+
+describe('getArmRateChanges', () => {
+  it('adjusts yearly after the fixed period, from the payment after each anniversary', () => {
+    const changes = getArmRateChanges(arm, '2025-01-15');
+
+    expect(changes).toHaveLength(25);
+    expect(changes[0]).toEqual({ date: '2030-01-16', interestRate: 7.05 });
+    expect(changes[1].date).toBe('2031-01-16');
+    expect(getArmRateChanges({ ...arm, armProduct: '7_1' }, '2025-01-15')[0].date).toBe('2032-01-16');
+  });
+
+  it('holds the first move to the initial cap and later ones to the periodic cap', () => {
+    const changes = getArmRateChanges({ ...arm, armIndex: 8, armInitialCap: 1, armPeriodicCap: 0.5 }, '2025-01-15');
+
+    expect(changes.slice(0, 4).map(change => change.interestRate)).toEqual([6.5, 7, 7.5, 8]);
+  });
+
+  it('keeps the rate within the lifetime cap in both directions', () => {
+    expect(getArmRateChanges({ ...arm, armIndex: 10 }, '2025-01-15').at(-1)?.interestRate).toBe(10.5);
+    expect(getArmRateChanges({ ...arm, armIndex: 0, armMargin: 0, armLifetimeCap: 3 }, '2025-01-15').at(-1)?.interestRate).toBe(2.5);
+  });
+
+  it('follows simulated monthly index rates when given', () => {
+    const indexRates = Array.from({ length: 361 }, (_, month) => (month < 72 ? 3 : 5));
+    const changes = getArmRateChanges(arm, '2025-01-15', indexRates);
+
+    expect(changes[0].interestRate).toBe(5.75);
+    expect(changes[1].interestRate).toBe(7.75);
+  });
+});
@@ -0,0 +1,25 @@
+import { getArmProduct } from './constants';
+import { addDays, addMonths } from './dates';
+import type { RateChange, ScenarioState } from './types';
+
+// Rate at each adjustment of an ARM after its fixed period: the index plus the margin, moved no further than
+// the initial cap at the first adjustment, the periodic cap after that, and the lifetime cap from the start rate.
+// `indexRates` are monthly index rates from `startDate`; without them the scenario's index is held throughout
+export const getArmRateChanges = (scenario: ScenarioState, startDate: string, indexRates: number[] = []): RateChange[] => {
+  const product = getArmProduct(scenario.armProduct);
+  const floor = Math.max(scenario.interestRate - scenario.armLifetimeCap, 0);
+  const ceiling = scenario.interestRate + scenario.armLifetimeCap;
+
+  const changes: RateChange[] = [];
+  let rate = scenario.interestRate;
+  for (let month = product.fixedYears * 12; month < scenario.amortizationPeriod * 12; month += product.adjustmentMonths) {
+    const index = indexRates.length ? indexRates[Math.min(month, indexRates.length - 1)] : scenario.armIndex;
+    const cap = changes.length ? scenario.armPeriodicCap : scenario.armInitialCap;
+    rate = Math.min(Math.max(index + scenario.armMargin, rate - cap, floor), rate + cap, ceiling);
+
+    // The payment due on the adjustment date still covers interest at the old rate
+    changes.push({ date: addDays(addMonths(startDate, month), 1), interestRate: rate });
+  }
+
+  return changes;
+};
@@ -0,0 +1,478 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMortgage, compareScenarios, getContractRate, getDownPaymentAmount } from './calculate';
+import { PAYMENT_FREQUENCIES } from './constants';
+import { calculatePeriodicPayment } from './payments';
+import { getNominalAnnualRate, getPeriodicRate } from './rates';
+import type { ScenarioState } from './types';
+
+const baseScenario: ScenarioState = {
+  market: 'CA',
+  purchasePrice: 100000,
+  downPayment: 0,
+  downPaymentType: 'amount',
+  interestRate: 6,
+  compounding: 'monthly',
+  amortizationPeriod: 30,
+  term: 5,
+  paymentFrequency: 'monthly',
+  startDate: '',
+  firstPaymentDate: '',
+  extraPayment: 0,
+  paymentIncrease: 0,
+  annualPrepayment: 0,
+  lumpSums: [],
+  lumpSumLimit: 100,
+  paymentIncreaseLimit: 100,
+  renewals: [],
+  rateType: 'fixed',
+  primeRate: 4.45,
+  primeSpread: -0.5,
+  variablePayment: 'adjustable',
+  primeRateChanges: [],
+  breakMonth: 0,
+  postedRate: 0,
+  rateDiscount: 0,
+  comparisonRate: 0,
+  armProduct: '5_1',
+  armIndex: 4.3,
+  armMargin: 2.75,
+  armInitialCap: 2,
+  armPeriodicCap: 2,
+  armLifetimeCap: 5,
+  pmiRate: 0,
+  pmiCancelOnRequest: false,
+  points: 0,
+  province: 'OTHER',
+  municipality: '',
+  firstTimeBuyer: false,
+  legalFees: 0,
+  appraisalFee: 0,
+  inspectionFee: 0,
+  otherClosingCosts: 0,
+  propertyTax: 0,
+  propertyTaxType: 'percent',
+  condoFees: 0,
+  homeInsurance: 0,
+  utilities: 0,
+  maintenance: 0,
+  propertyTaxEscalation: 0,
+  condoFeesEscalation: 0,
+  homeInsuranceEscalation: 0,
+  utilitiesEscalation: 0,
+  maintenanceEscalation: 0,
+  appreciationRate: 0,
+  homeValues: []
+};
+
+// Closed-form remaining balance after `paymentsMade` level payments
+const closedFormBalance = (principal: number, rate: number, payment: number, paymentsMade: number) => {
+  const growth = Math.pow(1 + rate, paymentsMade);
+  return principal * growth - payment * (growth - 1) / rate;
+};
+
+describe('getDownPaymentAmount', () => {
+  it('returns dollar amounts unchanged', () => {
+    expect(getDownPaymentAmount({ ...baseScenario, purchasePrice: 500000, downPayment: 100000 })).toBe(100000);
+  });
+
+  it('converts a percentage of the purchase price', () => {
+    expect(getDownPaymentAmount({ ...baseScenario, purchasePrice: 500000, downPayment: 20, downPaymentType: 'percent' })).toBe(100000);
+  });
+});
+
+describe('calculatePeriodicPayment', () => {
+  it('splits the principal evenly when there is no interest', () => {
+    expect(calculatePeriodicPayment(120000, 0, 120)).toBe(1000);
+  });
+});
+
+describe('calculateMortgage', () => {
+  // $100,000 at 6% over 30 years, monthly: the textbook reference amortization table
+  it('matches the published monthly reference table', () => {
+    const result = calculateMortgage(baseScenario);
+
+    expect(result.totalMortgage).toBe(100000);
+    expect(result.monthlyPayment).toBeCloseTo(599.55, 2);
+    expect(result.totalInterestLifetime).toBeCloseTo(115838.19, 2);
+    expect(result.totalInterestTerm).toBeCloseTo(29027.39, 2);
+    expect(result.balanceAtEndOfTerm).toBeCloseTo(93054.36, 2);
+    expect(result.effectiveAmortization).toBe(30);
+    expect(result.amortizationSchedule).toHaveLength(30);
+    expect(result.amortizationSchedule[0].interestPaid).toBeCloseTo(5966.59, 2);
+    expect(result.amortizationSchedule[0].principalPaid).toBeCloseTo(1228.01, 2);
+    expect(result.amortizationSchedule[29].endingBalance).toBe(0);
+  });
+
+  // The same loan compounded monthly: both frequencies accrue the same effective rate, so the term balance is equal
+  it.each([
+    ['biweekly', 598.75, 115548.38, 93054.36],
+    ['weekly', 598.40, 115424.34, 93054.36]
+  ])('matches the monthly-compounding reference table for %s payments', (paymentFrequency, monthlyPayment, lifetimeInterest, termBalance) => {
+    const result = calculateMortgage({ ...baseScenario, paymentFrequency });
+
+    expect(result.monthlyPayment).toBeCloseTo(monthlyPayment, 2);
+    expect(result.totalInterestLifetime).toBeCloseTo(lifetimeInterest, 2);
+    expect(result.balanceAtEndOfTerm).toBeCloseTo(termBalance, 2);
+    expect(result.effectiveAmortization).toBeCloseTo(30, 6);
+  });
+
+  // $100,000 at 6% compounded semi-annually over 25 years: the Canadian lender payment tables
+  it.each([
+    ['monthly', 639.81],
+    ['biweekly', 294.90],
+    ['weekly', 147.37]
+  ])('matches the Canadian semi-annual reference table for %s payments', (paymentFrequency, periodicPayment) => {
+    const result = calculateMortgage({ ...baseScenario, compounding: 'semi_annual', amortizationPeriod: 25, paymentFrequency });
+    const paymentsPerYear = PAYMENT_FREQUENCIES.find(f => f.value === paymentFrequency)!.paymentsPerYear;
+
+    expect(result.monthlyPayment * 12 / paymentsPerYear).toBeCloseTo(periodicPayment, 2);
+    expect(result.effectiveAmortization).toBeCloseTo(25, 6);
+    expect(result.amortizationSchedule[24].endingBalance).toBe(0);
+  });
+
+  it('charges more interest for the same nominal rate as compounding gets more frequent', () => {
+    const semiAnnual = calculateMortgage({ ...baseScenario, compounding: 'semi_annual' });
+    const monthly = calculateMortgage(baseScenario);
+    const daily = calculateMortgage({ ...baseScenario, compounding: 'daily' });
+
+    expect(semiAnnual.totalInterestLifetime).toBeLessThan(monthly.totalInterestLifetime);
+    expect(monthly.totalInterestLifetime).toBeLessThan(daily.totalInterestLifetime);
+  });
+
+  it.each([
+    ['accelerated_biweekly', 2],
+    ['accelerated_weekly', 4]
+  ])('pays the monthly payment divided by %s periods for accelerated payments', (paymentFrequency, divisor) => {
+    const monthly = calculateMortgage(baseScenario);
+    const result = calculateMortgage({ ...baseScenario, paymentFrequency });
+    const paymentsPerYear = PAYMENT_FREQUENCIES.find(f => f.value === paymentFrequency)!.paymentsPerYear;
+
+    expect(result.monthlyPayment).toBeCloseTo(monthly.monthlyPayment / divisor * paymentsPerYear / 12, 6);
+    expect(result.effectiveAmortization).toBeLessThan(30);
+    expect(result.totalInterestLifetime).toBeLessThan(monthly.totalInterestLifetime);
+  });
+
+  it.each(PAYMENT_FREQUENCIES.map(f => [f.value, f.paymentsPerYear] as const))(
+    'tracks the closed-form balance at the end of the term for %s payments',
+    (paymentFrequency, paymentsPerYear) => {
+      const result = calculateMortgage({ ...baseScenario, paymentFrequency });
+      const payment = result.monthlyPayment * 12 / paymentsPerYear;
+      const rate = getPeriodicRate(6, 12, paymentsPerYear);
+
+      expect(result.balanceAtEndOfTerm).toBeCloseTo(closedFormBalance(100000, rate, payment, 5 * paymentsPerYear), 4);
+    }
+  );
+
+  it('amortizes a zero-rate loan in equal principal payments', () => {
+    const result = calculateMortgage({ ...baseScenario, purchasePrice: 120000, interestRate: 0, amortizationPeriod: 10 });
+
+    expect(result.monthlyPayment).toBe(1000);
+    expect(result.totalInterestLifetime).toBe(0);
+    expect(result.totalInterestTerm).toBe(0);
+    expect(result.balanceAtEndOfTerm).toBeCloseTo(60000, 6);
+    expect(result.effectiveAmortization).toBe(10);
+    expect(result.amortizationSchedule.every(item => item.principalPaid === 12000)).toBe(true);
+  });
+
+  it('finances the default insurance premium on a high-ratio loan', () => {
+    const result = calculateMortgage({ ...baseScenario, purchasePrice: 500000, downPayment: 10, downPaymentType: 'percent', amortizationPeriod: 25 });
+    const uninsured = calculateMortgage({ ...baseScenario, purchasePrice: 463950, amortizationPeriod: 25 });
+
+    expect(result.insurance.premium).toBeCloseTo(13950, 6);
+    expect(result.totalMortgage).toBeCloseTo(463950, 6);
+    expect(result.monthlyPayment).toBeCloseTo(uninsured.monthlyPayment, 6);
+  });
+
+  it('qualifies the borrower only when one with income is given', () => {
+    const borrower = { annualIncome: 60000, heating: 100, otherDebts: 0 };
+
+    expect(calculateMortgage(baseScenario).qualification).toBeNull();
+    expect(calculateMortgage(baseScenario, { borrower: { ...borrower, annualIncome: 0 } }).qualification).toBeNull();
+    expect(calculateMortgage(baseScenario, { borrower }).qualification?.stressTest.interestRate).toBe(8);
+  });
+
+  it('qualifies with the property tax and condo fees of the scenario', () => {
+    const borrower = { annualIncome: 120000, heating: 0, otherDebts: 0 };
+    const bare = calculateMortgage(baseScenario, { borrower }).qualification!;
+    const result = calculateMortgage({ ...baseScenario, propertyTax: 6000, propertyTaxType: 'amount', condoFees: 400 }, { borrower });
+
+    // $500 a month of property tax and half the condo fees over $10,000 of monthly income
+    expect(result.qualification!.contract.gds - bare.contract.gds).toBeCloseTo(7, 8);
+    expect(result.ownershipCosts.monthly.propertyTax + result.ownershipCosts.monthly.condoFees).toBeCloseTo(900, 8);
+  });
+
+  it('adds closing costs and the premium sales tax to the cash required', () => {
+    const result = calculateMortgage({
+      ...baseScenario,
+      purchasePrice: 500000,
+      downPayment: 50000,
+      amortizationPeriod: 25,
+      province: 'ON',
+      legalFees: 1500,
+      inspectionFee: 500
+    });
+
+    expect(result.closingCosts.landTransferTax).toBeCloseTo(6475, 6);
+    expect(result.closingCosts.insurancePst).toBeCloseTo(13950 * 0.08, 6);
+    expect(result.cashRequired).toBeCloseTo(50000 + 6475 + 2000 + 1116, 6);
+  });
+
+  it('pays off early with extra payments and counts only payments actually made', () => {
+    const result = calculateMortgage({ ...baseScenario, extraPayment: 200 });
+    const lastYear = result.amortizationSchedule[result.amortizationSchedule.length - 1];
+
+    expect(lastYear.endingBalance).toBe(0);
+    expect(result.effectiveAmortization).toBeLessThan(20);
+    expect(result.totalInterestLifetime).toBeLessThan(115838.19);
+    expect(result.effectiveAmortization * 12).toBe(Math.round(result.effectiveAmortization * 12));
+  });
+
+  it('reports the whole interest cost within the term when the loan is paid off before it ends', () => {
+    const result = calculateMortgage({ ...baseScenario, interestRate: 5, amortizationPeriod: 10, term: 10, annualPrepayment: 20 });
+
+    expect(result.effectiveAmortization).toBeLessThan(5);
+    expect(result.balanceAtEndOfTerm).toBe(0);
+    expect(result.totalInterestTerm).toBe(result.totalInterestLifetime);
+  });
+
+  it('charges interest from the advance to the interest adjustment date, one period before the first payment', () => {
+    const regular = calculateMortgage({ ...baseScenario, startDate: '2025-02-01' });
+    const result = calculateMortgage({ ...baseScenario, startDate: '2025-01-15', firstPaymentDate: '2025-03-01' });
+    const dailyRate = getPeriodicRate(6, 12, 365);
+
+    expect(result.interestAdjustment).toEqual({ date: '2025-02-01', days: 17, amount: expect.any(Number) });
+    expect(result.interestAdjustment.amount).toBeCloseTo(100000 * (Math.pow(1 + dailyRate, 17) - 1), 6);
+    expect(result.firstPaymentDate).toBe('2025-03-01');
+    expect(result.maturityDate).toBe('2030-02-01');
+    expect(result.paymentSchedule).toEqual(regular.paymentSchedule);
+    expect(result.totalCost).toBeCloseTo(regular.totalCost + result.interestAdjustment.amount, 6);
+    expect(result.cashRequired).toBeCloseTo(regular.cashRequired + result.interestAdjustment.amount, 6);
+  });
+
+  it('uses the scenario start date over the calculation date and ignores a first payment before it', () => {
+    const result = calculateMortgage({ ...baseScenario, startDate: '2026-06-10', firstPaymentDate: '2026-01-01' }, { startDate: '2025-01-15' });
+
+    expect(result.interestAdjustment).toEqual({ date: '2026-06-10', days: 0, amount: 0 });
+    expect(result.firstPaymentDate).toBe('2026-07-10');
+  });
+
+  it('discounts the payment stream and deflates the costs to today\'s dollars', () => {
+    const nominal = calculateMortgage(baseScenario, { startDate: '2025-01-01', economics: { discountRate: 0, inflationRate: 0 } });
+    const result = calculateMortgage(baseScenario, { startDate: '2025-01-01', economics: { discountRate: 6, inflationRate: 2 } });
+    const totalPaid = nominal.paymentSchedule.reduce((total, payment) => total + payment.payment, 0);
+
+    expect(nominal.paymentsPresentValue).toBeCloseTo(totalPaid, 6);
+    expect(nominal.realDollars.totalInterestLifetime).toBeCloseTo(nominal.totalInterestLifetime, 6);
+    expect(nominal.realDollars.totalInterestTerm).toBeCloseTo(nominal.totalInterestTerm, 6);
+    expect(nominal.realDollars.totalCost).toBeCloseTo(nominal.totalCost, 6);
+    expect(nominal.realDollars.yearEndBalances).toEqual(nominal.amortizationSchedule.map(item => item.endingBalance));
+
+    // Discounting a loan's payments at its own effective rate gives back about the amount borrowed
+    const ownRate = calculateMortgage(baseScenario, { startDate: '2025-01-01', economics: { discountRate: (Math.pow(1.005, 12) - 1) * 100, inflationRate: 0 } });
+    expect(ownRate.paymentsPresentValue).toBeCloseTo(100000, -2);
+
+    expect(result.paymentsPresentValue).toBeLessThan(totalPaid);
+    expect(result.realDollars.totalCost).toBeLessThan(result.totalCost);
+    expect(result.realDollars.balanceAtEndOfTerm).toBeCloseTo(result.balanceAtEndOfTerm / Math.pow(1.02, 1826 / 365), 6);
+    expect(result.realDollars.yearEndBalances[9]).toBeCloseTo(result.amortizationSchedule[9].endingBalance / Math.pow(1.02, 10), 6);
+  });
+
+  it('adds the ownership costs to the monthly payment and the lifetime borrowing cost', () => {
+    const result = calculateMortgage({ ...baseScenario, propertyTax: 1.2, condoFees: 400, maintenance: 0.6, propertyTaxEscalation: 3 });
+
+    expect(result.ownershipCosts.monthly.total).toBeCloseTo(100 + 400 + 50, 10);
+    expect(result.allInMonthlyCost).toBeCloseTo(result.monthlyPayment + 550, 10);
+    expect(result.ownershipCosts.yearly).toHaveLength(30);
+    expect(result.lifetimeOwnershipCost).toBeCloseTo(result.totalCost + result.ownershipCosts.lifetime, 6);
+    expect(calculateMortgage(baseScenario).lifetimeOwnershipCost).toBe(calculateMortgage(baseScenario).totalCost);
+  });
+
+  it('cuts prepayments back to the lender privileges and reports each breach', () => {
+    const allowed = calculateMortgage({ ...baseScenario, paymentIncrease: 15, annualPrepayment: 15 });
+    const result = calculateMortgage({ ...baseScenario, paymentIncrease: 50, annualPrepayment: 20, lumpSumLimit: 15, paymentIncreaseLimit: 15 });
+
+    expect(allowed.prepaymentBreaches).toEqual([]);
+    expect(result.paymentSchedule).toEqual(allowed.paymentSchedule);
+    expect(result.prepaymentBreaches[0]).toEqual({ kind: 'payment_increase', year: 1, requested: 50, allowed: 15 });
+    expect(result.prepaymentBreaches.slice(1).every(breach => breach.kind === 'annual_prepayment')).toBe(true);
+    expect(result.prepaymentBreaches[1]).toMatchObject({ year: 1, requested: 20000, allowed: 15000 });
+  });
+});
+
+describe('calculateMortgage for variable rates', () => {
+  const variable: ScenarioState = {
+    ...baseScenario,
+    interestRate: 9,
+    rateType: 'variable',
+    primeRate: 6.5,
+    primeSpread: -0.5,
+    primeRateChanges: [{ date: '2026-01-15', primeRate: 7.5 }]
+  };
+
+  it('prices the loan at prime plus the spread and ignores the fixed rate', () => {
+    const result = calculateMortgage({ ...variable, primeRateChanges: [] }, { startDate: '2025-01-15' });
+
+    expect(getContractRate(variable)).toBe(6);
+    expect(result.monthlyPayment).toBeCloseTo(599.55, 2);
+    expect(result.triggerRate).toBeNull();
+  });
+
+  it('recalculates adjustable payments and keeps the amortization', () => {
+    const result = calculateMortgage(variable, { startDate: '2025-01-15' });
+
+    expect(result.paymentSchedule[11].interestRate).toBe(7);
+    expect(result.paymentSchedule[11].payment).toBeGreaterThan(result.monthlyPayment);
+    expect(result.effectiveAmortization).toBeCloseTo(30, 6);
+  });
+
+  it('stretches the amortization of fixed payments and reports the trigger rate', () => {
+    const result = calculateMortgage({ ...variable, variablePayment: 'fixed' }, { startDate: '2025-01-15' });
+
+    expect(result.paymentSchedule[11].payment).toBeCloseTo(result.monthlyPayment, 6);
+    expect(result.effectiveAmortization).toBeGreaterThan(30);
+    expect(result.triggerRate).toBeCloseTo(getNominalAnnualRate(result.monthlyPayment / 100000, 12, 12), 10);
+    expect(result.triggerRate).toBeCloseTo(7.19, 2);
+    expect(result.triggerPoint).toBeNull();
+  });
+
+  it('flags negative amortization once prime passes the trigger rate', () => {
+    const result = calculateMortgage({
+      ...variable,
+      variablePayment: 'fixed',
+      primeRateChanges: [{ date: '2026-01-15', primeRate: 8 }]
+    }, { startDate: '2025-01-15' });
+
+    expect(result.triggerPoint).toEqual({ paymentNumber: 12, date: '2026-01-15', interestRate: 7.5 });
+    expect(result.negativeAmortization).toBe(true);
+  });
+});
+
+describe('calculateMortgage when breaking the term', () => {
+  // Existing mortgage at 6.5% posted less 0.5%, broken after two years of a five-year term to take 4%
+  const breaking: ScenarioState = { ...baseScenario, interestRate: 4, breakMonth: 24, postedRate: 6.5, rateDiscount: 0.5, comparisonRate: 5 };
+
+  it('runs the existing rate until the break and the new rate after it', () => {
+    const result = calculateMortgage(breaking, { startDate: '2025-01-15' });
+    const rate = 0.04 / 12;
+    const balance = result.paymentSchedule[22].balance;
+
+    expect(result.monthlyPayment).toBeCloseTo(599.55, 2);
+    expect(result.paymentSchedule[22].interestRate).toBe(6);
+    expect(result.paymentSchedule[23].interestRate).toBe(4);
+    expect(result.paymentSchedule[23].payment).toBeCloseTo(balance * rate / (1 - Math.pow(1 + rate, -337)), 6);
+  });
+
+  it('charges the larger penalty on the balance owing at the break and adds it to the cost', () => {
+    const result = calculateMortgage(breaking, { startDate: '2025-01-15' });
+    const balance = closedFormBalance(100000, 0.005, calculatePeriodicPayment(100000, 0.005, 360), 23);
+
+    expect(result.prepaymentPenalty).toMatchObject({ breakDate: '2027-01-15', remainingMonths: 36, method: 'interest_rate_differential' });
+    expect(result.prepaymentPenalty?.balance).toBeCloseTo(balance, 6);
+    expect(result.prepaymentPenalty?.penalty).toBeCloseTo(balance * 0.015 * 3, 6);
+    expect(result.totalCost).toBeCloseTo(result.totalInterestLifetime + result.prepaymentPenalty!.penalty, 6);
+  });
+
+  it('ignores a break month outside the term', () => {
+    expect(calculateMortgage({ ...breaking, breakMonth: 60 }).prepaymentPenalty).toBeNull();
+  });
+});
+
+describe('calculateMortgage in the US market', () => {
+  const us: ScenarioState = { ...baseScenario, market: 'US', compounding: 'semi_annual' };
+
+  it('compounds monthly and fixes the rate for the whole amortization', () => {
+    const result = calculateMortgage({ ...us, renewals: [{ years: 5, interestRate: 9, paymentFrequency: '' }] });
+
+    expect(result.monthlyPayment).toBeCloseTo(599.55, 2);
+    expect(result.termSummaries).toHaveLength(1);
+    expect(result.paymentSchedule.every(payment => payment.interestRate === 6)).toBe(true);
+    expect(result.balanceAtEndOfTerm).toBe(0);
+  });
+
+  it('charges monthly PMI until the balance reaches 78% of the price, or 80% on request', () => {
+    const insured = { ...us, downPayment: 10, downPaymentType: 'percent', pmiRate: 0.6 };
+    const result = calculateMortgage(insured, { startDate: '2025-01-15' });
+    const payment = calculatePeriodicPayment(90000, 0.005, 360);
+    const paymentsTo = (target: number) => {
+      let count = 1;
+      while (closedFormBalance(90000, 0.005, payment, count) > target) count++;
+      return count;
+    };
+
+    expect(result.insurance.premium).toBe(0);
+    expect(result.totalMortgage).toBe(90000);
+    expect(result.pmi?.monthlyPremium).toBeCloseTo(45, 6);
+    expect(result.pmi?.months).toBe(paymentsTo(78000));
+    expect(result.pmi?.terminationDate).toBe(result.paymentSchedule[paymentsTo(78000) - 1].date);
+    expect(result.pmi?.cancellationDate).toBe(result.paymentSchedule[paymentsTo(80000) - 1].date);
+    expect(result.totalCost).toBeCloseTo(result.totalInterestLifetime + 45 * paymentsTo(78000), 6);
+    expect(result.allInMonthlyCost).toBeCloseTo(result.monthlyPayment + 45, 6);
+
+    expect(calculateMortgage({ ...insured, pmiCancelOnRequest: true }, { startDate: '2025-01-15' }).pmi?.months).toBe(paymentsTo(80000));
+    expect(calculateMortgage({ ...us, downPayment: 20000 }).pmi).toBeNull();
+  });
+
+  it('pays discount points at closing and counts them as a borrowing cost', () => {
+    const result = calculateMortgage({ ...us, downPayment: 20000, points: 1 });
+
+    expect(result.closingCosts.points).toBeCloseTo(800, 6);
+    expect(result.cashRequired).toBeCloseTo(20800, 6);
+    expect(result.totalCost).toBeCloseTo(result.totalInterestLifetime + 800, 6);
+  });
+
+  it('reports an ARM term as its fixed period and adjusts the rate within the caps after it', () => {
+    const arm: ScenarioState = { ...us, rateType: 'arm', interestRate: 5.5, armInitialCap: 1, armPeriodicCap: 0.25, armLifetimeCap: 1.2 };
+    const result = calculateMortgage(arm, { startDate: '2025-01-15' });
+
+    expect(result.rateAdjustments.map(change => change.interestRate).slice(0, 3)).toEqual([6.5, 6.7, 6.7]);
+    expect(result.paymentSchedule[59].interestRate).toBe(5.5);
+    expect(result.paymentSchedule[60].interestRate).toBe(6.5);
+    expect(result.paymentSchedule[60].payment).toBeGreaterThan(result.monthlyPayment);
+    expect(result.maturityDate).toBe('2030-01-15');
+    expect(result.balanceAtEndOfTerm).toBeCloseTo(result.paymentSchedule[59].balance, 6);
+  });
+
+  it('charges no prepayment penalty', () => {
+    expect(calculateMortgage({ ...us, interestRate: 4, breakMonth: 24, postedRate: 6.5, rateDiscount: 0.5 }).prepaymentPenalty).toBeNull();
+  });
+});
+
+describe('compareScenarios', () => {
+  const scenarios = [
+    { id: 'a', name: 'Lender A', inputs: baseScenario },
+    { id: 'b', name: 'Lender B', inputs: { ...baseScenario, interestRate: 5 } },
+    { id: 'c', name: 'Lender C', inputs: { ...baseScenario, interestRate: 6, extraPayment: 100 } }
+  ];
+
+  it('expresses differences as each scenario minus the baseline', () => {
+    const comparison = compareScenarios(scenarios, 'a');
+    const [a, b, c] = comparison.scenarios;
+
+    expect(comparison.baselineId).toBe('a');
+    expect(comparison.scenarios.map(scenario => scenario.name)).toEqual(['Lender A', 'Lender B', 'Lender C']);
+    expect(b.differences.monthlyPayment).toBeCloseTo(b.result.monthlyPayment - a.result.monthlyPayment, 10);
+    expect(b.differences.totalInterestLifetime).toBeLessThan(0);
+    expect(b.differences.timeShaved).toBe(0);
+    expect(b.differences.paymentsPresentValue).toBeCloseTo(b.result.paymentsPresentValue - a.result.paymentsPresentValue, 10);
+    expect(c.differences.timeShaved).toBeGreaterThan(0);
+  });
+
+  it('reports zero differences for the baseline itself', () => {
+    const comparison = compareScenarios(scenarios, 'b');
+    const baseline = comparison.scenarios[1];
+
+    expect(Object.values(baseline.differences).every(value => value === 0)).toBe(true);
+    expect(comparison.scenarios[0].differences.totalInterestLifetime).toBeGreaterThan(0);
+  });
+
+  it('falls back to the first scenario when the baseline is missing', () => {
+    const comparison = compareScenarios(scenarios, 'removed');
+
+    expect(comparison.baselineId).toBe('a');
+    expect(comparison.scenarios[0].differences.monthlyPayment).toBe(0);
+  });
+
+  it('handles an empty scenario list', () => {
+    expect(compareScenarios([], 'a').scenarios).toEqual([]);
+  });
+});
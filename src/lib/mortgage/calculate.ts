@@ -0,0 +1,347 @@
+import { getArmRateChanges } from './arm';
+import { calculateClosingCosts } from './closing-costs';
+import { getArmProduct, getCompoundingConvention, getMarket, getPaymentFrequency } from './constants';
+import { addMonths, addPaymentPeriods, daysBetween, todayISODate } from './dates';
+import { DEFAULT_ECONOMICS } from './defaults';
+import { calculateEquity } from './equity';
+import { calculateMortgageInsurance, calculatePrivateMortgageInsurance } from './insurance';
+import { calculateOwnershipCosts, getAnnualPropertyTax } from './ownership';
+import { calculateScheduledPayment } from './payments';
+import { calculatePrepaymentPenalty, getBalanceBefore } from './penalty';
+import { getDiscountFactor, getPresentValue, getYearsBetween } from './present-value';
+import { calculateQualification } from './qualification';
+import { getNominalAnnualRate, getPeriodicRate } from './rates';
+import { generateAmortizationSchedule } from './schedule';
+import type {
+  CalculationOptions,
+  Comparison,
+  ComparisonDifferences,
+  MortgageResult,
+  PrepaymentBreach,
+  Scenario,
+  ScenarioState
+} from './types';
+
+// Resolve the down payment to a dollar amount regardless of how it was entered
+export const getDownPaymentAmount = (scenario: ScenarioState) => {
+  if (scenario.downPaymentType === 'amount') {
+    return scenario.downPayment;
+  }
+  return scenario.purchasePrice * (scenario.downPayment / 100);
+};
+
+// Contract rate at the start of the mortgage: prime plus the spread for variable rates
+export const getContractRate = (scenario: ScenarioState) => {
+  if (scenario.rateType === 'variable') {
+    return scenario.primeRate + scenario.primeSpread;
+  }
+  return scenario.interestRate;
+};
+
+// The scenario's own start date, else the date the calculation is run for, else today
+export const getStartDate = (scenario: ScenarioState, options: CalculationOptions = {}) => {
+  return scenario.startDate || options.startDate || todayISODate();
+};
+
+// Years the initial rate is set for: the ARM's fixed period, the whole amortization where fixed rates
+// run full length, otherwise the chosen term
+export const getInitialTerm = (scenario: ScenarioState) => {
+  if (scenario.rateType === 'arm') {
+    return getArmProduct(scenario.armProduct).fixedYears;
+  }
+  return getMarket(scenario.market).fullLengthTerm ? scenario.amortizationPeriod : scenario.term;
+};
+
+// Loan, payment and amortization schedule of a scenario. calculateMortgage adds the costs and checks
+// around them; a rate simulation needs only this much for each path
+export const calculateScenarioSchedule = (scenario: ScenarioState, options: CalculationOptions = {}) => {
+  const market = getMarket(scenario.market);
+
+  // Calculate mortgage amount (purchase price minus down payment, plus any financed insurance premium)
+  const downPayment = getDownPaymentAmount(scenario);
+  const insurance = calculateMortgageInsurance(scenario.purchasePrice, downPayment, scenario.amortizationPeriod, market.value);
+  const loanAmount = scenario.purchasePrice - downPayment;
+  const mortgageAmount = loanAmount + insurance.premium;
+
+  // Get compounding details; some markets compound every loan the same way
+  const compoundingPeriodsPerYear = getCompoundingConvention(market.compounding ?? scenario.compounding).periodsPerYear;
+
+  const startDate = getStartDate(scenario, options);
+  const isVariable = scenario.rateType === 'variable';
+  const isArm = scenario.rateType === 'arm';
+  const interestRate = getContractRate(scenario);
+  const hasFixedPayment = isVariable && scenario.variablePayment === 'fixed';
+  const term = getInitialTerm(scenario);
+  const renewals = market.fullLengthTerm || isArm ? [] : scenario.renewals;
+
+  // Breaking a fixed-rate mortgage runs it at its existing rate until the break, then at the new rate
+  const isBreaking = market.prepaymentPenalties && !isVariable && !isArm && scenario.breakMonth > 0 && scenario.breakMonth < term * 12;
+  const existingRate = isBreaking ? scenario.postedRate - scenario.rateDiscount : interestRate;
+
+  // Amortization runs from the interest adjustment date, one period before the first payment; interest on the
+  // days from the advance to that date is charged on its own, usually out of the advance at closing
+  const firstPaymentDate = scenario.firstPaymentDate > startDate ? scenario.firstPaymentDate : '';
+  const periodBeforeFirstPayment = firstPaymentDate
+    ? addPaymentPeriods(firstPaymentDate, getPaymentFrequency(scenario.paymentFrequency).paymentsPerYear, -1)
+    : startDate;
+  const adjustmentDate = periodBeforeFirstPayment > startDate ? periodBeforeFirstPayment : startDate;
+  const adjustmentDays = daysBetween(startDate, adjustmentDate);
+  const interestAdjustment = {
+    date: adjustmentDate,
+    days: adjustmentDays,
+    amount: mortgageAmount * (Math.pow(1 + getPeriodicRate(existingRate, compoundingPeriodsPerYear, 365), adjustmentDays) - 1)
+  };
+
+  const breakDate = addMonths(adjustmentDate, scenario.breakMonth);
+
+  const rateAdjustments = isArm ? getArmRateChanges(scenario, adjustmentDate, options.indexRates) : [];
+  const rateChanges = isVariable
+    ? scenario.primeRateChanges.map(change => ({ date: change.date, interestRate: change.primeRate + scenario.primeSpread }))
+    : isBreaking ? [{ date: breakDate, interestRate }] : rateAdjustments;
+
+  // A payment increase beyond the lender's privilege is cut back to it
+  const paymentIncrease = Math.min(scenario.paymentIncrease, scenario.paymentIncreaseLimit);
+  const paymentIncreaseBreaches: PrepaymentBreach[] = scenario.paymentIncrease > scenario.paymentIncreaseLimit
+    ? [{ kind: 'payment_increase', year: 1, requested: scenario.paymentIncrease, allowed: scenario.paymentIncreaseLimit }]
+    : [];
+
+  // Calculate payment amount for the initial term
+  const { paymentAmount, paymentsPerYear } = calculateScheduledPayment(
+    mortgageAmount,
+    existingRate,
+    compoundingPeriodsPerYear,
+    scenario.paymentFrequency,
+    scenario.amortizationPeriod
+  );
+
+  // Calculate monthly equivalent for comparison
+  const monthlyPayment = scenario.paymentFrequency === 'monthly'
+    ? paymentAmount
+    : paymentAmount * paymentsPerYear / 12;
+
+  // Generate detailed amortization schedule
+  const scheduleResult = generateAmortizationSchedule({
+    principal: mortgageAmount,
+    annualInterestRate: existingRate,
+    compoundingPeriodsPerYear,
+    amortizationYears: scenario.amortizationPeriod,
+    paymentAmount,
+    paymentFrequency: scenario.paymentFrequency,
+    term,
+    renewals,
+    extraPayment: scenario.extraPayment,
+    paymentIncrease,
+    annualPrepayment: scenario.annualPrepayment,
+    lumpSums: scenario.lumpSums,
+    lumpSumLimit: scenario.lumpSumLimit,
+    startDate: adjustmentDate,
+    firstPaymentDate: firstPaymentDate || undefined,
+    rateChanges,
+    adjustPaymentOnRateChange: !hasFixedPayment
+  });
+
+  return {
+    market,
+    downPayment,
+    insurance,
+    loanAmount,
+    mortgageAmount,
+    compoundingPeriodsPerYear,
+    startDate,
+    interestRate,
+    hasFixedPayment,
+    term,
+    isBreaking,
+    existingRate,
+    adjustmentDate,
+    interestAdjustment,
+    breakDate,
+    rateAdjustments,
+    paymentIncrease,
+    paymentIncreaseBreaches,
+    paymentAmount,
+    paymentsPerYear,
+    monthlyPayment,
+    scheduleResult
+  };
+};
+
+// Calculate mortgage for a single scenario
+export const calculateMortgage = (scenario: ScenarioState, options: CalculationOptions = {}): MortgageResult => {
+  const {
+    market,
+    downPayment,
+    insurance,
+    loanAmount,
+    mortgageAmount,
+    compoundingPeriodsPerYear,
+    startDate,
+    interestRate,
+    hasFixedPayment,
+    term,
+    isBreaking,
+    existingRate,
+    adjustmentDate,
+    interestAdjustment,
+    breakDate,
+    rateAdjustments,
+    paymentIncrease,
+    paymentIncreaseBreaches,
+    paymentAmount,
+    paymentsPerYear,
+    monthlyPayment,
+    scheduleResult
+  } = calculateScenarioSchedule(scenario, options);
+
+  const prepaymentPenalty = isBreaking
+    ? {
+      breakDate,
+      ...calculatePrepaymentPenalty({
+        balance: getBalanceBefore(scheduleResult.paymentSchedule, mortgageAmount, breakDate),
+        contractRate: existingRate,
+        rateDiscount: scenario.rateDiscount,
+        comparisonRate: scenario.comparisonRate,
+        remainingMonths: term * 12 - scenario.breakMonth
+      })
+    }
+    : null;
+
+  // Rate at which the regular payment covers only the interest on the original balance
+  const triggerRate = hasFixedPayment && mortgageAmount > 0
+    ? getNominalAnnualRate(paymentAmount * (1 + paymentIncrease / 100) / mortgageAmount, compoundingPeriodsPerYear, paymentsPerYear)
+    : null;
+
+  const closingCosts = calculateClosingCosts(scenario, insurance.premium, loanAmount);
+
+  const pmi = market.mortgageInsurance === 'pmi' && insurance.required
+    ? calculatePrivateMortgageInsurance(
+      loanAmount,
+      scenario.purchasePrice,
+      scenario.pmiRate,
+      scenario.pmiCancelOnRequest,
+      scheduleResult.paymentSchedule,
+      adjustmentDate
+    )
+    : null;
+  const pmiPremiums = pmi
+    ? Array.from({ length: pmi.months }, (_, index) => ({ date: addMonths(adjustmentDate, index + 1), amount: pmi.monthlyPremium }))
+    : [];
+
+  const qualification = options.borrower && options.borrower.annualIncome > 0
+    ? calculateQualification(
+      mortgageAmount,
+      interestRate,
+      compoundingPeriodsPerYear,
+      scenario.amortizationPeriod,
+      options.borrower,
+      { annualPropertyTax: getAnnualPropertyTax(scenario), condoFees: scenario.condoFees },
+      market.qualification
+    )
+    : null;
+
+  // Payments and costs weighed by when they fall: the payment stream discounted to the start date,
+  // and the cost figures deflated to today's dollars
+  const { discountRate, inflationRate } = options.economics ?? DEFAULT_ECONOMICS;
+  const payments = scheduleResult.paymentSchedule;
+  const deflateInterest = (schedule: typeof payments) => getPresentValue(
+    schedule.map(payment => ({ date: payment.date, amount: payment.interest })),
+    startDate,
+    inflationRate
+  );
+  const realTotalInterestLifetime = deflateInterest(payments);
+  const realDollars = {
+    totalInterestTerm: deflateInterest(payments.filter(payment => payment.date <= scheduleResult.maturityDate)),
+    totalInterestLifetime: realTotalInterestLifetime,
+    balanceAtEndOfTerm: scheduleResult.balanceAtEndOfTerm
+      * getDiscountFactor(inflationRate, getYearsBetween(startDate, scheduleResult.maturityDate)),
+    totalCost: realTotalInterestLifetime + insurance.premium + closingCosts.points + getPresentValue([
+      { date: breakDate, amount: prepaymentPenalty?.penalty ?? 0 },
+      { date: adjustmentDate, amount: interestAdjustment.amount },
+      ...pmiPremiums
+    ], startDate, inflationRate),
+    yearEndBalances: scheduleResult.yearlySchedule.map(item => item.endingBalance * getDiscountFactor(inflationRate, item.year))
+  };
+
+  const ownershipCosts = calculateOwnershipCosts(scenario, scenario.amortizationPeriod);
+  const totalCost = scheduleResult.totalInterestPaid + insurance.premium + (pmi?.totalPaid ?? 0) + closingCosts.points
+    + (prepaymentPenalty?.penalty ?? 0) + interestAdjustment.amount;
+
+  // Return calculated results
+  return {
+    monthlyPayment,
+    totalMortgage: mortgageAmount,
+    insurance,
+    pmi,
+    rateAdjustments,
+    totalInterestTerm: scheduleResult.totalInterestPaidOverTerm,
+    totalInterestLifetime: scheduleResult.totalInterestPaid,
+    balanceAtEndOfTerm: scheduleResult.balanceAtEndOfTerm,
+    effectiveAmortization: scheduleResult.effectiveAmortizationYears,
+    amortizationSchedule: scheduleResult.yearlySchedule,
+    paymentSchedule: scheduleResult.paymentSchedule,
+    termSummaries: scheduleResult.termSummaries,
+    triggerRate,
+    triggerPoint: scheduleResult.triggerPoint,
+    negativeAmortization: scheduleResult.negativeAmortization,
+    qualification,
+    prepaymentPenalty,
+    prepaymentBreaches: [...paymentIncreaseBreaches, ...scheduleResult.prepaymentBreaches],
+    interestAdjustment,
+    firstPaymentDate: scheduleResult.paymentSchedule[0]?.date ?? adjustmentDate,
+    maturityDate: scheduleResult.maturityDate,
+    totalCost,
+    closingCosts,
+    cashRequired: downPayment + closingCosts.total + interestAdjustment.amount,
+    paymentsPresentValue: getPresentValue(
+      payments.map(payment => ({ date: payment.date, amount: payment.payment })),
+      startDate,
+      discountRate
+    ),
+    realDollars,
+    ownershipCosts,
+    allInMonthlyCost: monthlyPayment + (pmi && pmi.months > 0 ? pmi.monthlyPremium : 0) + ownershipCosts.monthly.total,
+    lifetimeOwnershipCost: totalCost + ownershipCosts.lifetime,
+    equity: calculateEquity(
+      scenario.purchasePrice,
+      mortgageAmount,
+      scenario.appreciationRate,
+      scenario.homeValues,
+      adjustmentDate,
+      scheduleResult.yearlySchedule
+    )
+  };
+};
+
+// Differences of one result against the baseline result
+export const calculateDifferences = (baseline: MortgageResult, result: MortgageResult): ComparisonDifferences => {
+  return {
+    monthlyPayment: result.monthlyPayment - baseline.monthlyPayment,
+    totalInterestTerm: result.totalInterestTerm - baseline.totalInterestTerm,
+    totalInterestLifetime: result.totalInterestLifetime - baseline.totalInterestLifetime,
+    balanceAtEndOfTerm: result.balanceAtEndOfTerm - baseline.balanceAtEndOfTerm,
+    timeShaved: baseline.effectiveAmortization - result.effectiveAmortization,
+    totalCost: result.totalCost - baseline.totalCost,
+    cashRequired: result.cashRequired - baseline.cashRequired,
+    paymentsPresentValue: result.paymentsPresentValue - baseline.paymentsPresentValue,
+    allInMonthlyCost: result.allInMonthlyCost - baseline.allInMonthlyCost,
+    lifetimeOwnershipCost: result.lifetimeOwnershipCost - baseline.lifetimeOwnershipCost
+  };
+};
+
+// Calculate every scenario and its differences against the baseline
+// Falls back to the first scenario when the baseline id is not in the list
+export const compareScenarios = (scenarios: Scenario[], baselineId: string, options: CalculationOptions = {}): Comparison => {
+  const results = scenarios.map(scenario => calculateMortgage(scenario.inputs, options));
+  const baselineIndex = Math.max(0, scenarios.findIndex(scenario => scenario.id === baselineId));
+  const baselineResult = results[baselineIndex];
+
+  return {
+    baselineId: scenarios[baselineIndex]?.id ?? baselineId,
+    scenarios: scenarios.map((scenario, index) => ({
+      id: scenario.id,
+      name: scenario.name,
+      result: results[index],
+      differences: calculateDifferences(baselineResult, results[index])
+    }))
+  };
+};
@@ -0,0 +1,73 @@
+import { getDiscountFactor } from './present-value';
+import type { Comparison, MonteCarloResult } from './types';
+
+// Year-end balance of every scenario, keyed by scenario id; repaid loans stay at zero until the longest one ends
+// In real dollars each balance is deflated to today's dollars
+export const getBalanceChartData = (comparison: Comparison, realDollars = false) => {
+  if (!comparison.scenarios.length || comparison.scenarios.some(scenario => !scenario.result.amortizationSchedule.length)) {
+    return [];
+  }
+
+  const maxYears = Math.max(...comparison.scenarios.map(scenario => scenario.result.amortizationSchedule.length));
+
+  const data = [];
+  for (let i = 0; i < maxYears; i++) {
+    const dataPoint: Record<string, number> = { year: i + 1 };
+    comparison.scenarios.forEach(scenario => {
+      const balances = realDollars
+        ? scenario.result.realDollars.yearEndBalances
+        : scenario.result.amortizationSchedule.map(item => item.endingBalance);
+      dataPoint[scenario.id] = i < balances.length ? balances[i] : 0;
+    });
+
+    data.push(dataPoint);
+  }
+
+  return data;
+};
+
+// Year-end equity of every scenario, keyed by scenario id; a scenario's line ends with its amortization schedule
+export const getEquityChartData = (comparison: Comparison) => {
+  const maxYears = Math.max(0, ...comparison.scenarios.map(scenario => scenario.result.equity.years.length));
+
+  return Array.from({ length: maxYears }, (_, index) => {
+    const dataPoint: Record<string, number> = { year: index + 1 };
+    comparison.scenarios.forEach(scenario => {
+      const equityYear = scenario.result.equity.years[index];
+      if (equityYear) dataPoint[scenario.id] = equityYear.equity;
+    });
+    return dataPoint;
+  });
+};
+
+// Simulated P10 to P90 range and median of one scenario, added to the balance chart rows
+// A non-zero inflation rate deflates the bands to today's dollars to match real-dollar rows
+export const addBalanceBands = (data: Record<string, number>[], balance: MonteCarloResult['balance'], inflationRate = 0) => {
+  return Array.from({ length: Math.max(data.length, balance.length) }, (_, index) => {
+    const factor = getDiscountFactor(inflationRate, index + 1);
+    return {
+      year: index + 1,
+      ...data[index],
+      simulatedRange: balance[index] ? [balance[index].p10 * factor, balance[index].p90 * factor] : [0, 0],
+      simulatedMedian: (balance[index]?.p50 ?? 0) * factor
+    };
+  });
+};
+
+export const INTEREST_CHART_ROWS = [
+  { name: 'Over Term', metric: 'totalInterestTerm' as const },
+  { name: 'Lifetime', metric: 'totalInterestLifetime' as const },
+  { name: 'Total Cost', metric: 'totalCost' as const }
+];
+
+// Interest and total cost per scenario, plus the largest saving any scenario achieves against the baseline
+export const getInterestChartData = (comparison: Comparison) => {
+  return INTEREST_CHART_ROWS.map(({ name, metric }) => {
+    const dataPoint: Record<string, string | number> = { name };
+    comparison.scenarios.forEach(scenario => {
+      dataPoint[scenario.id] = scenario.result[metric];
+    });
+    dataPoint.savings = Math.max(0, ...comparison.scenarios.map(scenario => -scenario.differences[metric]));
+    return dataPoint;
+  });
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { calculateClosingCosts } from './closing-costs';
+import type { ScenarioState } from './types';
+
+const scenario = {
+  market: 'CA',
+  purchasePrice: 800000,
+  province: 'ON',
+  municipality: 'toronto',
+  firstTimeBuyer: false,
+  legalFees: 1800,
+  appraisalFee: 400,
+  inspectionFee: 600,
+  otherClosingCosts: 200,
+  points: 0
+} as ScenarioState;
+
+describe('calculateClosingCosts', () => {
+  it('adds the municipal tax on top of the provincial tax', () => {
+    const costs = calculateClosingCosts(scenario, 0, 640000);
+
+    expect(costs.provincialTax).toBeCloseTo(12475, 6);
+    expect(costs.municipalTax).toBeCloseTo(12475, 6);
+    expect(costs.fees).toBe(3000);
+    expect(costs.total).toBeCloseTo(27950, 6);
+  });
+
+  it('applies the provincial and municipal first-time buyer rebates', () => {
+    const costs = calculateClosingCosts({ ...scenario, firstTimeBuyer: true }, 0, 640000);
+
+    expect(costs.firstTimeBuyerRebate).toBe(8475);
+    expect(costs.landTransferTax).toBeCloseTo(16475, 6);
+  });
+
+  it('uses a replacing municipal schedule instead of the provincial one', () => {
+    const costs = calculateClosingCosts({ ...scenario, province: 'QC', municipality: 'montreal', purchasePrice: 600000 }, 0, 640000);
+
+    expect(costs.provincialTax).toBeCloseTo(7392, 6);
+    expect(costs.municipalTax).toBe(0);
+  });
+
+  it('charges provincial sales tax on the insurance premium where it applies', () => {
+    expect(calculateClosingCosts({ ...scenario, province: 'QC', municipality: '' }, 20000, 640000).insurancePst).toBeCloseTo(1800, 6);
+    expect(calculateClosingCosts({ ...scenario, province: 'BC', municipality: '' }, 20000, 640000).insurancePst).toBe(0);
+  });
+
+  it('ignores a municipality from another province', () => {
+    expect(calculateClosingCosts({ ...scenario, province: 'BC' }, 0, 640000).municipalTax).toBe(0);
+  });
+
+  it('charges discount points on the loan amount', () => {
+    const costs = calculateClosingCosts({ ...scenario, points: 1.5 }, 0, 640000);
+
+    expect(costs.points).toBeCloseTo(9600, 6);
+    expect(costs.total).toBeCloseTo(37550, 6);
+  });
+
+  it('skips provincial taxes outside the Canadian market', () => {
+    const costs = calculateClosingCosts({ ...scenario, market: 'US', points: 1 }, 20000, 640000);
+
+    expect(costs.landTransferTax).toBe(0);
+    expect(costs.insurancePst).toBe(0);
+    expect(costs.total).toBeCloseTo(9400, 6);
+  });
+});
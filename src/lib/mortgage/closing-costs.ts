@@ -0,0 +1,52 @@
+import { getMarket } from './constants';
+import { calculateBracketTax, calculateFirstTimeBuyerRebate, getProvince } from './land-transfer-tax';
+import type { ClosingCosts, ScenarioState } from './types';
+
+// Land transfer taxes net of first-time buyer rebates, professional fees, the sales tax some
+// provinces charge on the default insurance premium (payable in cash; it cannot be financed)
+// and any discount points on the loan. Provincial taxes only apply in the Canadian market
+export const calculateClosingCosts = (scenario: ScenarioState, insurancePremium: number, loanAmount: number): ClosingCosts => {
+  const fees = scenario.legalFees + scenario.appraisalFee + scenario.inspectionFee + scenario.otherClosingCosts;
+  const points = loanAmount * scenario.points / 100;
+
+  if (!getMarket(scenario.market).landTransferTax) {
+    return {
+      provincialTax: 0,
+      municipalTax: 0,
+      firstTimeBuyerRebate: 0,
+      landTransferTax: 0,
+      fees,
+      insurancePst: 0,
+      points,
+      total: fees + points
+    };
+  }
+
+  const price = scenario.purchasePrice;
+  const province = getProvince(scenario.province);
+  const municipality = province.municipalities.find(m => m.value === scenario.municipality);
+
+  const provincialSchedule = municipality?.replacesProvincial ? municipality.schedule : province.schedule;
+  const municipalSchedule = municipality && !municipality.replacesProvincial ? municipality.schedule : undefined;
+
+  const provincialTax = calculateBracketTax(price, provincialSchedule);
+  const municipalTax = municipalSchedule ? calculateBracketTax(price, municipalSchedule) : 0;
+  const firstTimeBuyerRebate = scenario.firstTimeBuyer
+    ? calculateFirstTimeBuyerRebate(price, provincialTax, provincialSchedule.firstTimeBuyerRebate)
+      + (municipalSchedule ? calculateFirstTimeBuyerRebate(price, municipalTax, municipalSchedule.firstTimeBuyerRebate) : 0)
+    : 0;
+
+  const landTransferTax = provincialTax + municipalTax - firstTimeBuyerRebate;
+  const insurancePst = insurancePremium * province.insurancePstRate / 100;
+
+  return {
+    provincialTax,
+    municipalTax,
+    firstTimeBuyerRebate,
+    landTransferTax,
+    fees,
+    insurancePst,
+    points,
+    total: landTransferTax + fees + insurancePst + points
+  };
+};
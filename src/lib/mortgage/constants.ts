@@ -0,0 +1,267 @@
+import type {
+  ArmProduct,
+  CompoundingConvention,
+  GoalSeekMetric,
+  GoalSeekVariable,
+  InsurancePremiumTier,
+  MarketProfile,
+  PaymentFrequency,
+  PrepaymentPrivilege,
+  QualificationRules,
+  SelectOption,
+  SensitivityMetric,
+  SensitivityVariable
+} from './types';
+
+export const PAYMENT_FREQUENCIES: PaymentFrequency[] = [
+  { value: 'monthly', label: 'Monthly', paymentsPerYear: 12 },
+  { value: 'semi_monthly', label: 'Semi-Monthly', paymentsPerYear: 24 },
+  { value: 'biweekly', label: 'Bi-Weekly', paymentsPerYear: 26 },
+  { value: 'accelerated_biweekly', label: 'Accelerated Bi-Weekly', paymentsPerYear: 26 },
+  { value: 'weekly', label: 'Weekly', paymentsPerYear: 52 },
+  { value: 'accelerated_weekly', label: 'Accelerated Weekly', paymentsPerYear: 52 }
+];
+
+// Look up a payment frequency, falling back to monthly for unknown values
+export const getPaymentFrequency = (value: string): PaymentFrequency => {
+  return PAYMENT_FREQUENCIES.find(f => f.value === value) ?? PAYMENT_FREQUENCIES[0];
+};
+
+// Canadian fixed-rate mortgages compound semi-annually (Interest Act); variable products typically compound daily or monthly
+export const COMPOUNDING_CONVENTIONS: CompoundingConvention[] = [
+  { value: 'semi_annual', label: 'Semi-Annual (Fixed)', periodsPerYear: 2 },
+  { value: 'monthly', label: 'Monthly', periodsPerYear: 12 },
+  { value: 'daily', label: 'Daily (Variable)', periodsPerYear: 365 }
+];
+
+// Look up a compounding convention, falling back to semi-annual for unknown values
+export const getCompoundingConvention = (value: string): CompoundingConvention => {
+  return COMPOUNDING_CONVENTIONS.find(c => c.value === value) ?? COMPOUNDING_CONVENTIONS[0];
+};
+
+export const RATE_TYPES: SelectOption[] = [
+  { value: 'fixed', label: 'Fixed' },
+  { value: 'variable', label: 'Variable (Prime +/-)' }
+];
+
+// US adjustable-rate mortgages; a 5/1 is fixed for five years, then adjusts yearly
+export const ARM_PRODUCTS: ArmProduct[] = [
+  { value: '5_1', label: '5/1 ARM', fixedYears: 5, adjustmentMonths: 12 },
+  { value: '7_1', label: '7/1 ARM', fixedYears: 7, adjustmentMonths: 12 }
+];
+
+// Look up an ARM product, falling back to the 5/1 for unknown values
+export const getArmProduct = (value: string): ArmProduct => {
+  return ARM_PRODUCTS.find(product => product.value === value) ?? ARM_PRODUCTS[0];
+};
+
+// How a variable-rate mortgage responds to prime rate changes
+export const VARIABLE_PAYMENT_TYPES: SelectOption[] = [
+  { value: 'adjustable', label: 'Adjustable Payment' },
+  { value: 'fixed', label: 'Fixed Payment' }
+];
+
+// Mortgages that stop amortizing under a fixed payment are not projected past this many years
+export const MAX_AMORTIZATION_YEARS = 100;
+
+// Minimum down payment: 5% of the first $500,000 and 10% of the rest, or 20% from $1.5M (not insurable)
+export const MINIMUM_DOWN_PAYMENT_RULES = {
+  firstTierLimit: 500000,
+  firstTierRate: 5,
+  secondTierRate: 10,
+  uninsurablePrice: 1500000,
+  uninsurableRate: 20
+};
+
+// Default insurance premiums (CMHC, Sagen, Canada Guaranty) as a percent of the loan, by loan-to-value
+export const INSURANCE_PREMIUM_TIERS: InsurancePremiumTier[] = [
+  { maxLoanToValue: 65, premiumRate: 0.6 },
+  { maxLoanToValue: 75, premiumRate: 1.7 },
+  { maxLoanToValue: 80, premiumRate: 2.4 },
+  { maxLoanToValue: 85, premiumRate: 2.8 },
+  { maxLoanToValue: 90, premiumRate: 3.1 },
+  { maxLoanToValue: 95, premiumRate: 4.0 }
+];
+
+// Loans above this loan-to-value must be insured
+export const HIGH_RATIO_LOAN_TO_VALUE = 80;
+
+// Loan-to-values whose crossing is tracked: 80% for conventional refinancing, 65% for HELOC access
+export const LOAN_TO_VALUE_THRESHOLDS = [80, 65];
+
+// Added to the premium rate for amortizations longer than 25 years
+export const EXTENDED_AMORTIZATION_SURCHARGE = { minYears: 26, premiumRate: 0.2 };
+
+// Private mortgage insurance: required above 80% loan-to-value, cancellable on request at 80%
+// and ended automatically at 78% (Homeowners Protection Act); conventional loans need 3% down
+export const PMI_RULES = {
+  minimumDownPaymentRate: 3,
+  cancellationLoanToValue: 80,
+  terminationLoanToValue: 78
+};
+
+// Debt service limits and the OSFI B-20 / insured-mortgage stress test
+export const QUALIFICATION_RULES: QualificationRules = {
+  maxGds: 39,
+  maxTds: 44,
+  stressTestBuffer: 2,
+  minimumQualifyingRate: 5.25,
+  condoFeeShare: 50
+};
+
+// Conventional 28/36 front-end and back-end debt-to-income limits at the note rate
+export const US_QUALIFICATION_RULES: QualificationRules = {
+  maxGds: 28,
+  maxTds: 36,
+  stressTestBuffer: 0,
+  minimumQualifyingRate: 0,
+  condoFeeShare: 100
+};
+
+export const MARKETS: MarketProfile[] = [
+  {
+    value: 'CA',
+    label: 'Canada (CAD)',
+    locale: 'en-CA',
+    currency: 'CAD',
+    compounding: null,
+    fullLengthTerm: false,
+    maxAmortization: 30,
+    rateTypes: RATE_TYPES,
+    mortgageInsurance: 'default_insurance',
+    landTransferTax: true,
+    prepaymentPenalties: true,
+    qualification: QUALIFICATION_RULES,
+    labels: { qualification: 'Stress Test', housingRatio: 'GDS', totalRatio: 'TDS' }
+  },
+  {
+    value: 'US',
+    label: 'United States (USD)',
+    locale: 'en-US',
+    currency: 'USD',
+    compounding: 'monthly',
+    fullLengthTerm: true,
+    maxAmortization: 40,
+    rateTypes: [
+      { value: 'fixed', label: 'Fixed' },
+      { value: 'arm', label: 'Adjustable (ARM)' }
+    ],
+    mortgageInsurance: 'pmi',
+    landTransferTax: false,
+    prepaymentPenalties: false,
+    qualification: US_QUALIFICATION_RULES,
+    labels: { qualification: 'Qualification', housingRatio: 'Front-End DTI', totalRatio: 'Back-End DTI' }
+  }
+];
+
+// Look up a market, falling back to Canada for unknown values
+export const getMarket = (value: string): MarketProfile => {
+  return MARKETS.find(market => market.value === value) ?? MARKETS[0];
+};
+
+// Where money not used to prepay the mortgage is invested
+export const INVESTMENT_ACCOUNT_TYPES: SelectOption[] = [
+  { value: 'tfsa', label: 'TFSA' },
+  { value: 'rrsp', label: 'RRSP' },
+  { value: 'taxable', label: 'Non-registered (taxable)' }
+];
+
+// Share of a capital gain that is taxed in a non-registered account
+export const CAPITAL_GAINS_INCLUSION_RATE = 50;
+
+// Common lender privileges; the lump-sum limit is per mortgage year, as a share of the original principal
+export const PREPAYMENT_PRIVILEGES: PrepaymentPrivilege[] = [
+  { value: '10_10', label: '10% lump sum, 10% increase', lumpSumLimit: 10, paymentIncreaseLimit: 10 },
+  { value: '15_15', label: '15% lump sum, 15% increase', lumpSumLimit: 15, paymentIncreaseLimit: 15 },
+  { value: '15_100', label: '15% lump sum, 100% increase', lumpSumLimit: 15, paymentIncreaseLimit: 100 },
+  { value: '20_20', label: '20% lump sum, 20% increase', lumpSumLimit: 20, paymentIncreaseLimit: 20 },
+  { value: '20_100', label: '20% lump sum, 100% increase', lumpSumLimit: 20, paymentIncreaseLimit: 100 },
+  { value: 'open', label: 'Open (no limits)', lumpSumLimit: 100, paymentIncreaseLimit: 100 }
+];
+
+export const SENSITIVITY_METRICS: { value: SensitivityMetric; label: string }[] = [
+  { value: 'monthlyPayment', label: 'Monthly Payment' },
+  { value: 'totalInterestLifetime', label: 'Lifetime Interest' },
+  { value: 'balanceAtEndOfTerm', label: 'Balance at Term End' },
+  { value: 'effectiveAmortization', label: 'Payoff Years' }
+];
+
+// The amortization's upper limit is the scenario market's longest amortization, set by getSensitivityVariables
+export const SENSITIVITY_VARIABLES: SensitivityVariable[] = [
+  { field: 'interestRate', label: 'Interest Rate', unit: '%', min: 0, step: 0.5, tornadoDelta: 1 },
+  { field: 'primeRate', label: 'Prime Rate', unit: '%', min: 0, step: 0.5, tornadoDelta: 1 },
+  { field: 'amortizationPeriod', label: 'Amortization', unit: 'years', min: 5, step: 5, tornadoDelta: 5 },
+  { field: 'purchasePrice', label: 'Purchase Price', unit: '$', min: 0, step: 25000, tornadoDelta: 50000 },
+  { field: 'extraPayment', label: 'Extra Payment', unit: '$', min: 0, step: 100, tornadoDelta: 200 },
+  { field: 'paymentIncrease', label: 'Payment Increase', unit: '%', min: 0, step: 5, tornadoDelta: 10 },
+  { field: 'annualPrepayment', label: 'Annual Prepayment', unit: '%', min: 0, step: 5, tornadoDelta: 5 }
+];
+
+// Largest number of values along one side of the sensitivity grid
+export const MAX_SENSITIVITY_STEPS = 21;
+
+export const GOAL_SEEK_METRICS: { value: GoalSeekMetric; label: string; unit: '$' | '%' | 'years' }[] = [
+  { value: 'monthlyPayment', label: 'Monthly Payment', unit: '$' },
+  { value: 'totalMortgage', label: 'Total Mortgage', unit: '$' },
+  { value: 'totalInterestTerm', label: 'Interest Over Term', unit: '$' },
+  { value: 'totalInterestLifetime', label: 'Lifetime Interest', unit: '$' },
+  { value: 'balanceAtEndOfTerm', label: 'Balance at Term End', unit: '$' },
+  { value: 'effectiveAmortization', label: 'Payoff Years', unit: 'years' },
+  { value: 'totalCost', label: 'Total Cost', unit: '$' },
+  { value: 'cashRequired', label: 'Cash Required', unit: '$' },
+  { value: 'allInMonthlyCost', label: 'All-In Monthly Cost', unit: '$' },
+  { value: 'lifetimeOwnershipCost', label: 'Lifetime Ownership Cost', unit: '$' },
+  { value: 'insurancePremium', label: 'Insurance Premium', unit: '$' },
+  { value: 'closingCosts', label: 'Closing Costs', unit: '$' },
+  { value: 'prepaymentPenalty', label: 'Prepayment Penalty', unit: '$' },
+  { value: 'gds', label: 'Stress-Test GDS', unit: '%' },
+  { value: 'tds', label: 'Stress-Test TDS', unit: '%' }
+];
+
+// Every numeric scenario input, searched in whole units of its last decimal place
+export const GOAL_SEEK_VARIABLES: GoalSeekVariable[] = [
+  { field: 'purchasePrice', label: 'Purchase Price', unit: '$', min: 0, max: 10000000, decimals: 0 },
+  { field: 'downPayment', label: 'Down Payment', unit: '$', min: 0, max: 10000000, decimals: 0 },
+  { field: 'interestRate', label: 'Interest Rate', unit: '%', min: 0, max: 25, decimals: 2 },
+  { field: 'amortizationPeriod', label: 'Amortization', unit: 'years', min: 1, max: 40, decimals: 0 },
+  { field: 'term', label: 'Term', unit: 'years', min: 1, max: 10, decimals: 0 },
+  { field: 'extraPayment', label: 'Extra Payment', unit: '$', min: 0, max: 20000, decimals: 2 },
+  { field: 'paymentIncrease', label: 'Payment Increase', unit: '%', min: 0, max: 100, decimals: 2 },
+  { field: 'annualPrepayment', label: 'Annual Prepayment', unit: '%', min: 0, max: 100, decimals: 2 },
+  { field: 'lumpSumLimit', label: 'Lump-Sum Privilege', unit: '%', min: 0, max: 100, decimals: 2 },
+  { field: 'paymentIncreaseLimit', label: 'Payment Increase Privilege', unit: '%', min: 0, max: 100, decimals: 2 },
+  { field: 'primeRate', label: 'Prime Rate', unit: '%', min: 0, max: 25, decimals: 2 },
+  { field: 'primeSpread', label: 'Prime Spread', unit: '%', min: -5, max: 5, decimals: 2 },
+  { field: 'breakMonth', label: 'Break Month', unit: 'months', min: 0, max: 120, decimals: 0 },
+  { field: 'postedRate', label: 'Posted Rate', unit: '%', min: 0, max: 25, decimals: 2 },
+  { field: 'rateDiscount', label: 'Rate Discount', unit: '%', min: 0, max: 10, decimals: 2 },
+  { field: 'comparisonRate', label: 'Comparison Rate', unit: '%', min: 0, max: 25, decimals: 2 },
+  { field: 'armIndex', label: 'ARM Index', unit: '%', min: 0, max: 25, decimals: 2 },
+  { field: 'armMargin', label: 'ARM Margin', unit: '%', min: 0, max: 10, decimals: 2 },
+  { field: 'armInitialCap', label: 'ARM Initial Cap', unit: '%', min: 0, max: 10, decimals: 2 },
+  { field: 'armPeriodicCap', label: 'ARM Periodic Cap', unit: '%', min: 0, max: 10, decimals: 2 },
+  { field: 'armLifetimeCap', label: 'ARM Lifetime Cap', unit: '%', min: 0, max: 15, decimals: 2 },
+  { field: 'pmiRate', label: 'PMI Rate', unit: '%', min: 0, max: 5, decimals: 2 },
+  { field: 'points', label: 'Discount Points', unit: '%', min: 0, max: 10, decimals: 3 },
+  { field: 'legalFees', label: 'Legal Fees', unit: '$', min: 0, max: 100000, decimals: 0 },
+  { field: 'appraisalFee', label: 'Appraisal Fee', unit: '$', min: 0, max: 100000, decimals: 0 },
+  { field: 'inspectionFee', label: 'Inspection Fee', unit: '$', min: 0, max: 100000, decimals: 0 },
+  { field: 'otherClosingCosts', label: 'Other Closing Costs', unit: '$', min: 0, max: 100000, decimals: 0 },
+  { field: 'propertyTax', label: 'Property Tax', unit: '$', min: 0, max: 100000, decimals: 0 },
+  { field: 'condoFees', label: 'Condo Fees', unit: '$', min: 0, max: 10000, decimals: 0 },
+  { field: 'homeInsurance', label: 'Home Insurance', unit: '$', min: 0, max: 10000, decimals: 0 },
+  { field: 'utilities', label: 'Utilities', unit: '$', min: 0, max: 10000, decimals: 0 },
+  { field: 'maintenance', label: 'Maintenance', unit: '%', min: 0, max: 10, decimals: 2 },
+  { field: 'propertyTaxEscalation', label: 'Property Tax Escalation', unit: '%', min: 0, max: 20, decimals: 2 },
+  { field: 'condoFeesEscalation', label: 'Condo Fee Escalation', unit: '%', min: 0, max: 20, decimals: 2 },
+  { field: 'homeInsuranceEscalation', label: 'Home Insurance Escalation', unit: '%', min: 0, max: 20, decimals: 2 },
+  { field: 'utilitiesEscalation', label: 'Utilities Escalation', unit: '%', min: 0, max: 20, decimals: 2 },
+  { field: 'maintenanceEscalation', label: 'Maintenance Escalation', unit: '%', min: 0, max: 20, decimals: 2 },
+  { field: 'appreciationRate', label: 'Appreciation Rate', unit: '%', min: -10, max: 20, decimals: 2 }
+];
+
+// Evenly spaced values checked for a crossing before narrowing it down
+export const GOAL_SEEK_SAMPLES = 40;
+
+// Most rate paths in one simulation run
+export const MAX_SIMULATIONS = 10000;
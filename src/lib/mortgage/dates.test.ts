@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, addMonths, addPaymentPeriods, daysBetween } from './dates';
+
+describe('addMonths', () => {
+  it('keeps the day of the month', () => {
+    expect(addMonths('2025-01-15', 1)).toBe('2025-02-15');
+    expect(addMonths('2025-11-15', 3)).toBe('2026-02-15');
+  });
+
+  it('clamps to the end of shorter months', () => {
+    expect(addMonths('2025-01-31', 1)).toBe('2025-02-28');
+    expect(addMonths('2024-01-31', 1)).toBe('2024-02-29');
+    expect(addMonths('2025-01-31', 2)).toBe('2025-03-31');
+  });
+});
+
+describe('addDays', () => {
+  it('crosses month and year boundaries', () => {
+    expect(addDays('2025-12-25', 14)).toBe('2026-01-08');
+  });
+});
+
+describe('daysBetween', () => {
+  it('counts calendar days in either direction', () => {
+    expect(daysBetween('2025-01-15', '2025-02-01')).toBe(17);
+    expect(daysBetween('2024-02-01', '2024-03-01')).toBe(29);
+    expect(daysBetween('2025-02-01', '2025-01-15')).toBe(-17);
+  });
+});
+
+describe('addPaymentPeriods', () => {
+  it('steps by calendar months, fortnights or weeks', () => {
+    expect(addPaymentPeriods('2025-03-01', 12, 12)).toBe('2026-03-01');
+    expect(addPaymentPeriods('2025-03-01', 26, 2)).toBe('2025-03-29');
+    expect(addPaymentPeriods('2025-03-01', 52, 1)).toBe('2025-03-08');
+  });
+
+  it('pays semi-monthly on the day and 15 days later', () => {
+    expect(addPaymentPeriods('2025-01-01', 24, 1)).toBe('2025-01-16');
+    expect(addPaymentPeriods('2025-01-01', 24, 2)).toBe('2025-02-01');
+    expect(addPaymentPeriods('2025-01-01', 24, 24)).toBe('2026-01-01');
+  });
+
+  it('counts back with negative periods', () => {
+    expect(addPaymentPeriods('2025-03-01', 12, -1)).toBe('2025-02-01');
+    expect(addPaymentPeriods('2025-03-01', 26, -1)).toBe('2025-02-15');
+    expect(addPaymentPeriods('2025-02-01', 24, -1)).toBe('2025-01-16');
+  });
+});
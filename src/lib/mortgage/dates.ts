@@ -0,0 +1,51 @@
+// Dates are exchanged as ISO strings (yyyy-mm-dd) and computed in UTC so time zones never shift a day
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const parseISODate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+export const formatISODate = (date: Date) => {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// Today's date in the local time zone
+export const todayISODate = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+// Add whole months, clamping to the end of shorter months (Jan 31 + 1 month = Feb 28/29)
+export const addMonths = (value: string, months: number) => {
+  const date = parseISODate(value);
+  const targetMonth = date.getUTCMonth() + months;
+  const lastDayOfTarget = new Date(Date.UTC(date.getUTCFullYear(), targetMonth + 1, 0)).getUTCDate();
+  return formatISODate(new Date(Date.UTC(date.getUTCFullYear(), targetMonth, Math.min(date.getUTCDate(), lastDayOfTarget))));
+};
+
+export const addDays = (value: string, days: number) => {
+  return formatISODate(new Date(parseISODate(value).getTime() + days * MS_PER_DAY));
+};
+
+// Whole days from one date to another, negative when `to` is earlier
+export const daysBetween = (from: string, to: string) => {
+  return Math.round((parseISODate(to).getTime() - parseISODate(from).getTime()) / MS_PER_DAY);
+};
+
+// Date of the nth payment after the start date; negative periods count back
+// Monthly payments fall on the same day of the month, semi-monthly ones on that day and 15 days later,
+// and weekly and bi-weekly payments every 7 or 14 days, so some years hold 53 or 27 of them
+export const addPaymentPeriods = (startDate: string, paymentsPerYear: number, periods: number) => {
+  if (paymentsPerYear === 12) {
+    return addMonths(startDate, periods);
+  }
+  if (paymentsPerYear === 24) {
+    const months = Math.floor(periods / 2);
+    return addDays(addMonths(startDate, months), (periods - months * 2) * 15);
+  }
+  return addDays(startDate, Math.round(periods * 364 / paymentsPerYear));
+};
@@ -0,0 +1,119 @@
+import type {
+  BorrowerProfile,
+  EconomicAssumptions,
+  MonteCarloInputs,
+  PrepayVsInvestInputs,
+  RefinanceInputs,
+  RentVsBuyInputs,
+  ScenarioState
+} from './types';
+
+// Inputs for a new scenario; also fills any field missing from restored state
+export const DEFAULT_SCENARIO_INPUTS: ScenarioState = {
+  market: 'CA',
+  purchasePrice: 500000,
+  downPayment: 100000,
+  downPaymentType: 'amount',
+  interestRate: 5.5,
+  compounding: 'semi_annual',
+  amortizationPeriod: 25,
+  term: 5,
+  paymentFrequency: 'monthly',
+  startDate: '',
+  firstPaymentDate: '',
+  extraPayment: 0,
+  paymentIncrease: 0,
+  annualPrepayment: 0,
+  lumpSums: [],
+  lumpSumLimit: 100,
+  paymentIncreaseLimit: 100,
+  renewals: [],
+  rateType: 'fixed',
+  primeRate: 4.45,
+  primeSpread: -0.5,
+  variablePayment: 'adjustable',
+  primeRateChanges: [],
+  breakMonth: 0,
+  postedRate: 6.5,
+  rateDiscount: 1.5,
+  comparisonRate: 5,
+  armProduct: '5_1',
+  armIndex: 4.3,
+  armMargin: 2.75,
+  armInitialCap: 2,
+  armPeriodicCap: 2,
+  armLifetimeCap: 5,
+  pmiRate: 0.5,
+  pmiCancelOnRequest: false,
+  points: 0,
+  province: 'ON',
+  municipality: '',
+  firstTimeBuyer: false,
+  legalFees: 1500,
+  appraisalFee: 400,
+  inspectionFee: 500,
+  otherClosingCosts: 0,
+  propertyTax: 0,
+  propertyTaxType: 'percent',
+  condoFees: 0,
+  homeInsurance: 0,
+  utilities: 0,
+  maintenance: 0,
+  propertyTaxEscalation: 0,
+  condoFeesEscalation: 0,
+  homeInsuranceEscalation: 0,
+  utilitiesEscalation: 0,
+  maintenanceEscalation: 0,
+  appreciationRate: 3,
+  homeValues: []
+};
+
+export const DEFAULT_BORROWER: BorrowerProfile = {
+  annualIncome: 150000,
+  heating: 100,
+  otherDebts: 0
+};
+
+export const DEFAULT_ECONOMICS: EconomicAssumptions = {
+  discountRate: 5,
+  inflationRate: 2.5
+};
+
+export const DEFAULT_RENT_VS_BUY: RentVsBuyInputs = {
+  monthlyRent: 2500,
+  rentInflation: 3,
+  investmentReturn: 5,
+  horizonYears: 25
+};
+
+export const DEFAULT_PREPAY_VS_INVEST: PrepayVsInvestInputs = {
+  accountType: 'tfsa',
+  investmentReturn: 6,
+  marginalTaxRate: 30,
+  retirementTaxRate: 30
+};
+
+export const DEFAULT_REFINANCE: RefinanceInputs = {
+  balance: 400000,
+  currentRate: 6,
+  remainingAmortization: 22,
+  remainingTermMonths: 30,
+  rateDiscount: 1.5,
+  comparisonRate: 6.5,
+  renewalRate: 4.5,
+  newRate: 4.5,
+  newAmortization: 22,
+  legalFees: 1000,
+  dischargeFee: 300,
+  cashOut: 0,
+  financeCosts: true
+};
+
+export const DEFAULT_MONTE_CARLO: MonteCarloInputs = {
+  simulations: 1000,
+  seed: 1,
+  longRunRate: 5,
+  reversionSpeed: 0.3,
+  volatility: 1,
+  drift: 0
+};
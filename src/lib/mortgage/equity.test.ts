@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { calculateEquity, getHomeValue } from './equity';
+import type { AmortizationItem } from './types';
+
+// Straight-line paydown of a $400,000 loan over 20 years
+const schedule: AmortizationItem[] = Array.from({ length: 20 }, (_, index) => ({
+  year: index + 1,
+  principalPaid: 20000,
+  interestPaid: 0,
+  extraPayments: 0,
+  endingBalance: 400000 - 20000 * (index + 1)
+}));
+
+describe('getHomeValue', () => {
+  const anchors = [
+    { date: '2025-01-01', value: 500000 },
+    { date: '2027-01-01', value: 605000 }
+  ];
+
+  it('grows steadily between expected values and at the appreciation rate after the last one', () => {
+    expect(getHomeValue(anchors, 3, '2025-01-01')).toBe(500000);
+    expect(getHomeValue(anchors, 3, '2026-01-01')).toBeCloseTo(550000, 6);
+    expect(getHomeValue(anchors, 3, '2027-01-01')).toBeCloseTo(605000, 6);
+    expect(getHomeValue(anchors, 3, '2028-01-01')).toBeCloseTo(605000 * 1.03, 6);
+  });
+
+  it('holds the first value before it', () => {
+    expect(getHomeValue(anchors, 3, '2024-06-01')).toBe(500000);
+  });
+});
+
+describe('calculateEquity', () => {
+  it('tracks value, equity and loan-to-value at each year end', () => {
+    const { years } = calculateEquity(500000, 400000, 0, [], '2025-01-01', schedule);
+
+    expect(years).toHaveLength(20);
+    expect(years[0]).toEqual({ year: 1, date: '2026-01-01', homeValue: 500000, balance: 380000, equity: 120000, loanToValue: 76 });
+    expect(years[19].equity).toBe(500000);
+  });
+
+  it('finds the first year at or below each loan-to-value threshold', () => {
+    const flat = calculateEquity(500000, 400000, 0, [], '2025-01-01', schedule);
+    const rising = calculateEquity(500000, 450000, 5, [], '2025-01-01', schedule);
+
+    // 80% from the start; 65% once the balance reaches $325,000
+    expect(flat.crossings).toEqual([
+      { loanToValue: 80, year: 0, date: '2025-01-01' },
+      { loanToValue: 65, year: 4, date: '2029-01-01' }
+    ]);
+    expect(rising.crossings[0].year).toBe(1);
+    expect(rising.crossings[1].year).toBe(3);
+  });
+
+  it('uses dated expected values and ignores any before the start', () => {
+    const { years, crossings } = calculateEquity(500000, 400000, 0, [
+      { date: '2027-01-01', value: 400000 },
+      { date: '2020-01-01', value: 900000 }
+    ], '2025-01-01', schedule);
+
+    expect(years[1].homeValue).toBeCloseTo(400000, 6);
+    expect(years[5].homeValue).toBeCloseTo(400000, 6);
+    expect(crossings[0].year).toBe(0);
+    expect(crossings[1].year).toBe(7);
+  });
+
+  it('reports no crossing when the loan never gets there', () => {
+    const { crossings } = calculateEquity(500000, 480000, -10, [], '2025-01-01', schedule.slice(0, 2));
+    expect(crossings.map(crossing => crossing.year)).toEqual([null, null]);
+  });
+});
@@ -0,0 +1,62 @@
+import { LOAN_TO_VALUE_THRESHOLDS } from './constants';
+import { addMonths } from './dates';
+import { getYearsBetween } from './present-value';
+import type { AmortizationItem, EquityProjection, HomeValue } from './types';
+
+// Market value on `date`: expected values are joined by steady growth between them, and the value grows at the
+// appreciation rate (% per year) after the last one. `anchors` starts with the purchase and is sorted by date
+export const getHomeValue = (anchors: HomeValue[], appreciationRate: number, date: string) => {
+  const nextIndex = anchors.findIndex(anchor => anchor.date > date);
+  if (nextIndex === 0) return anchors[0].value;
+
+  const previous = anchors[nextIndex === -1 ? anchors.length - 1 : nextIndex - 1];
+  if (nextIndex === -1) {
+    return previous.value * Math.pow(1 + appreciationRate / 100, getYearsBetween(previous.date, date));
+  }
+
+  const next = anchors[nextIndex];
+  const share = getYearsBetween(previous.date, date) / getYearsBetween(previous.date, next.date);
+  return previous.value > 0 ? previous.value * Math.pow(next.value / previous.value, share) : next.value * share;
+};
+
+// The purchase followed by the expected values after `startDate`, sorted by date
+export const getHomeValueAnchors = (purchasePrice: number, homeValues: HomeValue[], startDate: string): HomeValue[] => [
+  { date: startDate, value: purchasePrice },
+  ...homeValues.filter(homeValue => homeValue.date > startDate).sort((a, b) => a.date.localeCompare(b.date))
+];
+
+// Home value, equity and loan-to-value at the end of each mortgage year, and the first year the loan-to-value
+// is at or below each threshold (0 when it already is at the start, null when it never gets there)
+export const calculateEquity = (
+  purchasePrice: number,
+  mortgageAmount: number,
+  appreciationRate: number,
+  homeValues: HomeValue[],
+  startDate: string,
+  schedule: AmortizationItem[]
+): EquityProjection => {
+  const anchors = getHomeValueAnchors(purchasePrice, homeValues, startDate);
+  const getLoanToValue = (balance: number, homeValue: number) => (homeValue > 0 ? balance / homeValue * 100 : 0);
+
+  const years = schedule.map(item => {
+    const date = addMonths(startDate, 12 * item.year);
+    const homeValue = getHomeValue(anchors, appreciationRate, date);
+    return {
+      year: item.year,
+      date,
+      homeValue,
+      balance: item.endingBalance,
+      equity: homeValue - item.endingBalance,
+      loanToValue: getLoanToValue(item.endingBalance, homeValue)
+    };
+  });
+
+  const startingLoanToValue = getLoanToValue(mortgageAmount, purchasePrice);
+  const crossings = LOAN_TO_VALUE_THRESHOLDS.map(loanToValue => {
+    if (startingLoanToValue <= loanToValue) return { loanToValue, year: 0, date: startDate };
+    const crossing = years.find(year => year.loanToValue <= loanToValue);
+    return { loanToValue, year: crossing?.year ?? null, date: crossing?.date ?? null };
+  });
+
+  return { years, crossings };
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMortgage } from './calculate';
+import { GOAL_SEEK_VARIABLES } from './constants';
+import { DEFAULT_BORROWER, DEFAULT_SCENARIO_INPUTS } from './defaults';
+import { getGoalSeekMetricValue, getGoalSeekVariable, getGoalSeekVariables, solveGoalSeek } from './goal-seek';
+import type { GoalSeekMetric, ScenarioState } from './types';
+
+const options = { startDate: '2025-01-15' };
+
+const evaluate = (scenario: ScenarioState, metric: GoalSeekMetric) => {
+  return getGoalSeekMetricValue(calculateMortgage(scenario, { ...options, borrower: DEFAULT_BORROWER }), metric);
+};
+
+describe('getGoalSeekVariable', () => {
+  it('covers every numeric scenario input', () => {
+    const numericFields = Object.keys(DEFAULT_SCENARIO_INPUTS)
+      .filter(key => typeof DEFAULT_SCENARIO_INPUTS[key as keyof ScenarioState] === 'number');
+    expect(GOAL_SEEK_VARIABLES.map(variable => variable.field).sort()).toEqual(numericFields.sort());
+  });
+
+  it('limits the down payment and break month to the scenario', () => {
+    expect(getGoalSeekVariable(DEFAULT_SCENARIO_INPUTS, 'downPayment')).toMatchObject({ unit: '$', max: 500000 });
+    expect(getGoalSeekVariable({ ...DEFAULT_SCENARIO_INPUTS, downPaymentType: 'percent', downPayment: 20 }, 'downPayment'))
+      .toMatchObject({ unit: '%', max: 100, decimals: 2 });
+    expect(getGoalSeekVariable(DEFAULT_SCENARIO_INPUTS, 'breakMonth')).toMatchObject({ max: 60 });
+  });
+
+  it('caps the amortization at the longest the market allows', () => {
+    expect(getGoalSeekVariable({ ...DEFAULT_SCENARIO_INPUTS, market: 'CA' }, 'amortizationPeriod')).toMatchObject({ max: 30 });
+    expect(getGoalSeekVariable({ ...DEFAULT_SCENARIO_INPUTS, market: 'US' }, 'amortizationPeriod')).toMatchObject({ max: 40 });
+
+    // Stretching the amortization cannot bring a Canadian payment below its 30-year level
+    const payment = evaluate({ ...DEFAULT_SCENARIO_INPUTS, amortizationPeriod: 30 }, 'monthlyPayment');
+    const { solved, value } = solveGoalSeek(DEFAULT_SCENARIO_INPUTS, 'amortizationPeriod', 'monthlyPayment', payment - 50, options);
+    expect(solved).toBe(false);
+    expect(value).toBeLessThanOrEqual(30);
+  });
+
+  it('offers the term only where it changes the results', () => {
+    const getFields = (scenario: ScenarioState) => getGoalSeekVariables(scenario).map(variable => variable.field);
+
+    expect(getFields(DEFAULT_SCENARIO_INPUTS)).toContain('term');
+    expect(getFields({ ...DEFAULT_SCENARIO_INPUTS, rateType: 'arm' })).not.toContain('term');
+    expect(getFields({ ...DEFAULT_SCENARIO_INPUTS, market: 'US' })).not.toContain('term');
+  });
+});
+
+describe('solveGoalSeek', () => {
+  it('finds the most house a payment affords', () => {
+    const { solved, value, metricValue } = solveGoalSeek(DEFAULT_SCENARIO_INPUTS, 'purchasePrice', 'monthlyPayment', 3000, options);
+    expect(solved).toBe(true);
+    expect(metricValue).toBeLessThanOrEqual(3000);
+    expect(metricValue).toBeGreaterThan(2990);
+    expect(evaluate({ ...DEFAULT_SCENARIO_INPUTS, purchasePrice: value + 1 }, 'monthlyPayment')).toBeGreaterThan(3000);
+  });
+
+  it('finds the smallest extra payment that pays off within a target', () => {
+    const { solved, value, metricValue } = solveGoalSeek(DEFAULT_SCENARIO_INPUTS, 'extraPayment', 'effectiveAmortization', 15, options);
+    expect(solved).toBe(true);
+    expect(metricValue).toBeLessThanOrEqual(15);
+    expect(evaluate({ ...DEFAULT_SCENARIO_INPUTS, extraPayment: value - 0.01 }, 'effectiveAmortization')).toBeGreaterThan(15);
+  });
+
+  it('finds the rate at which one scenario matches another', () => {
+    const target = evaluate(DEFAULT_SCENARIO_INPUTS, 'totalCost');
+    const shorter = { ...DEFAULT_SCENARIO_INPUTS, amortizationPeriod: 20 };
+    const { solved, value, metricValue } = solveGoalSeek(shorter, 'interestRate', 'totalCost', target, options);
+    expect(solved).toBe(true);
+    expect(value).toBeGreaterThan(DEFAULT_SCENARIO_INPUTS.interestRate);
+    expect(metricValue).toBeLessThanOrEqual(target);
+    expect(evaluate({ ...shorter, interestRate: value + 0.01 }, 'totalCost')).toBeGreaterThan(target);
+  });
+
+  it('solves nested metrics with the borrower given', () => {
+    const { solved, metricValue } = solveGoalSeek(
+      DEFAULT_SCENARIO_INPUTS, 'purchasePrice', 'gds', 39, { ...options, borrower: DEFAULT_BORROWER }
+    );
+    expect(solved).toBe(true);
+    expect(metricValue).toBeCloseTo(39, 1);
+  });
+
+  it('reports the closest value when the target is out of reach', () => {
+    expect(solveGoalSeek(DEFAULT_SCENARIO_INPUTS, 'interestRate', 'monthlyPayment', 100, options))
+      .toMatchObject({ solved: false, value: 0 });
+    expect(solveGoalSeek(DEFAULT_SCENARIO_INPUTS, 'purchasePrice', 'gds', 30, options))
+      .toMatchObject({ solved: false, value: DEFAULT_SCENARIO_INPUTS.purchasePrice });
+  });
+});
@@ -0,0 +1,117 @@
+import { calculateMortgage } from './calculate';
+import { getMarket, GOAL_SEEK_SAMPLES, GOAL_SEEK_VARIABLES } from './constants';
+import type {
+  CalculationOptions,
+  GoalSeekMetric,
+  GoalSeekResult,
+  GoalSeekVariable,
+  MortgageResult,
+  NumericScenarioField,
+  ScenarioState
+} from './types';
+
+export const getGoalSeekMetricValue = (result: MortgageResult, metric: GoalSeekMetric) => {
+  switch (metric) {
+    case 'insurancePremium':
+      return result.insurance.premium;
+    case 'closingCosts':
+      return result.closingCosts.total;
+    case 'prepaymentPenalty':
+      return result.prepaymentPenalty?.penalty ?? 0;
+    case 'gds':
+      return result.qualification?.stressTest.gds ?? NaN;
+    case 'tds':
+      return result.qualification?.stressTest.tds ?? NaN;
+    default:
+      return result[metric];
+  }
+};
+
+// Inputs that change the scenario's results: the term does nothing for an ARM or in a market where the
+// rate is held for the whole amortization
+export const getGoalSeekVariables = (scenario: ScenarioState) => {
+  const hasTerm = scenario.rateType !== 'arm' && !getMarket(scenario.market).fullLengthTerm;
+  return hasTerm ? GOAL_SEEK_VARIABLES : GOAL_SEEK_VARIABLES.filter(variable => variable.field !== 'term');
+};
+
+// Search range for the scenario as entered: a percentage down payment stays within 0-100 and
+// an amount within the price, a percentage property tax within 0-10, a break month within the term
+// and an amortization within the longest the market allows
+export const getGoalSeekVariable = (scenario: ScenarioState, field: NumericScenarioField): GoalSeekVariable => {
+  const variable = GOAL_SEEK_VARIABLES.find(item => item.field === field) ?? GOAL_SEEK_VARIABLES[0];
+  if (field === 'downPayment') {
+    return scenario.downPaymentType === 'percent'
+      ? { ...variable, unit: '%', max: 100, decimals: 2 }
+      : { ...variable, max: scenario.purchasePrice };
+  }
+  if (field === 'propertyTax' && scenario.propertyTaxType === 'percent') {
+    return { ...variable, unit: '%', max: 10, decimals: 2 };
+  }
+  if (field === 'breakMonth') return { ...variable, max: scenario.term * 12 };
+  if (field === 'amortizationPeriod') {
+    return { ...variable, max: Math.min(variable.max, getMarket(scenario.market).maxAmortization) };
+  }
+  return variable;
+};
+
+// Solve for the value of one input that brings a result metric to the target. The range is sampled
+// for crossings, the one nearest the current value is narrowed down by bisection, and the answer is
+// the value next to the crossing on the side where the metric does not exceed the target, so a stepped
+// metric such as payoff years gives the smallest extra payment that reaches it rather than any value on the step
+export const solveGoalSeek = (
+  scenario: ScenarioState,
+  field: NumericScenarioField,
+  metric: GoalSeekMetric,
+  target: number,
+  options: CalculationOptions = {}
+): GoalSeekResult => {
+  const { min, max, decimals } = getGoalSeekVariable(scenario, field);
+  const scale = Math.pow(10, decimals);
+  const toValue = (units: number) => units / scale;
+
+  // Inputs are searched as whole units of their precision so the answer needs no rounding
+  const gaps = new Map<number, number>();
+  const getGap = (units: number) => {
+    if (!gaps.has(units)) {
+      const result = calculateMortgage({ ...scenario, [field]: toValue(units) }, options);
+      gaps.set(units, getGoalSeekMetricValue(result, metric) - target);
+    }
+    return gaps.get(units) ?? NaN;
+  };
+  const toResult = (units: number, solved: boolean): GoalSeekResult => ({
+    solved,
+    value: toValue(units),
+    metricValue: getGap(units) + target
+  });
+
+  const low = Math.ceil(min * scale);
+  const high = Math.max(Math.floor(max * scale), low);
+  const samples = [...new Set(Array.from(
+    { length: GOAL_SEEK_SAMPLES + 1 },
+    (_, index) => Math.round(low + ((high - low) * index) / GOAL_SEEK_SAMPLES)
+  ))];
+
+  const current = scenario[field] * scale;
+  const byDistance = (a: number, b: number) => Math.abs(a - current) - Math.abs(b - current);
+
+  const isWithin = (units: number) => getGap(units) <= 0;
+  const brackets = samples.slice(1)
+    .map((units, index) => [samples[index], units])
+    .filter(([a, b]) => [a, b].every(units => Number.isFinite(getGap(units))) && isWithin(a) !== isWithin(b))
+    .sort((a, b) => byDistance((a[0] + a[1]) / 2, (b[0] + b[1]) / 2));
+
+  if (!brackets.length) {
+    const reachable = samples.filter(units => Number.isFinite(getGap(units)));
+    if (!reachable.length) return { solved: false, value: scenario[field], metricValue: NaN };
+    const closest = reachable.reduce((best, units) => (Math.abs(getGap(units)) < Math.abs(getGap(best)) ? units : best));
+    return toResult(closest, getGap(closest) === 0);
+  }
+
+  let [a, b] = brackets[0];
+  while (b - a > 1) {
+    const middle = Math.floor((a + b) / 2);
+    if (isWithin(middle) === isWithin(a)) a = middle;
+    else b = middle;
+  }
+  return toResult(isWithin(a) ? a : b, true);
+};
@@ -0,0 +1,25 @@
+export * from './types';
+export * from './constants';
+export * from './defaults';
+export * from './rates';
+export * from './dates';
+export * from './present-value';
+export * from './payments';
+export * from './insurance';
+export * from './qualification';
+export * from './penalty';
+export * from './land-transfer-tax';
+export * from './closing-costs';
+export * from './ownership';
+export * from './equity';
+export * from './arm';
+export * from './schedule';
+export * from './calculate';
+export * from './market';
+export * from './chart-data';
+export * from './rent-vs-buy';
+export * from './prepay-vs-invest';
+export * from './refinance';
+export * from './sensitivity';
+export * from './goal-seek';
+export * from './monte-carlo';
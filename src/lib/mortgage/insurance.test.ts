@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { addMonths } from './dates';
+import {
+  calculateMortgageInsurance,
+  calculatePrivateMortgageInsurance,
+  getInsurancePremiumRate,
+  getMinimumDownPayment
+} from './insurance';
+import type { AmortizationPayment } from './types';
+
+describe('getMinimumDownPayment', () => {
+  it.each([
+    [400000, 20000],
+    [500000, 25000],
+    [800000, 55000],
+    [1499999, 124999.9],
+    [1500000, 300000],
+    [2000000, 400000]
+  ])('requires the tiered minimum on a %d purchase', (purchasePrice, minimum) => {
+    expect(getMinimumDownPayment(purchasePrice)).toBeCloseTo(minimum, 6);
+  });
+
+  it('requires 3% down at any price in the US market', () => {
+    expect(getMinimumDownPayment(2000000, 'US')).toBe(60000);
+  });
+});
+
+describe('getInsurancePremiumRate', () => {
+  it('looks up the tier containing the loan-to-value', () => {
+    expect(getInsurancePremiumRate(65)).toBe(0.6);
+    expect(getInsurancePremiumRate(80.01)).toBe(2.8);
+    expect(getInsurancePremiumRate(95)).toBe(4);
+    expect(getInsurancePremiumRate(95.01)).toBeNull();
+  });
+});
+
+describe('calculateMortgageInsurance', () => {
+  it.each([
+    [25000, 4.0],
+    [50000, 3.1],
+    [75000, 2.8]
+  ])('charges the high-ratio premium with %d down on a $500,000 purchase', (downPayment, premiumRate) => {
+    const insurance = calculateMortgageInsurance(500000, downPayment, 25);
+
+    expect(insurance.required).toBe(true);
+    expect(insurance.premiumRate).toBe(premiumRate);
+    expect(insurance.premium).toBeCloseTo((500000 - downPayment) * premiumRate / 100, 6);
+  });
+
+  it('does not insure a conventional loan with 20% down', () => {
+    const insurance = calculateMortgageInsurance(637499, 637499 * 0.2, 25);
+
+    expect(insurance.loanToValue).toBe(80);
+    expect(insurance.required).toBe(false);
+    expect(insurance.premium).toBe(0);
+  });
+
+  it('adds the surcharge for amortizations over 25 years', () => {
+    const insurance = calculateMortgageInsurance(500000, 25000, 30);
+
+    expect(insurance.premiumRate).toBeCloseTo(4.2, 10);
+    expect(insurance.premium).toBeCloseTo(19950, 6);
+  });
+
+  it('flags a down payment below the minimum and prices no premium', () => {
+    const insurance = calculateMortgageInsurance(800000, 40000, 25);
+
+    expect(insurance.meetsMinimumDownPayment).toBe(false);
+    expect(insurance.minimumDownPayment).toBe(55000);
+    expect(insurance.premium).toBe(0);
+  });
+});
+
+describe('calculateMortgageInsurance in the US market', () => {
+  it('requires PMI above 80% loan-to-value but adds no premium to the loan', () => {
+    const insurance = calculateMortgageInsurance(500000, 25000, 30, 'US');
+
+    expect(insurance.required).toBe(true);
+    expect(insurance.meetsMinimumDownPayment).toBe(true);
+    expect(insurance.premium).toBe(0);
+  });
+});
+
+describe('calculatePrivateMortgageInsurance', () => {
+  // $1,000 of principal a month off a $90,000 loan on a $100,000 home
+  const payments = Array.from({ length: 90 }, (_, index) => ({
+    date: addMonths('2025-01-15', index + 1),
+    balance: 89000 - index * 1000
+  })) as AmortizationPayment[];
+
+  it('charges premiums up to the payment that reaches 78%', () => {
+    const pmi = calculatePrivateMortgageInsurance(90000, 100000, 0.5, false, payments, '2025-01-15');
+
+    expect(pmi.monthlyPremium).toBeCloseTo(37.5, 6);
+    expect(pmi.cancellationDate).toBe('2025-11-15');
+    expect(pmi.terminationDate).toBe('2026-01-15');
+    expect(pmi.months).toBe(12);
+    expect(pmi.totalPaid).toBeCloseTo(450, 6);
+  });
+
+  it('stops at 80% when the borrower asks to cancel', () => {
+    expect(calculatePrivateMortgageInsurance(90000, 100000, 0.5, true, payments, '2025-01-15').months).toBe(10);
+  });
+
+  it('runs to the last payment when the balance never gets there', () => {
+    const pmi = calculatePrivateMortgageInsurance(90000, 100000, 0.5, false, payments.slice(0, 6), '2025-01-15');
+
+    expect(pmi.terminationDate).toBeNull();
+    expect(pmi.months).toBe(6);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  EXTENDED_AMORTIZATION_SURCHARGE,
+  HIGH_RATIO_LOAN_TO_VALUE,
+  INSURANCE_PREMIUM_TIERS,
+  MINIMUM_DOWN_PAYMENT_RULES,
+  PMI_RULES,
+  getMarket
+} from './constants';
+import { addMonths } from './dates';
+import type { AmortizationPayment, MortgageInsurance, PrivateMortgageInsurance } from './types';
+
+// Smallest down payment a lender may accept for the purchase price
+export const getMinimumDownPayment = (purchasePrice: number, market = 'CA') => {
+  if (getMarket(market).mortgageInsurance === 'pmi') {
+    return purchasePrice * PMI_RULES.minimumDownPaymentRate / 100;
+  }
+
+  const rules = MINIMUM_DOWN_PAYMENT_RULES;
+
+  if (purchasePrice >= rules.uninsurablePrice) {
+    return purchasePrice * rules.uninsurableRate / 100;
+  }
+
+  const firstTier = Math.min(purchasePrice, rules.firstTierLimit);
+  const secondTier = Math.max(purchasePrice - rules.firstTierLimit, 0);
+  return firstTier * rules.firstTierRate / 100 + secondTier * rules.secondTierRate / 100;
+};
+
+// Premium rate for a loan-to-value, or null when it is above the highest insurable tier
+export const getInsurancePremiumRate = (loanToValue: number) => {
+  return INSURANCE_PREMIUM_TIERS.find(tier => loanToValue <= tier.maxLoanToValue)?.premiumRate ?? null;
+};
+
+// Check the down payment and price the default insurance a high-ratio loan needs
+// The premium is financed, so it is charged on the loan before it is added. Where the market uses PMI
+// nothing is added to the loan; the monthly premium is priced by calculatePrivateMortgageInsurance
+export const calculateMortgageInsurance = (
+  purchasePrice: number,
+  downPayment: number,
+  amortizationYears: number,
+  market = 'CA'
+): MortgageInsurance => {
+  const loanAmount = Math.max(purchasePrice - downPayment, 0);
+  // Rounded so a down payment of exactly 20% is not pushed over a tier limit by floating point
+  const loanToValue = purchasePrice > 0 ? Math.round(loanAmount / purchasePrice * 1e8) / 1e6 : 0;
+  const minimumDownPayment = getMinimumDownPayment(purchasePrice, market);
+  const required = loanToValue > HIGH_RATIO_LOAN_TO_VALUE;
+  const meetsMinimumDownPayment = downPayment >= minimumDownPayment - 0.005;
+  const isFinanced = getMarket(market).mortgageInsurance === 'default_insurance';
+
+  const tierRate = isFinanced && required && meetsMinimumDownPayment ? getInsurancePremiumRate(loanToValue) : null;
+  const premiumRate = tierRate === null
+    ? 0
+    : tierRate + (amortizationYears >= EXTENDED_AMORTIZATION_SURCHARGE.minYears ? EXTENDED_AMORTIZATION_SURCHARGE.premiumRate : 0);
+
+  return {
+    loanToValue,
+    minimumDownPayment,
+    meetsMinimumDownPayment,
+    required,
+    premiumRate,
+    premium: loanAmount * premiumRate / 100
+  };
+};
+
+// PMI paid monthly on the original loan until the balance falls to 78% of the purchase price, or to 80%
+// when the borrower asks to cancel it; premiums run to the last payment on a loan that never gets there
+export const calculatePrivateMortgageInsurance = (
+  loanAmount: number,
+  purchasePrice: number,
+  pmiRate: number,
+  cancelOnRequest: boolean,
+  payments: AmortizationPayment[],
+  startDate: string
+): PrivateMortgageInsurance => {
+  const getDateBelow = (loanToValue: number) => {
+    return payments.find(payment => payment.balance <= purchasePrice * loanToValue / 100 + 0.005)?.date ?? null;
+  };
+  const cancellationDate = getDateBelow(PMI_RULES.cancellationLoanToValue);
+  const terminationDate = getDateBelow(PMI_RULES.terminationLoanToValue);
+  const endDate = (cancelOnRequest ? cancellationDate : terminationDate) ?? payments[payments.length - 1]?.date ?? startDate;
+
+  // One premium for each month up to and including the payment that reaches the threshold
+  let months = 0;
+  while (addMonths(startDate, months + 1) <= endDate) {
+    months++;
+  }
+
+  const monthlyPremium = loanAmount * pmiRate / 100 / 12;
+  return { monthlyPremium, cancellationDate, terminationDate, months, totalPaid: monthlyPremium * months };
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBracketTax, calculateFirstTimeBuyerRebate, getProvince } from './land-transfer-tax';
+
+const scheduleFor = (province: string, municipality?: string) => {
+  const found = getProvince(province);
+  return municipality ? found.municipalities.find(m => m.value === municipality)!.schedule : found.schedule;
+};
+
+describe('calculateBracketTax', () => {
+  it.each([
+    ['ON', undefined, 500000, 6475],
+    ['ON', undefined, 2500000, 48975],
+    ['ON', 'toronto', 3500000, 78975],
+    ['BC', undefined, 1000000, 18000],
+    ['BC', undefined, 3500000, 93000],
+    ['MB', undefined, 400000, 5650],
+    ['QC', undefined, 500000, 5653.5],
+    ['QC', 'montreal', 600000, 7392],
+    ['AB', undefined, 500000, 550],
+    ['SK', undefined, 6400, 19.2],
+    ['SK', undefined, 500000, 1500]
+  ])('charges %s %s tax on a %d purchase', (province, municipality, price, tax) => {
+    expect(calculateBracketTax(price, scheduleFor(province, municipality))).toBeCloseTo(tax, 6);
+  });
+
+  it('charges nothing where there is no transfer tax', () => {
+    expect(calculateBracketTax(500000, scheduleFor('OTHER'))).toBe(0);
+    expect(calculateBracketTax(6300, scheduleFor('SK'))).toBe(0);
+  });
+});
+
+describe('calculateFirstTimeBuyerRebate', () => {
+  const bc = scheduleFor('BC').firstTimeBuyerRebate;
+
+  it('never rebates more than the tax owed', () => {
+    expect(calculateFirstTimeBuyerRebate(300000, 3500, scheduleFor('ON').firstTimeBuyerRebate)).toBe(3500);
+    expect(calculateFirstTimeBuyerRebate(500000, 6475, scheduleFor('ON').firstTimeBuyerRebate)).toBe(4000);
+  });
+
+  it('phases the rebate out across its price range', () => {
+    expect(calculateFirstTimeBuyerRebate(800000, 14000, bc)).toBe(8000);
+    expect(calculateFirstTimeBuyerRebate(847500, 14950, bc)).toBeCloseTo(4000, 6);
+    expect(calculateFirstTimeBuyerRebate(860000, 15200, bc)).toBe(0);
+  });
+
+  it('is zero without a rebate program', () => {
+    expect(calculateFirstTimeBuyerRebate(400000, 5650, scheduleFor('MB').firstTimeBuyerRebate)).toBe(0);
+  });
+});
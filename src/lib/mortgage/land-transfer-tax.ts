@@ -0,0 +1,172 @@
+import type { FirstTimeBuyerRebate, LandTransferTaxSchedule, Province, TaxBracket } from './types';
+
+// Marginal brackets: each rate (in percent) applies to the part of the price up to `upTo`
+// Rates and thresholds as published for residential purchases in 2025
+const ONTARIO_BRACKETS: TaxBracket[] = [
+  { upTo: 55000, rate: 0.5 },
+  { upTo: 250000, rate: 1 },
+  { upTo: 400000, rate: 1.5 },
+  { upTo: 2000000, rate: 2 },
+  { upTo: Infinity, rate: 2.5 }
+];
+
+export const PROVINCES: Province[] = [
+  {
+    value: 'ON',
+    label: 'Ontario',
+    insurancePstRate: 8,
+    schedule: { brackets: ONTARIO_BRACKETS, firstTimeBuyerRebate: { maxRebate: 4000 } },
+    municipalities: [
+      {
+        value: 'toronto',
+        label: 'Toronto',
+        schedule: {
+          brackets: [
+            ...ONTARIO_BRACKETS.slice(0, 4),
+            { upTo: 3000000, rate: 2.5 },
+            { upTo: 4000000, rate: 3.5 },
+            { upTo: 5000000, rate: 4.5 },
+            { upTo: 10000000, rate: 5.5 },
+            { upTo: 20000000, rate: 6.5 },
+            { upTo: Infinity, rate: 7.5 }
+          ],
+          firstTimeBuyerRebate: { maxRebate: 4475 }
+        }
+      }
+    ]
+  },
+  {
+    value: 'BC',
+    label: 'British Columbia',
+    insurancePstRate: 0,
+    schedule: {
+      brackets: [
+        { upTo: 200000, rate: 1 },
+        { upTo: 2000000, rate: 2 },
+        { upTo: 3000000, rate: 3 },
+        { upTo: Infinity, rate: 5 }
+      ],
+      // Tax on the first $500,000 is waived up to $835,000, phasing out by $860,000
+      firstTimeBuyerRebate: { maxRebate: 8000, phaseOutStart: 835000, phaseOutEnd: 860000 }
+    },
+    municipalities: []
+  },
+  {
+    value: 'AB',
+    label: 'Alberta',
+    insurancePstRate: 0,
+    // No transfer tax; the land titles fee is $50 plus $5 per $5,000 of value
+    schedule: { brackets: [{ upTo: Infinity, rate: 0.1 }], flatFee: 50 },
+    municipalities: []
+  },
+  {
+    value: 'SK',
+    label: 'Saskatchewan',
+    insurancePstRate: 6,
+    // Land titles transfer fee, 0.3% of the full value once it exceeds $6,300
+    schedule: { brackets: [{ upTo: Infinity, rate: 0.3 }], exemptUpTo: 6300 },
+    municipalities: []
+  },
+  {
+    value: 'MB',
+    label: 'Manitoba',
+    insurancePstRate: 0,
+    schedule: {
+      brackets: [
+        { upTo: 30000, rate: 0 },
+        { upTo: 90000, rate: 0.5 },
+        { upTo: 150000, rate: 1 },
+        { upTo: 200000, rate: 1.5 },
+        { upTo: Infinity, rate: 2 }
+      ]
+    },
+    municipalities: []
+  },
+  {
+    value: 'QC',
+    label: 'Quebec',
+    insurancePstRate: 9,
+    // Welcome tax (droits de mutation); Montreal adds higher brackets
+    schedule: {
+      brackets: [
+        { upTo: 61500, rate: 0.5 },
+        { upTo: 307800, rate: 1 },
+        { upTo: Infinity, rate: 1.5 }
+      ]
+    },
+    municipalities: [
+      {
+        value: 'montreal',
+        label: 'Montreal',
+        replacesProvincial: true,
+        schedule: {
+          brackets: [
+            { upTo: 61500, rate: 0.5 },
+            { upTo: 307800, rate: 1 },
+            { upTo: 552300, rate: 1.5 },
+            { upTo: 1104700, rate: 2 },
+            { upTo: 2136500, rate: 2.5 },
+            { upTo: 3113000, rate: 3.5 },
+            { upTo: Infinity, rate: 4 }
+          ]
+        }
+      }
+    ]
+  },
+  {
+    value: 'NB',
+    label: 'New Brunswick',
+    insurancePstRate: 0,
+    schedule: { brackets: [{ upTo: Infinity, rate: 1 }] },
+    municipalities: []
+  },
+  {
+    value: 'NS',
+    label: 'Nova Scotia',
+    insurancePstRate: 0,
+    // Deed transfer tax is set by each municipality
+    schedule: { brackets: [] },
+    municipalities: [
+      { value: 'halifax', label: 'Halifax', schedule: { brackets: [{ upTo: Infinity, rate: 1.5 }] } }
+    ]
+  },
+  {
+    value: 'OTHER',
+    label: 'Other / None',
+    insurancePstRate: 0,
+    schedule: { brackets: [] },
+    municipalities: []
+  }
+];
+
+// Look up a province, falling back to Ontario for unknown values
+export const getProvince = (value: string): Province => {
+  return PROVINCES.find(p => p.value === value) ?? PROVINCES[0];
+};
+
+// Tax owed under a marginal bracket schedule, before any rebate
+export const calculateBracketTax = (price: number, schedule: LandTransferTaxSchedule) => {
+  if (price <= (schedule.exemptUpTo ?? 0)) return 0;
+
+  let tax = 0;
+  let lowerBound = 0;
+
+  for (const bracket of schedule.brackets) {
+    if (price <= lowerBound) break;
+    tax += (Math.min(price, bracket.upTo) - lowerBound) * bracket.rate / 100;
+    lowerBound = bracket.upTo;
+  }
+
+  return tax + (price > 0 ? schedule.flatFee ?? 0 : 0);
+};
+
+// Rebate capped at the tax owed, reduced linearly to nothing across the phase-out range
+export const calculateFirstTimeBuyerRebate = (price: number, tax: number, rebate?: FirstTimeBuyerRebate) => {
+  if (!rebate) return 0;
+
+  const { maxRebate, phaseOutStart = Infinity, phaseOutEnd = Infinity } = rebate;
+  if (price >= phaseOutEnd) return 0;
+
+  const share = price <= phaseOutStart ? 1 : (phaseOutEnd - price) / (phaseOutEnd - phaseOutStart);
+  return Math.min(tax, maxRebate * share);
+};
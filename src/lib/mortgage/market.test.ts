@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCENARIO_INPUTS } from './defaults';
+import { applyMarket } from './market';
+
+describe('applyMarket', () => {
+  it('switches a scenario to US conventions', () => {
+    const inputs = applyMarket({ ...DEFAULT_SCENARIO_INPUTS, rateType: 'variable', breakMonth: 24 }, 'US');
+
+    expect(inputs).toMatchObject({ market: 'US', compounding: 'monthly', rateType: 'fixed', breakMonth: 0 });
+  });
+
+  it('brings the compounding back and caps the amortization when returning to Canada', () => {
+    const us = { ...DEFAULT_SCENARIO_INPUTS, market: 'US', compounding: 'monthly', amortizationPeriod: 40, rateType: 'arm', breakMonth: 0 };
+
+    expect(applyMarket(us, 'CA')).toMatchObject({ market: 'CA', compounding: 'semi_annual', amortizationPeriod: 30, rateType: 'fixed' });
+  });
+
+  it('falls back to Canada for an unknown market', () => {
+    expect(applyMarket(DEFAULT_SCENARIO_INPUTS, 'XX').market).toBe('CA');
+  });
+});
@@ -0,0 +1,18 @@
+import { getMarket } from './constants';
+import { DEFAULT_SCENARIO_INPUTS } from './defaults';
+import type { ScenarioState } from './types';
+
+// Move a scenario to another market: its compounding, an amortization within the market's limit, a rate
+// type the market offers, and no mortgage break where the market charges no prepayment penalties
+export const applyMarket = (inputs: ScenarioState, value: string): ScenarioState => {
+  const market = getMarket(value);
+
+  return {
+    ...inputs,
+    market: market.value,
+    compounding: market.compounding ?? DEFAULT_SCENARIO_INPUTS.compounding,
+    amortizationPeriod: Math.min(inputs.amortizationPeriod, market.maxAmortization),
+    rateType: market.rateTypes.some(rateType => rateType.value === inputs.rateType) ? inputs.rateType : 'fixed',
+    breakMonth: market.prepaymentPenalties ? inputs.breakMonth : 0
+  };
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMortgage } from './calculate';
+import { DEFAULT_MONTE_CARLO, DEFAULT_SCENARIO_INPUTS } from './defaults';
+import { createRandom, getPercentile, simulateRatePath, simulateRates, simulateRatesInChunks } from './monte-carlo';
+
+const options = { startDate: '2025-01-15' };
+const inputs = { ...DEFAULT_MONTE_CARLO, simulations: 50 };
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const other = createRandom(43);
+    const sequence = Array.from({ length: 5 }, () => first());
+    expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+    expect(Array.from({ length: 5 }, () => other())).not.toEqual(sequence);
+    sequence.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('simulateRatePath', () => {
+  it('reverts toward the long-run rate without volatility', () => {
+    const path = simulateRatePath(8, 600, { ...DEFAULT_MONTE_CARLO, longRunRate: 4, volatility: 0 }, () => 0);
+    expect(path[0]).toBe(8);
+    expect(path[12]).toBeLessThan(8);
+    expect(path[12]).toBeGreaterThan(4);
+    expect(path[600]).toBeCloseTo(4, 2);
+  });
+
+  it('moves the long-run rate by the drift and never goes below zero', () => {
+    const drifting = simulateRatePath(4, 120, { ...DEFAULT_MONTE_CARLO, longRunRate: 4, volatility: 0, drift: 0.5 }, () => 0);
+    expect(drifting[120]).toBeGreaterThan(4);
+    const falling = simulateRatePath(1, 120, { ...DEFAULT_MONTE_CARLO, volatility: 5 }, () => -3);
+    expect(Math.min(...falling)).toBe(0);
+  });
+});
+
+describe('getPercentile', () => {
+  it('interpolates between ranks', () => {
+    expect(getPercentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(getPercentile([0, 10], 10)).toBe(1);
+    expect(getPercentile([], 50)).toBe(0);
+  });
+});
+
+describe('simulateRates', () => {
+  it('reproduces a run from its seed', () => {
+    const first = simulateRates(DEFAULT_SCENARIO_INPUTS, inputs, options);
+    expect(simulateRates(DEFAULT_SCENARIO_INPUTS, inputs, options)).toEqual(first);
+    expect(simulateRates(DEFAULT_SCENARIO_INPUTS, { ...inputs, seed: 2 }, options).totalInterest).not.toEqual(first.totalInterest);
+  });
+
+  it('matches the deterministic schedule when rates cannot move', () => {
+    const flat = { ...inputs, simulations: 3, volatility: 0, longRunRate: DEFAULT_SCENARIO_INPUTS.interestRate };
+    const result = simulateRates(DEFAULT_SCENARIO_INPUTS, flat, options);
+    const expected = calculateMortgage(DEFAULT_SCENARIO_INPUTS, options);
+    expect(result.totalInterest.p10).toBeCloseTo(expected.totalInterestLifetime, 0);
+    expect(result.totalInterest.p90).toBeCloseTo(expected.totalInterestLifetime, 0);
+    expect(result.peakPayment.p50).toBeCloseTo(expected.monthlyPayment, 2);
+    expect(result.balance).toHaveLength(25);
+    expect(result.balance[4].p50).toBeCloseTo(expected.amortizationSchedule[4].endingBalance, 0);
+  });
+
+  it('keeps the first term at the contract rate and orders the bands', () => {
+    const result = simulateRates(DEFAULT_SCENARIO_INPUTS, inputs, options);
+    const expected = calculateMortgage(DEFAULT_SCENARIO_INPUTS, options);
+    expect(result.simulations).toBe(50);
+    expect(result.balance[4].p10).toBeCloseTo(expected.amortizationSchedule[4].endingBalance, 0);
+    expect(result.balance[4].p90).toBeCloseTo(expected.amortizationSchedule[4].endingBalance, 0);
+    expect(result.balance[10].p90).toBeGreaterThan(result.balance[10].p10);
+    [...result.balance, result.totalInterest, result.peakPayment].forEach(band => {
+      expect(band.p10).toBeLessThanOrEqual(band.p50);
+      expect(band.p50).toBeLessThanOrEqual(band.p90);
+    });
+  });
+
+  it('moves variable-rate payments from the first month', () => {
+    const variable = { ...DEFAULT_SCENARIO_INPUTS, rateType: 'variable' as const };
+    const result = simulateRates(variable, inputs, options);
+    expect(result.balance[0].p90).toBeGreaterThan(result.balance[0].p10);
+    expect(result.peakPayment.p90).toBeGreaterThan(calculateMortgage(variable, options).monthlyPayment);
+  });
+});
+
+describe('simulateRatesInChunks', () => {
+  it('gives the same result as a single run and reports its progress', async () => {
+    const progress: number[] = [];
+    const result = await simulateRatesInChunks(DEFAULT_SCENARIO_INPUTS, { ...inputs, simulations: 120 }, options, completed => {
+      progress.push(completed);
+    });
+
+    expect(result).toEqual(simulateRates(DEFAULT_SCENARIO_INPUTS, { ...inputs, simulations: 120 }, options));
+    expect(progress).toEqual([50, 100, 120]);
+  });
+});
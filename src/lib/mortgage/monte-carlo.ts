@@ -0,0 +1,171 @@
+import { calculateScenarioSchedule, getStartDate } from './calculate';
+import { addMonths } from './dates';
+import type {
+  CalculationOptions,
+  MonteCarloInputs,
+  MonteCarloResult,
+  PercentileBand,
+  RenewalTerm,
+  ScenarioState
+} from './types';
+
+// Seeded uniform generator (mulberry32) so a simulation can be reproduced exactly
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draw (Box-Muller)
+const createNormal = (random: () => number) => () => {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+// Monthly rates from the starting rate; index 0 is the starting rate and rates never go below zero
+export const simulateRatePath = (
+  startRate: number,
+  months: number,
+  { longRunRate, reversionSpeed, volatility, drift }: MonteCarloInputs,
+  normal: () => number
+) => {
+  const dt = 1 / 12;
+  const rates = [startRate];
+  for (let month = 1; month <= months; month++) {
+    const previous = rates[month - 1];
+    const target = longRunRate + drift * (month - 1) * dt;
+    rates.push(Math.max(0, previous + reversionSpeed * (target - previous) * dt + volatility * Math.sqrt(dt) * normal()));
+  }
+  return rates;
+};
+
+// Linear interpolation between the closest ranks
+export const getPercentile = (sorted: number[], percentile: number) => {
+  if (!sorted.length) return 0;
+  const rank = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+const getBand = (values: number[]): PercentileBand => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p10: getPercentile(sorted, 10), p50: getPercentile(sorted, 50), p90: getPercentile(sorted, 90) };
+};
+
+// Variable rates follow prime every month; fixed rates are reset to the simulated rate at each renewal
+// Renewals past the entered ones repeat the initial term length until the amortization is covered.
+// ARMs are left as they are: the simulated rates are their index, passed to calculateMortgage
+const applyRatePath = (scenario: ScenarioState, rates: number[], startDate: string): ScenarioState => {
+  if (scenario.rateType === 'arm') {
+    return scenario;
+  }
+
+  if (scenario.rateType === 'variable') {
+    return {
+      ...scenario,
+      primeRateChanges: rates.slice(1).map((primeRate, index) => ({ date: addMonths(startDate, index + 1), primeRate }))
+    };
+  }
+
+  const renewals: RenewalTerm[] = [];
+  let startYear = Math.max(scenario.term, 1);
+  const termLengths = scenario.renewals.map(renewal => renewal.years);
+  for (let index = 0; startYear < scenario.amortizationPeriod; index++) {
+    const years = Math.max(termLengths[index] ?? scenario.term, 1);
+    renewals.push({
+      years,
+      interestRate: rates[Math.min(startYear * 12, rates.length - 1)],
+      paymentFrequency: scenario.renewals[index]?.paymentFrequency ?? ''
+    });
+    startYear += years;
+  }
+  return { ...scenario, renewals };
+};
+
+type Schedule = ReturnType<typeof calculateScenarioSchedule>['scheduleResult'];
+
+const getPeakPayment = (schedule: Schedule) => {
+  return schedule.paymentSchedule.reduce((peak, payment) => Math.max(peak, payment.payment - payment.extra), 0);
+};
+
+// Paths are run a batch at a time so that a caller can pause between batches; each path needs only
+// the schedule, not the costs and checks calculateMortgage adds around it
+const createSimulation = (scenario: ScenarioState, inputs: MonteCarloInputs, options: CalculationOptions) => {
+  const startDate = getStartDate(scenario, options);
+  const normal = createNormal(createRandom(inputs.seed));
+  const startRate = scenario.rateType === 'variable'
+    ? scenario.primeRate
+    : scenario.rateType === 'arm' ? scenario.armIndex : scenario.interestRate;
+  const simulations = Math.max(1, Math.round(inputs.simulations));
+
+  const balances: number[][] = [];
+  const totalInterest: number[] = [];
+  const peakPayments: number[] = [];
+
+  const runPaths = (count: number) => {
+    for (let run = 0; run < count && balances.length < simulations; run++) {
+      const rates = simulateRatePath(startRate, scenario.amortizationPeriod * 12, inputs, normal);
+      const { scheduleResult } = calculateScenarioSchedule(applyRatePath(scenario, rates, startDate), { startDate, indexRates: rates });
+      balances.push(scheduleResult.yearlySchedule.map(item => item.endingBalance));
+      totalInterest.push(scheduleResult.totalInterestPaid);
+      peakPayments.push(getPeakPayment(scheduleResult));
+    }
+    return balances.length;
+  };
+
+  // Runs that repay early count as a zero balance in later years
+  const getResult = (): MonteCarloResult => {
+    const years = Math.max(...balances.map(run => run.length));
+    return {
+      simulations,
+      balance: Array.from({ length: years }, (_, index) => ({
+        year: index + 1,
+        ...getBand(balances.map(run => run[index] ?? 0))
+      })),
+      totalInterest: getBand(totalInterest),
+      peakPayment: getBand(peakPayments)
+    };
+  };
+
+  return { simulations, runPaths, getResult };
+};
+
+// Run the scenario under many simulated rate paths and summarise the spread of outcomes
+export const simulateRates = (
+  scenario: ScenarioState,
+  inputs: MonteCarloInputs,
+  options: CalculationOptions = {}
+): MonteCarloResult => {
+  const simulation = createSimulation(scenario, inputs, options);
+  simulation.runPaths(simulation.simulations);
+  return simulation.getResult();
+};
+
+// Paths run between pauses by simulateRatesInChunks
+const PATHS_PER_CHUNK = 50;
+
+// The same result as simulateRates, computed a chunk of paths at a time with a pause after each so the page
+// stays responsive; `onProgress` is told how many paths are done
+export const simulateRatesInChunks = async (
+  scenario: ScenarioState,
+  inputs: MonteCarloInputs,
+  options: CalculationOptions = {},
+  onProgress?: (completed: number, total: number) => void
+): Promise<MonteCarloResult> => {
+  const simulation = createSimulation(scenario, inputs, options);
+
+  let completed = 0;
+  while (completed < simulation.simulations) {
+    completed = simulation.runPaths(PATHS_PER_CHUNK);
+    onProgress?.(completed, simulation.simulations);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  return simulation.getResult();
+};
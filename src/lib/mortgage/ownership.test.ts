@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCENARIO_INPUTS } from './defaults';
+import { calculateOwnershipCosts, getAnnualPropertyTax } from './ownership';
+
+const scenario = {
+  ...DEFAULT_SCENARIO_INPUTS,
+  purchasePrice: 600000,
+  propertyTax: 1,
+  propertyTaxType: 'percent',
+  condoFees: 500,
+  homeInsurance: 100,
+  utilities: 250,
+  maintenance: 1
+};
+
+describe('getAnnualPropertyTax', () => {
+  it('takes a percentage of the purchase price or the amount as entered', () => {
+    expect(getAnnualPropertyTax(scenario)).toBe(6000);
+    expect(getAnnualPropertyTax({ ...scenario, propertyTax: 4800, propertyTaxType: 'amount' })).toBe(4800);
+  });
+});
+
+describe('calculateOwnershipCosts', () => {
+  it('breaks down the first-year monthly costs', () => {
+    const costs = calculateOwnershipCosts(scenario, 25);
+
+    expect(costs.monthly).toEqual({ propertyTax: 500, condoFees: 500, homeInsurance: 100, utilities: 250, maintenance: 500, total: 1850 });
+    expect(costs.yearly).toHaveLength(25);
+    expect(costs.yearly.every(amount => amount === 1850 * 12)).toBe(true);
+    expect(costs.lifetime).toBeCloseTo(1850 * 12 * 25, 6);
+  });
+
+  it('escalates each cost yearly at its own rate', () => {
+    const costs = calculateOwnershipCosts({ ...scenario, condoFeesEscalation: 5, propertyTaxEscalation: 2 }, 3);
+
+    expect(costs.yearly[0]).toBeCloseTo(1850 * 12, 6);
+    expect(costs.yearly[2]).toBeCloseTo((850 + 500 * 1.05 ** 2 + 500 * 1.02 ** 2) * 12, 6);
+    expect(costs.monthly.total).toBe(1850);
+  });
+
+  it('has no costs over a zero horizon or with nothing entered', () => {
+    expect(calculateOwnershipCosts(scenario, 0).lifetime).toBe(0);
+    expect(calculateOwnershipCosts(DEFAULT_SCENARIO_INPUTS, 25).lifetime).toBe(0);
+  });
+});
@@ -0,0 +1,40 @@
+import type { OwnershipCostItems, OwnershipCosts, ScenarioState } from './types';
+
+const OWNERSHIP_COST_ITEMS: (keyof OwnershipCostItems)[] = ['propertyTax', 'condoFees', 'homeInsurance', 'utilities', 'maintenance'];
+
+// First-year property tax, entered as a yearly % of the purchase price or a yearly amount
+export const getAnnualPropertyTax = (scenario: ScenarioState) => {
+  if (scenario.propertyTaxType === 'percent') {
+    return scenario.purchasePrice * (scenario.propertyTax / 100);
+  }
+  return scenario.propertyTax;
+};
+
+// Carrying costs of the home besides the mortgage over `years`, each rising yearly at its own escalation rate
+export const calculateOwnershipCosts = (scenario: ScenarioState, years: number): OwnershipCosts => {
+  const items: OwnershipCostItems = {
+    propertyTax: getAnnualPropertyTax(scenario) / 12,
+    condoFees: scenario.condoFees,
+    homeInsurance: scenario.homeInsurance,
+    utilities: scenario.utilities,
+    maintenance: scenario.purchasePrice * (scenario.maintenance / 100) / 12
+  };
+  const escalation: OwnershipCostItems = {
+    propertyTax: scenario.propertyTaxEscalation,
+    condoFees: scenario.condoFeesEscalation,
+    homeInsurance: scenario.homeInsuranceEscalation,
+    utilities: scenario.utilitiesEscalation,
+    maintenance: scenario.maintenanceEscalation
+  };
+
+  const yearly = Array.from({ length: Math.max(Math.ceil(years), 0) }, (_, year) => OWNERSHIP_COST_ITEMS.reduce(
+    (total, item) => total + items[item] * 12 * Math.pow(1 + escalation[item] / 100, year),
+    0
+  ));
+
+  return {
+    monthly: { ...items, total: OWNERSHIP_COST_ITEMS.reduce((total, item) => total + items[item], 0) },
+    yearly,
+    lifetime: yearly.reduce((total, amount) => total + amount, 0)
+  };
+};
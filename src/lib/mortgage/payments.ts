@@ -0,0 +1,43 @@
+import { getPaymentFrequency } from './constants';
+import { getPeriodicRate } from './rates';
+
+// Standard annuity payment for a fully amortizing loan
+export const calculatePeriodicPayment = (principal: number, ratePerPayment: number, totalPayments: number) => {
+  if (ratePerPayment === 0) {
+    return principal / totalPayments;
+  }
+  return principal *
+    (ratePerPayment * Math.pow(1 + ratePerPayment, totalPayments)) /
+    (Math.pow(1 + ratePerPayment, totalPayments) - 1);
+};
+
+// Payment for a balance amortized over the given years at the given frequency
+// Accelerated frequencies pay half (bi-weekly) or a quarter (weekly) of the monthly payment
+export const calculateScheduledPayment = (
+  principal: number,
+  annualInterestRate: number,
+  compoundingPeriodsPerYear: number,
+  paymentFrequency: string,
+  amortizationYears: number
+) => {
+  const paymentsPerYear = getPaymentFrequency(paymentFrequency).paymentsPerYear;
+
+  // Calculate payment amount
+  let paymentAmount = calculatePeriodicPayment(
+    principal,
+    getPeriodicRate(annualInterestRate, compoundingPeriodsPerYear, paymentsPerYear),
+    amortizationYears * paymentsPerYear
+  );
+
+  // If accelerated payments, adjust the payment amount
+  if (paymentFrequency === 'accelerated_biweekly' || paymentFrequency === 'accelerated_weekly') {
+    const monthlyEquivalent = calculatePeriodicPayment(
+      principal,
+      getPeriodicRate(annualInterestRate, compoundingPeriodsPerYear, 12),
+      amortizationYears * 12
+    );
+    paymentAmount = monthlyEquivalent / (paymentFrequency === 'accelerated_biweekly' ? 2 : 4);
+  }
+
+  return { paymentAmount, paymentsPerYear };
+};
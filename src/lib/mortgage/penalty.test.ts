@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePrepaymentPenalty, getBalanceBefore } from './penalty';
+import type { AmortizationPayment } from './types';
+
+describe('calculatePrepaymentPenalty', () => {
+  const input = { balance: 300000, contractRate: 5, rateDiscount: 1.5, comparisonRate: 4.5, remainingMonths: 24 };
+
+  it('charges the interest rate differential when rates have fallen below the discounted posted rate', () => {
+    const penalty = calculatePrepaymentPenalty(input);
+
+    expect(penalty.threeMonthsInterest).toBeCloseTo(3750, 6);
+    expect(penalty.interestRateDifferential).toBeCloseTo(12000, 6);
+    expect(penalty.penalty).toBeCloseTo(12000, 6);
+    expect(penalty.method).toBe('interest_rate_differential');
+  });
+
+  it('falls back to three months of interest when rates have risen', () => {
+    const penalty = calculatePrepaymentPenalty({ ...input, comparisonRate: 7 });
+
+    expect(penalty.interestRateDifferential).toBe(0);
+    expect(penalty.penalty).toBeCloseTo(3750, 6);
+    expect(penalty.method).toBe('three_months_interest');
+  });
+});
+
+describe('getBalanceBefore', () => {
+  const payments = [
+    { date: '2025-02-15', balance: 900 },
+    { date: '2025-03-15', balance: 800 }
+  ] as AmortizationPayment[];
+
+  it('returns the balance after the last payment due before the date', () => {
+    expect(getBalanceBefore(payments, 1000, '2025-01-31')).toBe(1000);
+    expect(getBalanceBefore(payments, 1000, '2025-03-15')).toBe(900);
+    expect(getBalanceBefore(payments, 1000, '2025-04-01')).toBe(800);
+  });
+});
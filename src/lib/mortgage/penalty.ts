@@ -0,0 +1,42 @@
+import type { AmortizationPayment, PrepaymentPenalty } from './types';
+
+interface PrepaymentPenaltyInput {
+  balance: number;
+  contractRate: number;
+  rateDiscount: number;
+  comparisonRate: number; // lender's current posted rate for the remaining term
+  remainingMonths: number;
+}
+
+// Balance owing just before `date`, after every payment due earlier
+export const getBalanceBefore = (payments: AmortizationPayment[], principal: number, date: string) => {
+  let balance = principal;
+  for (const payment of payments) {
+    if (payment.date >= date) break;
+    balance = payment.balance;
+  }
+  return balance;
+};
+
+// Lenders charge the greater of three months' interest and the interest rate differential (IRD)
+// The IRD compares the contract rate with today's posted rate for the remaining term less the original discount
+export const calculatePrepaymentPenalty = ({
+  balance,
+  contractRate,
+  rateDiscount,
+  comparisonRate,
+  remainingMonths
+}: PrepaymentPenaltyInput): Omit<PrepaymentPenalty, 'breakDate'> => {
+  const threeMonthsInterest = balance * (contractRate / 100) * 3 / 12;
+  const rateDifferential = Math.max(contractRate - (comparisonRate - rateDiscount), 0);
+  const interestRateDifferential = balance * (rateDifferential / 100) * Math.max(remainingMonths, 0) / 12;
+
+  return {
+    balance,
+    remainingMonths,
+    threeMonthsInterest,
+    interestRateDifferential,
+    penalty: Math.max(threeMonthsInterest, interestRateDifferential),
+    method: interestRateDifferential > threeMonthsInterest ? 'interest_rate_differential' : 'three_months_interest'
+  };
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PREPAY_VS_INVEST, DEFAULT_SCENARIO_INPUTS } from './defaults';
+import { calculatePrepayVsInvest } from './prepay-vs-invest';
+import type { ScenarioState } from './types';
+
+const scenario: ScenarioState = { ...DEFAULT_SCENARIO_INPUTS, extraPayment: 200, annualPrepayment: 5 };
+const options = { startDate: '2025-01-15' };
+// 5.5% compounded semi-annually
+const effectiveMortgageRate = (Math.pow(1.0275, 2) - 1) * 100;
+
+describe('calculatePrepayVsInvest', () => {
+  it('breaks even in a TFSA when the investment earns the mortgage rate', () => {
+    const result = calculatePrepayVsInvest(scenario, DEFAULT_PREPAY_VS_INVEST, options);
+
+    expect(result.breakEvenReturn).toBeCloseTo(effectiveMortgageRate, 2);
+    expect(result.interestSaved).toBeGreaterThan(0);
+  });
+
+  it('favours investing above the break-even return and prepaying below it', () => {
+    const investing = calculatePrepayVsInvest(scenario, { ...DEFAULT_PREPAY_VS_INVEST, investmentReturn: 8 }, options);
+    const prepaying = calculatePrepayVsInvest(scenario, { ...DEFAULT_PREPAY_VS_INVEST, investmentReturn: 3 }, options);
+    const last = investing.years[investing.years.length - 1];
+
+    expect(investing.advantage).toBeGreaterThan(0);
+    expect(prepaying.advantage).toBeLessThan(0);
+    expect(investing.years).toHaveLength(25);
+    expect([last.prepayBalance, last.investBalance]).toEqual([0, 0]);
+    expect(investing.advantage).toBeCloseTo(last.investNetWorth - last.prepayNetWorth, 6);
+  });
+
+  it('matches a TFSA in an RRSP taxed at the same rate going in and out', () => {
+    const rrsp = calculatePrepayVsInvest(scenario, { ...DEFAULT_PREPAY_VS_INVEST, accountType: 'rrsp' }, options);
+    const lowerInRetirement = calculatePrepayVsInvest(
+      scenario,
+      { ...DEFAULT_PREPAY_VS_INVEST, accountType: 'rrsp', retirementTaxRate: 20 },
+      options
+    );
+
+    expect(rrsp.breakEvenReturn).toBeCloseTo(effectiveMortgageRate, 2);
+    expect(lowerInRetirement.breakEvenReturn).toBeLessThan(effectiveMortgageRate);
+  });
+
+  it('needs a higher return in a taxable account to cover the tax on gains', () => {
+    const result = calculatePrepayVsInvest(scenario, { ...DEFAULT_PREPAY_VS_INVEST, accountType: 'taxable' }, options);
+
+    expect(result.breakEvenReturn).toBeCloseTo(effectiveMortgageRate / 0.85, 2);
+  });
+
+  it('has nothing to compare without prepayments', () => {
+    const result = calculatePrepayVsInvest(DEFAULT_SCENARIO_INPUTS, DEFAULT_PREPAY_VS_INVEST, options);
+
+    expect(result.breakEvenReturn).toBeNull();
+    expect(result.interestSaved).toBe(0);
+    expect(result.advantage).toBe(0);
+  });
+});
@@ -0,0 +1,112 @@
+import { calculateMortgage, getStartDate } from './calculate';
+import { CAPITAL_GAINS_INCLUSION_RATE } from './constants';
+import { parseISODate } from './dates';
+import type {
+  AmortizationPayment,
+  CalculationOptions,
+  MortgageResult,
+  PrepayVsInvestInputs,
+  PrepayVsInvestResult,
+  PrepayVsInvestYear,
+  ScenarioState
+} from './types';
+
+// Highest investment return searched for the break-even
+const MAX_BREAK_EVEN_RETURN = 30;
+
+// Cash paid to the lender in each calendar month after the start date
+const getMonthlyPayments = (payments: AmortizationPayment[], startDate: string) => {
+  const start = parseISODate(startDate);
+  const months: number[] = [];
+  payments.forEach(payment => {
+    const date = parseISODate(payment.date);
+    const month = (date.getUTCFullYear() - start.getUTCFullYear()) * 12 + date.getUTCMonth() - start.getUTCMonth();
+    months[month] = (months[month] ?? 0) + payment.payment;
+  });
+  return Array.from(months, amount => amount ?? 0);
+};
+
+// Both paths set aside the same cash each month: whichever pays the lender less invests the difference
+const simulate = (
+  prepay: MortgageResult,
+  invest: MortgageResult,
+  prepayMonths: number[],
+  investMonths: number[],
+  { accountType, investmentReturn, marginalTaxRate, retirementTaxRate }: PrepayVsInvestInputs
+) => {
+  // Taxable accounts lose the tax on the included share of each year's gain
+  const annualReturn = accountType === 'taxable'
+    ? investmentReturn * (1 - (marginalTaxRate / 100) * (CAPITAL_GAINS_INCLUSION_RATE / 100))
+    : investmentReturn;
+  const monthlyGrowth = Math.pow(1 + annualReturn / 100, 1 / 12);
+  // RRSP contributions are grossed up by the reinvested refund and taxed again on withdrawal
+  const contributionFactor = accountType === 'rrsp' ? 1 / (1 - marginalTaxRate / 100) : 1;
+  const withdrawalFactor = accountType === 'rrsp' ? 1 - retirementTaxRate / 100 : 1;
+
+  // Monthly payments start a month in, so year n ends with month 12n; run until the later loan is repaid
+  const horizonYears = Math.ceil((Math.max(prepayMonths.length, investMonths.length) - 1) / 12);
+  let prepayPortfolio = 0;
+  let investPortfolio = 0;
+  const years: PrepayVsInvestYear[] = [];
+
+  for (let month = 0; month <= horizonYears * 12; month++) {
+    const difference = (prepayMonths[month] ?? 0) - (investMonths[month] ?? 0);
+    prepayPortfolio = prepayPortfolio * monthlyGrowth + Math.max(-difference, 0) * contributionFactor;
+    investPortfolio = investPortfolio * monthlyGrowth + Math.max(difference, 0) * contributionFactor;
+
+    if (month > 0 && month % 12 === 0) {
+      const year = month / 12;
+      const prepayBalance = prepay.amortizationSchedule[year - 1]?.endingBalance ?? 0;
+      const investBalance = invest.amortizationSchedule[year - 1]?.endingBalance ?? 0;
+      years.push({
+        year,
+        prepayBalance,
+        investBalance,
+        prepayPortfolio: prepayPortfolio * withdrawalFactor,
+        investPortfolio: investPortfolio * withdrawalFactor,
+        prepayNetWorth: prepayPortfolio * withdrawalFactor - prepayBalance,
+        investNetWorth: investPortfolio * withdrawalFactor - investBalance
+      });
+    }
+  }
+
+  const last = years[years.length - 1];
+  return { years, advantage: last ? last.investNetWorth - last.prepayNetWorth : 0 };
+};
+
+// Compare the scenario's prepayments with paying only the regular payment and investing the same cash instead
+export const calculatePrepayVsInvest = (
+  scenario: ScenarioState,
+  inputs: PrepayVsInvestInputs,
+  options: CalculationOptions = {}
+): PrepayVsInvestResult => {
+  const startDate = getStartDate(scenario, options);
+  const prepay = calculateMortgage(scenario, { startDate });
+  const invest = calculateMortgage({ ...scenario, extraPayment: 0, paymentIncrease: 0, annualPrepayment: 0, lumpSums: [] }, { startDate });
+  const prepayMonths = getMonthlyPayments(prepay.paymentSchedule, startDate);
+  const investMonths = getMonthlyPayments(invest.paymentSchedule, startDate);
+
+  const { years, advantage } = simulate(prepay, invest, prepayMonths, investMonths, inputs);
+  const advantageAt = (investmentReturn: number) => simulate(prepay, invest, prepayMonths, investMonths, { ...inputs, investmentReturn }).advantage;
+
+  // Investing gains on prepaying as the return rises, so bisect for the return where the advantage crosses zero
+  let breakEvenReturn: number | null = null;
+  const hasPrepayments = prepay.totalInterestLifetime < invest.totalInterestLifetime;
+  if (hasPrepayments && advantageAt(0) < 0 && advantageAt(MAX_BREAK_EVEN_RETURN) > 0) {
+    let low = 0;
+    let high = MAX_BREAK_EVEN_RETURN;
+    for (let i = 0; i < 50; i++) {
+      const mid = (low + high) / 2;
+      if (advantageAt(mid) < 0) low = mid;
+      else high = mid;
+    }
+    breakEvenReturn = (low + high) / 2;
+  }
+
+  return {
+    years,
+    interestSaved: invest.totalInterestLifetime - prepay.totalInterestLifetime,
+    advantage,
+    breakEvenReturn
+  };
+};
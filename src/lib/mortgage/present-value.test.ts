@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { getDiscountFactor, getPresentValue, getYearsBetween } from './present-value';
+
+describe('getDiscountFactor', () => {
+  it('compounds the rate yearly, including over part years', () => {
+    expect(getDiscountFactor(5, 1)).toBeCloseTo(1 / 1.05, 12);
+    expect(getDiscountFactor(5, 10)).toBeCloseTo(Math.pow(1.05, -10), 12);
+    expect(getDiscountFactor(5, 0.5)).toBeCloseTo(1 / Math.sqrt(1.05), 12);
+  });
+
+  it('leaves amounts unchanged at a zero rate or no elapsed time', () => {
+    expect(getDiscountFactor(0, 25)).toBe(1);
+    expect(getDiscountFactor(5, 0)).toBe(1);
+  });
+});
+
+describe('getPresentValue', () => {
+  it('discounts each amount from its own date to the start date', () => {
+    const cashFlows = [
+      { date: '2025-01-01', amount: 1000 },
+      { date: '2026-01-01', amount: 1000 },
+      { date: '2027-01-01', amount: 1000 }
+    ];
+
+    expect(getYearsBetween('2025-01-01', '2026-01-01')).toBe(1);
+    expect(getPresentValue(cashFlows, '2025-01-01', 4)).toBeCloseTo(1000 + 1000 / 1.04 + 1000 * Math.pow(1.04, -730 / 365), 8);
+    expect(getPresentValue(cashFlows, '2025-01-01', 0)).toBe(3000);
+  });
+
+  it('is zero without cash flows', () => {
+    expect(getPresentValue([], '2025-01-01', 5)).toBe(0);
+  });
+});
@@ -0,0 +1,17 @@
+import { daysBetween } from './dates';
+
+// Value today of one dollar paid `years` from now, at an annual rate in percent compounded yearly
+export const getDiscountFactor = (annualRate: number, years: number) => {
+  return Math.pow(1 + annualRate / 100, -years);
+};
+
+// Fractional years from one ISO date to another
+export const getYearsBetween = (from: string, to: string) => daysBetween(from, to) / 365;
+
+// Sum of dated amounts, each discounted back to `startDate`; deflating by inflation uses the same sum
+export const getPresentValue = (cashFlows: { date: string; amount: number }[], startDate: string, annualRate: number) => {
+  return cashFlows.reduce(
+    (total, cashFlow) => total + cashFlow.amount * getDiscountFactor(annualRate, getYearsBetween(startDate, cashFlow.date)),
+    0
+  );
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { US_QUALIFICATION_RULES } from './constants';
+import { calculatePeriodicPayment } from './payments';
+import { calculateDebtServiceRatios, calculateQualification, getQualifyingRate } from './qualification';
+import { getPeriodicRate } from './rates';
+import type { BorrowerProfile, PropertyCosts } from './types';
+
+// $10,000 a month, $600 of other housing costs (half the condo fees count) and $800 of other debts
+const borrower: BorrowerProfile = {
+  annualIncome: 120000,
+  heating: 100,
+  otherDebts: 800
+};
+const property: PropertyCosts = { annualPropertyTax: 3600, condoFees: 400 };
+
+describe('getQualifyingRate', () => {
+  it('is the contract rate plus two points, but never below the floor', () => {
+    expect(getQualifyingRate(4.5)).toBe(6.5);
+    expect(getQualifyingRate(3)).toBe(5.25);
+  });
+
+  it('is the contract rate under US rules', () => {
+    expect(getQualifyingRate(4.5, US_QUALIFICATION_RULES)).toBe(4.5);
+  });
+});
+
+describe('calculateDebtServiceRatios', () => {
+  it('divides housing costs, then all debts, by gross monthly income', () => {
+    const ratios = calculateDebtServiceRatios(400000, 4.5, 2, 25, borrower, property);
+    const payment = calculatePeriodicPayment(400000, getPeriodicRate(4.5, 2, 12), 300);
+
+    expect(ratios.monthlyPayment).toBeCloseTo(payment, 8);
+    expect(ratios.gds).toBeCloseTo((payment + 600) / 100, 8);
+    expect(ratios.tds).toBeCloseTo((payment + 1400) / 100, 8);
+  });
+});
+
+describe('calculateQualification', () => {
+  it('passes when both ratios at the qualifying rate are within the limits', () => {
+    const qualification = calculateQualification(400000, 4.5, 2, 25, borrower, property);
+
+    expect(qualification.stressTest.interestRate).toBe(6.5);
+    expect(qualification.stressTest.tds).toBeLessThan(44);
+    expect(qualification.contract.tds).toBeLessThan(qualification.stressTest.tds);
+    expect(qualification.passes).toBe(true);
+  });
+
+  it('fails a mortgage the stress test payment cannot carry', () => {
+    expect(calculateQualification(500000, 4.5, 2, 25, borrower, property).passes).toBe(false);
+  });
+
+  it('finds the largest mortgage that just meets the tighter limit', () => {
+    const { maxMortgage } = calculateQualification(400000, 4.5, 2, 25, borrower, property);
+    const atLimit = calculateDebtServiceRatios(maxMortgage, 6.5, 2, 25, borrower, property);
+
+    expect(atLimit.tds).toBeCloseTo(44, 8);
+    expect(atLimit.gds).toBeLessThan(39);
+    expect(calculateQualification(maxMortgage + 1, 4.5, 2, 25, borrower, property).passes).toBe(false);
+  });
+
+  it('qualifies for nothing when other costs already exceed the limits', () => {
+    expect(calculateQualification(100000, 5, 2, 25, { ...borrower, otherDebts: 5000 }, property).maxMortgage).toBe(0);
+  });
+});
+
+describe('calculateQualification under US rules', () => {
+  it('checks 28/36 debt-to-income at the contract rate, counting all condo fees', () => {
+    const qualification = calculateQualification(300000, 4.5, 12, 30, borrower, property, US_QUALIFICATION_RULES);
+    const payment = calculatePeriodicPayment(300000, 0.045 / 12, 360);
+
+    expect(qualification.stressTest.interestRate).toBe(4.5);
+    expect(qualification.stressTest.gds).toBeCloseTo((payment + 800) / 100, 8);
+    expect(qualification.passes).toBe(qualification.stressTest.gds <= 28 && qualification.stressTest.tds <= 36);
+  });
+});
@@ -0,0 +1,71 @@
+import { QUALIFICATION_RULES } from './constants';
+import { calculatePeriodicPayment } from './payments';
+import { getPeriodicRate } from './rates';
+import type { BorrowerProfile, DebtServiceRatios, PropertyCosts, Qualification, QualificationRules } from './types';
+
+// Lenders qualify on the greater of the contract rate plus the buffer and the floor rate
+export const getQualifyingRate = (contractRate: number, rules: QualificationRules = QUALIFICATION_RULES) => {
+  return Math.max(contractRate + rules.stressTestBuffer, rules.minimumQualifyingRate);
+};
+
+// Monthly housing costs other than the mortgage payment
+const getOtherHousingCosts = (borrower: BorrowerProfile, property: PropertyCosts, rules: QualificationRules) => {
+  return property.annualPropertyTax / 12 + borrower.heating + property.condoFees * rules.condoFeeShare / 100;
+};
+
+// Qualifying payments are monthly over the full amortization, whatever the chosen payment frequency
+const getMonthlyPaymentPerDollar = (interestRate: number, compoundingPeriodsPerYear: number, amortizationYears: number) => {
+  return calculatePeriodicPayment(1, getPeriodicRate(interestRate, compoundingPeriodsPerYear, 12), amortizationYears * 12);
+};
+
+export const calculateDebtServiceRatios = (
+  mortgageAmount: number,
+  interestRate: number,
+  compoundingPeriodsPerYear: number,
+  amortizationYears: number,
+  borrower: BorrowerProfile,
+  property: PropertyCosts,
+  rules: QualificationRules = QUALIFICATION_RULES
+): DebtServiceRatios => {
+  const monthlyIncome = borrower.annualIncome / 12;
+  const monthlyPayment = mortgageAmount * getMonthlyPaymentPerDollar(interestRate, compoundingPeriodsPerYear, amortizationYears);
+  const housingCosts = monthlyPayment + getOtherHousingCosts(borrower, property, rules);
+
+  return {
+    interestRate,
+    monthlyPayment,
+    gds: housingCosts / monthlyIncome * 100,
+    tds: (housingCosts + borrower.otherDebts) / monthlyIncome * 100
+  };
+};
+
+// GDS and TDS at the contract and qualifying rates, and the largest mortgage within both limits
+export const calculateQualification = (
+  mortgageAmount: number,
+  contractRate: number,
+  compoundingPeriodsPerYear: number,
+  amortizationYears: number,
+  borrower: BorrowerProfile,
+  property: PropertyCosts,
+  rules: QualificationRules = QUALIFICATION_RULES
+): Qualification => {
+  const qualifyingRate = getQualifyingRate(contractRate, rules);
+  const contract = calculateDebtServiceRatios(mortgageAmount, contractRate, compoundingPeriodsPerYear, amortizationYears, borrower, property, rules);
+  const stressTest = calculateDebtServiceRatios(mortgageAmount, qualifyingRate, compoundingPeriodsPerYear, amortizationYears, borrower, property, rules);
+
+  // The payment left over under the tighter of the two limits, converted back into a mortgage amount
+  const monthlyIncome = borrower.annualIncome / 12;
+  const otherHousingCosts = getOtherHousingCosts(borrower, property, rules);
+  const maxPayment = Math.min(
+    monthlyIncome * rules.maxGds / 100 - otherHousingCosts,
+    monthlyIncome * rules.maxTds / 100 - otherHousingCosts - borrower.otherDebts
+  );
+  const maxMortgage = Math.max(maxPayment, 0) / getMonthlyPaymentPerDollar(qualifyingRate, compoundingPeriodsPerYear, amortizationYears);
+
+  return {
+    contract,
+    stressTest,
+    passes: stressTest.gds <= rules.maxGds && stressTest.tds <= rules.maxTds,
+    maxMortgage
+  };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { getNominalAnnualRate, getPeriodicRate } from './rates';
+
+describe('getPeriodicRate', () => {
+  it('is the nominal rate divided by the periods when compounding matches the payment frequency', () => {
+    expect(getPeriodicRate(6, 12, 12)).toBeCloseTo(0.005, 12);
+    expect(getPeriodicRate(5.2, 26, 26)).toBeCloseTo(0.002, 12);
+  });
+
+  it('converts semi-annual compounding to the equivalent monthly rate', () => {
+    // 6% compounded semi-annually is 6.09% effective annually
+    expect(Math.pow(1 + getPeriodicRate(6, 2, 12), 12) - 1).toBeCloseTo(0.0609, 12);
+    expect(getPeriodicRate(6, 2, 12)).toBeCloseTo(0.0049386220, 10);
+  });
+
+  it('preserves the effective annual rate for every payment frequency', () => {
+    const effectiveAnnual = Math.pow(1 + 0.05 / 365, 365) - 1;
+
+    for (const paymentsPerYear of [12, 26, 52]) {
+      expect(Math.pow(1 + getPeriodicRate(5, 365, paymentsPerYear), paymentsPerYear) - 1).toBeCloseTo(effectiveAnnual, 12);
+    }
+  });
+
+  it('is zero for a zero rate', () => {
+    expect(getPeriodicRate(0, 2, 12)).toBe(0);
+  });
+});
+
+describe('getNominalAnnualRate', () => {
+  it('inverts getPeriodicRate for every compounding convention', () => {
+    for (const compoundingPeriodsPerYear of [2, 12, 365]) {
+      const periodicRate = getPeriodicRate(5.25, compoundingPeriodsPerYear, 26);
+      expect(getNominalAnnualRate(periodicRate, compoundingPeriodsPerYear, 26)).toBeCloseTo(5.25, 10);
+    }
+  });
+});
@@ -0,0 +1,20 @@
+// Convert a nominal annual rate (in percent) compounded `compoundingPeriodsPerYear` times
+// into the equivalent effective rate for one payment period
+export const getPeriodicRate = (
+  annualInterestRate: number,
+  compoundingPeriodsPerYear: number,
+  paymentsPerYear: number
+) => {
+  const ratePerCompoundingPeriod = (annualInterestRate / 100) / compoundingPeriodsPerYear;
+  return Math.pow(1 + ratePerCompoundingPeriod, compoundingPeriodsPerYear / paymentsPerYear) - 1;
+};
+
+// Inverse of getPeriodicRate: the nominal annual rate (in percent) that yields `periodicRate` per payment
+export const getNominalAnnualRate = (
+  periodicRate: number,
+  compoundingPeriodsPerYear: number,
+  paymentsPerYear: number
+) => {
+  const ratePerCompoundingPeriod = Math.pow(1 + periodicRate, paymentsPerYear / compoundingPeriodsPerYear) - 1;
+  return ratePerCompoundingPeriod * compoundingPeriodsPerYear * 100;
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REFINANCE } from './defaults';
+import { calculateScheduledPayment } from './payments';
+import { calculateRefinance } from './refinance';
+import type { RefinanceInputs } from './types';
+
+const inputs: RefinanceInputs = {
+  ...DEFAULT_REFINANCE,
+  balance: 300000,
+  currentRate: 6,
+  remainingAmortization: 20,
+  remainingTermMonths: 24,
+  rateDiscount: 0,
+  comparisonRate: 5.5,
+  renewalRate: 4,
+  newRate: 4,
+  newAmortization: 20,
+  legalFees: 1000,
+  dischargeFee: 300,
+  cashOut: 0,
+  financeCosts: false
+};
+
+const options = { startDate: '2025-01-01' };
+
+describe('calculateRefinance', () => {
+  it('charges the lender penalty with the fees and lowers the payment at the new rate', () => {
+    const result = calculateRefinance({ ...inputs, comparisonRate: 4 }, 'CA', options);
+
+    // IRD: 2% on $300,000 for the 24 months left
+    expect(result.penalty.method).toBe('interest_rate_differential');
+    expect(result.penalty.penalty).toBeCloseTo(12000, 6);
+    expect(result.costs).toBeCloseTo(13300, 6);
+    expect(result.newMortgage).toBe(300000);
+    expect(result.newPayment).toBeLessThan(result.currentPayment);
+    expect(result.monthlyCashFlowChange).toBeCloseTo(result.currentPayment - result.newPayment, 10);
+    expect(result.interestDifference).toBeLessThan(0);
+  });
+
+  it('breaks even in the first month the refinance has cost no more than staying', () => {
+    const { breakEvenMonth, months } = calculateRefinance(inputs, 'CA', options);
+
+    // Three months' interest of $4,500 beats the IRD of 0.5% for two years
+    expect(months[0]).toEqual({ month: 0, stayCost: 300000, refinanceCost: 305800 });
+    expect(breakEvenMonth).not.toBeNull();
+    expect(months[breakEvenMonth!].refinanceCost).toBeLessThanOrEqual(months[breakEvenMonth!].stayCost);
+    expect(months[breakEvenMonth! - 1].refinanceCost).toBeGreaterThan(months[breakEvenMonth! - 1].stayCost);
+    // Saving 2% a year on about $300,000 recovers $5,800 in roughly a year
+    expect(breakEvenMonth).toBeGreaterThan(9);
+    expect(breakEvenMonth).toBeLessThan(15);
+  });
+
+  it('never breaks even when the existing rate is no higher', () => {
+    const result = calculateRefinance({ ...inputs, currentRate: 4 }, 'CA', options);
+
+    expect(result.penalty.method).toBe('three_months_interest');
+    expect(result.breakEvenMonth).toBeNull();
+  });
+
+  it('adds financed costs and cash taken out to the new mortgage', () => {
+    const result = calculateRefinance({ ...inputs, financeCosts: true, cashOut: 50000 }, 'CA', options);
+
+    expect(result.newMortgage).toBeCloseTo(300000 + 50000 + 5800, 6);
+    expect(result.months[0].refinanceCost).toBeCloseTo(300000 + 5800, 6);
+    expect(result.refinanceInterest).toBeGreaterThan(calculateRefinance(inputs, 'CA', options).refinanceInterest);
+  });
+
+  it('charges no penalty once the term is over', () => {
+    const result = calculateRefinance({ ...inputs, remainingTermMonths: 0, renewalRate: 5 }, 'CA', options);
+
+    expect(result.penalty.penalty).toBe(0);
+    expect(result.costs).toBe(1300);
+    expect(result.breakEvenMonth).not.toBeNull();
+  });
+
+  it('follows the US market with no penalty and monthly compounding', () => {
+    const result = calculateRefinance({ ...inputs, comparisonRate: 4 }, 'US', options);
+
+    expect(result.penalty.penalty).toBe(0);
+    expect(result.costs).toBe(1300);
+    expect(result.newPayment).toBeCloseTo(calculateScheduledPayment(300000, 4, 12, 'monthly', 20).paymentAmount, 10);
+    expect(result.newPayment).toBeGreaterThan(calculateRefinance(inputs, 'CA', options).newPayment);
+  });
+
+  it('amortizes over at least one whole year', () => {
+    const result = calculateRefinance({ ...inputs, remainingAmortization: 0.5, newAmortization: 0 }, 'CA', options);
+    const oneYear = calculateRefinance({ ...inputs, remainingAmortization: 1, newAmortization: 1 }, 'CA', options);
+
+    expect(Number.isFinite(result.newPayment)).toBe(true);
+    expect(result.newPayment).toBeCloseTo(oneYear.newPayment, 10);
+    expect(result.currentPayment).toBeCloseTo(oneYear.currentPayment, 10);
+    expect(result.refinanceInterest).toBeGreaterThan(0);
+    expect(result.stayInterest).toBeGreaterThan(0);
+    expect(result.months).toHaveLength(13);
+    expect(result.months[12].stayCost).toBeGreaterThan(result.months[0].stayCost);
+  });
+});
@@ -0,0 +1,120 @@
+import { getCompoundingConvention, getMarket } from './constants';
+import { addMonths, todayISODate } from './dates';
+import { calculateScheduledPayment } from './payments';
+import { calculatePrepaymentPenalty } from './penalty';
+import { generateAmortizationSchedule } from './schedule';
+import type { AmortizationPayment, CalculationOptions, RateChange, RefinanceInputs, RefinanceMonth, RefinanceResult } from './types';
+
+// Monthly schedule of a loan from the refinance date. A refinance cannot be insured, so unlike
+// calculateMortgage there is no premium to add and the loan is simply the amount borrowed
+const scheduleLoan = (
+  compoundingPeriodsPerYear: number,
+  principal: number,
+  interestRate: number,
+  amortization: number,
+  startDate: string,
+  rateChanges: RateChange[] = []
+) => {
+  // The schedule runs in whole years, so a shorter amortization would make no payments at all
+  const amortizationYears = Math.max(Math.round(amortization), 1);
+  const { paymentAmount } = calculateScheduledPayment(principal, interestRate, compoundingPeriodsPerYear, 'monthly', amortizationYears);
+
+  const schedule = generateAmortizationSchedule({
+    principal,
+    annualInterestRate: interestRate,
+    compoundingPeriodsPerYear,
+    amortizationYears,
+    paymentAmount,
+    paymentFrequency: 'monthly',
+    term: amortizationYears,
+    extraPayment: 0,
+    paymentIncrease: 0,
+    annualPrepayment: 0,
+    startDate,
+    rateChanges,
+    adjustPaymentOnRateChange: true
+  });
+
+  return { paymentAmount, schedule };
+};
+
+// Payments made and balance owing at the end of each month, from month 0 to `months`
+const getMonthEnds = (payments: AmortizationPayment[], principal: number, startDate: string, months: number) => {
+  const monthEnds: { paid: number; balance: number }[] = [];
+  let paid = 0;
+  let balance = principal;
+  let index = 0;
+
+  for (let month = 0; month <= months; month++) {
+    const monthEnd = addMonths(startDate, month);
+    for (; index < payments.length && payments[index].date <= monthEnd; index++) {
+      paid += payments[index].payment;
+      balance = payments[index].balance;
+    }
+    monthEnds.push({ paid, balance });
+  }
+
+  return monthEnds;
+};
+
+// Keep the existing mortgage, renewing at the renewal rate when its term ends, or break it now and refinance.
+// Both paths are followed until each loan is repaid; cash taken out counts in the refinance's favour so that
+// it only changes the comparison through the interest it costs
+export const calculateRefinance = (inputs: RefinanceInputs, market = 'CA', options: CalculationOptions = {}): RefinanceResult => {
+  const startDate = options.startDate || todayISODate();
+  const { compounding, prepaymentPenalties } = getMarket(market);
+  // Markets that leave compounding to the scenario follow the Canadian fixed-rate convention; both loans are paid monthly
+  const compoundingPeriodsPerYear = getCompoundingConvention(compounding ?? 'semi_annual').periodsPerYear;
+
+  // A mortgage at the end of its term, or in a market without prepayment penalties, can be moved without one
+  const isInTerm = inputs.remainingTermMonths > 0;
+  const penalty = calculatePrepaymentPenalty({
+    balance: isInTerm && prepaymentPenalties ? inputs.balance : 0,
+    contractRate: inputs.currentRate,
+    rateDiscount: inputs.rateDiscount,
+    comparisonRate: inputs.comparisonRate,
+    remainingMonths: Math.max(inputs.remainingTermMonths, 0)
+  });
+  const costs = penalty.penalty + inputs.legalFees + inputs.dischargeFee;
+  const newMortgage = inputs.balance + inputs.cashOut + (inputs.financeCosts ? costs : 0);
+  const cashCosts = inputs.financeCosts ? 0 : costs;
+
+  const stay = isInTerm
+    ? scheduleLoan(compoundingPeriodsPerYear, inputs.balance, inputs.currentRate, inputs.remainingAmortization, startDate, [
+      { date: addMonths(startDate, inputs.remainingTermMonths), interestRate: inputs.renewalRate }
+    ])
+    : scheduleLoan(compoundingPeriodsPerYear, inputs.balance, inputs.renewalRate, inputs.remainingAmortization, startDate);
+  const refinance = scheduleLoan(compoundingPeriodsPerYear, newMortgage, inputs.newRate, inputs.newAmortization, startDate);
+
+  const lastDate = [stay.schedule.paymentSchedule, refinance.schedule.paymentSchedule]
+    .map(payments => payments[payments.length - 1]?.date ?? startDate)
+    .reduce((latest, date) => (date > latest ? date : latest), startDate);
+  let horizon = 0;
+  while (addMonths(startDate, horizon) < lastDate) {
+    horizon++;
+  }
+
+  const stayMonths = getMonthEnds(stay.schedule.paymentSchedule, inputs.balance, startDate, horizon);
+  const refinanceMonths = getMonthEnds(refinance.schedule.paymentSchedule, newMortgage, startDate, horizon);
+  const months: RefinanceMonth[] = stayMonths.map((stayMonth, month) => ({
+    month,
+    stayCost: stayMonth.paid + stayMonth.balance,
+    refinanceCost: refinanceMonths[month].paid + refinanceMonths[month].balance + cashCosts - inputs.cashOut
+  }));
+
+  const breakEven = months.find(month => month.month > 0 && month.refinanceCost <= month.stayCost);
+
+  return {
+    penalty,
+    costs,
+    newMortgage,
+    currentPayment: stay.paymentAmount,
+    newPayment: refinance.paymentAmount,
+    monthlyCashFlowChange: stay.paymentAmount - refinance.paymentAmount,
+    breakEvenMonth: breakEven?.month ?? null,
+    stayInterest: stay.schedule.totalInterestPaid,
+    refinanceInterest: refinance.schedule.totalInterestPaid,
+    interestDifference: refinance.schedule.totalInterestPaid - stay.schedule.totalInterestPaid,
+    months
+  };
+};
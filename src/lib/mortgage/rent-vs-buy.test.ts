@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMortgage } from './calculate';
+import { DEFAULT_RENT_VS_BUY, DEFAULT_SCENARIO_INPUTS } from './defaults';
+import { calculateRentVsBuy } from './rent-vs-buy';
+import type { RentVsBuyInputs, ScenarioState } from './types';
+
+// Property tax of 0.8% and maintenance of 1% of the price, with $100 a month of utilities the renter pays too
+const scenario: ScenarioState = { ...DEFAULT_SCENARIO_INPUTS, propertyTax: 0.8, maintenance: 1, utilities: 100 };
+const mortgage = calculateMortgage(scenario, { startDate: '2025-01-15' });
+const inputs: RentVsBuyInputs = { ...DEFAULT_RENT_VS_BUY, horizonYears: 30 };
+
+describe('calculateRentVsBuy', () => {
+  it('starts the renter with the cash the buyer spends at closing', () => {
+    const [start] = calculateRentVsBuy(scenario, mortgage, inputs).years;
+
+    expect(start.buyerNetWorth).toBeCloseTo(500000 - mortgage.totalMortgage, 6);
+    expect(start.renterNetWorth).toBe(mortgage.cashRequired);
+  });
+
+  it('has both paths spend the same each year, investing whatever housing does not cost', () => {
+    const { years } = calculateRentVsBuy(scenario, mortgage, { ...inputs, investmentReturn: 0 });
+
+    years.slice(1).forEach((year, index) => {
+      const previous = years[index];
+      const buyerSpending = year.ownershipCost + year.buyerPortfolio - previous.buyerPortfolio;
+      const renterSpending = year.rent + year.renterPortfolio - previous.renterPortfolio;
+      expect(buyerSpending).toBeCloseTo(renterSpending, 6);
+    });
+  });
+
+  it('grows rent and the home value and stops mortgage payments once the loan is repaid', () => {
+    const { years } = calculateRentVsBuy(scenario, mortgage, inputs);
+
+    expect(years).toHaveLength(31);
+    expect(years[2].rent).toBeCloseTo(30000 * 1.03, 6);
+    expect(years[1].homeValue).toBeCloseTo(515000, 6);
+    expect(years[1].ownershipCost).toBeCloseTo(
+      mortgage.amortizationSchedule[0].principalPaid + mortgage.amortizationSchedule[0].interestPaid + 500000 * 0.018,
+      6
+    );
+    expect(years[26].mortgageBalance).toBe(0);
+    expect(years[26].ownershipCost).toBeCloseTo(500000 * 0.018, 6);
+  });
+
+  it('takes the home value and carrying costs from the scenario', () => {
+    const { years } = calculateRentVsBuy(
+      { ...scenario, condoFees: 400, maintenanceEscalation: 2, appreciationRate: 0, homeValues: [{ date: '2027-01-15', value: 550000 }] },
+      mortgage,
+      inputs
+    );
+
+    expect(years[1].homeValue).toBeCloseTo(500000 * Math.sqrt(1.1), 6);
+    expect(years[2].homeValue).toBe(550000);
+    expect(years[10].homeValue).toBe(550000);
+    expect(years[26].ownershipCost).toBeCloseTo(500000 * (0.008 + 0.01 * Math.pow(1.02, 25)) + 4800, 6);
+  });
+
+  it('reports the year buying pulls ahead for good', () => {
+    const result = calculateRentVsBuy(scenario, mortgage, inputs);
+    const breakEven = result.breakEvenYear ?? 0;
+
+    expect(breakEven).toBeGreaterThan(0);
+    expect(result.years[breakEven - 1].buyerNetWorth).toBeLessThan(result.years[breakEven - 1].renterNetWorth);
+    result.years.slice(breakEven).forEach(year => expect(year.buyerNetWorth).toBeGreaterThanOrEqual(year.renterNetWorth));
+  });
+
+  it('never breaks even when renting is cheap and prices are flat', () => {
+    const result = calculateRentVsBuy({ ...scenario, appreciationRate: 0 }, mortgage, { ...inputs, monthlyRent: 800, investmentReturn: 8 });
+
+    expect(result.breakEvenYear).toBeNull();
+  });
+});
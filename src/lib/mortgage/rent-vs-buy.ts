@@ -0,0 +1,70 @@
+import { addMonths } from './dates';
+import { getHomeValue, getHomeValueAnchors } from './equity';
+import { calculateOwnershipCosts } from './ownership';
+import type { MortgageResult, RentVsBuyInputs, RentVsBuyResult, RentVsBuyYear, ScenarioState } from './types';
+
+// Follow a buyer and a renter who start with the same cash and spend the same on housing each year
+// The renter invests the buyer's upfront cash; whichever path costs less in a year invests the difference
+// Contributions are made at the end of each year, and the home is valued without selling costs.
+// The home's value and carrying costs are the scenario's own; utilities are left out as the renter pays them too
+export const calculateRentVsBuy = (
+  scenario: ScenarioState,
+  mortgage: MortgageResult,
+  { monthlyRent, rentInflation, investmentReturn, horizonYears }: RentVsBuyInputs
+): RentVsBuyResult => {
+  const growth = 1 + investmentReturn / 100;
+  const startDate = mortgage.interestAdjustment.date;
+  const anchors = getHomeValueAnchors(scenario.purchasePrice, scenario.homeValues, startDate);
+  const carryingCosts = calculateOwnershipCosts({ ...scenario, utilities: 0 }, horizonYears).yearly;
+  let homeValue = scenario.purchasePrice;
+  let mortgageBalance = mortgage.totalMortgage;
+  let rent = monthlyRent * 12;
+  let buyerPortfolio = 0;
+  let renterPortfolio = mortgage.cashRequired;
+
+  const years: RentVsBuyYear[] = [{
+    year: 0,
+    homeValue,
+    mortgageBalance,
+    ownershipCost: 0,
+    rent: 0,
+    buyerPortfolio,
+    renterPortfolio,
+    buyerNetWorth: homeValue - mortgageBalance,
+    renterNetWorth: renterPortfolio
+  }];
+
+  for (let year = 1; year <= horizonYears; year++) {
+    // Mortgage payments stop once the loan is repaid
+    const scheduleYear = mortgage.amortizationSchedule[year - 1];
+    const payments = scheduleYear ? scheduleYear.principalPaid + scheduleYear.interestPaid : 0;
+    mortgageBalance = scheduleYear ? scheduleYear.endingBalance : 0;
+
+    const ownershipCost = payments + carryingCosts[year - 1];
+    buyerPortfolio = buyerPortfolio * growth + Math.max(rent - ownershipCost, 0);
+    renterPortfolio = renterPortfolio * growth + Math.max(ownershipCost - rent, 0);
+    homeValue = getHomeValue(anchors, scenario.appreciationRate, addMonths(startDate, 12 * year));
+
+    years.push({
+      year,
+      homeValue,
+      mortgageBalance,
+      ownershipCost,
+      rent,
+      buyerPortfolio,
+      renterPortfolio,
+      buyerNetWorth: homeValue - mortgageBalance + buyerPortfolio,
+      renterNetWorth: renterPortfolio
+    });
+
+    rent *= 1 + rentInflation / 100;
+  }
+
+  // Walk back from the horizon to the start of the final stretch where buying stays ahead
+  let breakEvenYear: number | null = null;
+  for (let index = years.length - 1; index > 0 && years[index].buyerNetWorth >= years[index].renterNetWorth; index--) {
+    breakEvenYear = years[index].year;
+  }
+
+  return { years, breakEvenYear };
+};
@@ -0,0 +1,284 @@
+import { describe, expect, it } from 'vitest';
+import { addMonths } from './dates';
+import { generateAmortizationSchedule } from './schedule';
+import type { AmortizationScheduleInput } from './types';
+
+const baseInput: AmortizationScheduleInput = {
+  principal: 100000,
+  annualInterestRate: 6,
+  compoundingPeriodsPerYear: 12,
+  amortizationYears: 30,
+  paymentAmount: 599.5505251527569,
+  paymentFrequency: 'monthly',
+  term: 5,
+  extraPayment: 0,
+  paymentIncrease: 0,
+  annualPrepayment: 0,
+  startDate: '2025-01-15'
+};
+
+describe('generateAmortizationSchedule', () => {
+  it('rolls every payment into yearly rows that sum to the principal', () => {
+    const result = generateAmortizationSchedule(baseInput);
+    const principalPaid = result.yearlySchedule.reduce((sum, item) => sum + item.principalPaid, 0);
+
+    expect(result.yearlySchedule).toHaveLength(30);
+    expect(principalPaid).toBeCloseTo(100000, 6);
+    expect(result.yearlySchedule.map(item => item.year)).toEqual(Array.from({ length: 30 }, (_, i) => i + 1));
+  });
+
+  it('applies the annual prepayment as a percentage of the original principal', () => {
+    const result = generateAmortizationSchedule({ ...baseInput, annualPrepayment: 10 });
+
+    expect(result.yearlySchedule[0].extraPayments).toBeCloseTo(10000, 6);
+    expect(result.yearlySchedule[1].extraPayments).toBeCloseTo(10000, 6);
+    expect(result.effectiveAmortizationYears).toBeLessThan(10);
+  });
+
+  it('raises every payment by the payment increase', () => {
+    const regular = generateAmortizationSchedule(baseInput);
+    const increased = generateAmortizationSchedule({ ...baseInput, paymentIncrease: 20 });
+
+    expect(increased.yearlySchedule[0].principalPaid + increased.yearlySchedule[0].interestPaid)
+      .toBeCloseTo(599.5505251527569 * 1.2 * 12, 6);
+    expect(increased.totalInterestPaid).toBeLessThan(regular.totalInterestPaid);
+  });
+
+  it('never pays more extra principal than the remaining balance', () => {
+    const result = generateAmortizationSchedule({ ...baseInput, extraPayment: 50000 });
+
+    expect(result.effectiveAmortizationYears).toBeCloseTo(2 / 12, 10);
+    expect(result.yearlySchedule[0].endingBalance).toBe(0);
+    expect(result.yearlySchedule[0].principalPaid).toBeCloseTo(100000, 6);
+  });
+
+  it('keeps every payment alongside the yearly roll-up', () => {
+    const result = generateAmortizationSchedule({ ...baseInput, extraPayment: 100, annualPrepayment: 5 });
+
+    result.yearlySchedule.forEach(item => {
+      const payments = result.paymentSchedule.filter(payment => payment.year === item.year);
+      const sum = (key: 'interest' | 'principal' | 'extra') => payments.reduce((total, payment) => total + payment[key], 0);
+
+      expect(sum('interest')).toBeCloseTo(item.interestPaid, 6);
+      expect(sum('principal') + sum('extra')).toBeCloseTo(item.principalPaid, 6);
+      expect(sum('extra')).toBeCloseTo(item.extraPayments, 6);
+      expect(payments[payments.length - 1].balance).toBe(item.endingBalance);
+    });
+  });
+
+  it('answers the balance after any given payment', () => {
+    const result = generateAmortizationSchedule(baseInput);
+    const payment = result.paymentSchedule[36];
+    const growth = Math.pow(1.005, 37);
+
+    expect(result.paymentSchedule).toHaveLength(360);
+    expect(payment.paymentNumber).toBe(37);
+    expect(payment.year).toBe(4);
+    expect(payment.balance).toBeCloseTo(100000 * growth - baseInput.paymentAmount * (growth - 1) / 0.005, 6);
+    expect(payment.payment).toBeCloseTo(payment.interest + payment.principal, 10);
+  });
+
+  it('dates each payment one period after the previous one', () => {
+    const monthly = generateAmortizationSchedule(baseInput);
+    const weekly = generateAmortizationSchedule({ ...baseInput, paymentFrequency: 'weekly', paymentAmount: 138 });
+
+    expect(monthly.paymentSchedule.slice(0, 2).map(payment => payment.date)).toEqual(['2025-02-15', '2025-03-15']);
+    expect(monthly.paymentSchedule[359].date).toBe('2055-01-15');
+    expect(weekly.paymentSchedule.slice(0, 2).map(payment => payment.date)).toEqual(['2025-01-22', '2025-01-29']);
+  });
+});
+
+describe('generateAmortizationSchedule with renewals', () => {
+  const fiveYearTerms: AmortizationScheduleInput = { ...baseInput, amortizationYears: 25, paymentAmount: 644.3014 };
+
+  it('leaves the schedule unchanged when every renewal repeats the original rate', () => {
+    const single = generateAmortizationSchedule(fiveYearTerms);
+    const renewed = generateAmortizationSchedule({
+      ...fiveYearTerms,
+      renewals: [1, 2, 3, 4].map(() => ({ years: 5, interestRate: 6, paymentFrequency: '' }))
+    });
+
+    expect(renewed.termSummaries).toHaveLength(5);
+    expect(renewed.totalInterestPaid).toBeCloseTo(single.totalInterestPaid, 0);
+    expect(renewed.termSummaries[4].endingBalance).toBe(0);
+  });
+
+  it('recalculates the payment on the remaining balance and amortization at each renewal', () => {
+    const result = generateAmortizationSchedule({
+      ...fiveYearTerms,
+      renewals: [{ years: 5, interestRate: 7, paymentFrequency: '' }]
+    });
+    const [first, second, remainder] = result.termSummaries;
+    const rate = 0.07 / 12;
+    const expectedPayment = first.endingBalance * rate / (1 - Math.pow(1 + rate, -240));
+
+    expect(result.termSummaries).toHaveLength(3);
+    expect([first.startYear, first.endYear, second.startYear, second.endYear]).toEqual([1, 5, 6, 10]);
+    expect(second.paymentAmount).toBeCloseTo(expectedPayment, 6);
+    expect(second.interestRate).toBe(7);
+    expect(remainder).toMatchObject({ startYear: 11, endYear: 25, interestRate: 7, assumed: true });
+    expect(remainder.paymentAmount).toBe(second.paymentAmount);
+    expect(result.paymentSchedule[60].payment).toBeCloseTo(expectedPayment, 6);
+    expect(result.termSummaries.reduce((sum, term) => sum + term.interestPaid, 0)).toBeCloseTo(result.totalInterestPaid, 6);
+    expect(result.yearlySchedule[24].endingBalance).toBe(0);
+  });
+
+  it('switches payment frequency at a renewal and restarts the dates on the anniversary', () => {
+    const result = generateAmortizationSchedule({
+      ...fiveYearTerms,
+      renewals: [{ years: 5, interestRate: 6, paymentFrequency: 'weekly' }]
+    });
+    const yearSix = result.paymentSchedule.filter(payment => payment.year === 6);
+
+    expect(yearSix).toHaveLength(52);
+    expect(yearSix[0].paymentNumber).toBe(61);
+    expect(yearSix[0].date).toBe('2030-01-22');
+    expect(result.termSummaries[1].paymentFrequency).toBe('weekly');
+    expect(result.effectiveAmortizationYears).toBeCloseTo(25, 6);
+  });
+
+  it('ignores renewals that start after the amortization ends', () => {
+    const result = generateAmortizationSchedule({
+      ...fiveYearTerms,
+      term: 10,
+      amortizationYears: 12,
+      renewals: [{ years: 5, interestRate: 5, paymentFrequency: '' }, { years: 5, interestRate: 4, paymentFrequency: '' }]
+    });
+
+    expect(result.termSummaries.map(term => [term.startYear, term.endYear])).toEqual([[1, 10], [11, 12]]);
+  });
+});
+
+describe('generateAmortizationSchedule with rate changes', () => {
+  const variableInput: AmortizationScheduleInput = {
+    ...baseInput,
+    amortizationYears: 25,
+    paymentAmount: 644.3014,
+    rateChanges: [{ date: '2026-01-15', interestRate: 7 }]
+  };
+
+  it('charges the new rate from the first payment due on or after the change', () => {
+    const result = generateAmortizationSchedule(variableInput);
+
+    expect(result.paymentSchedule[10].interestRate).toBe(6);
+    expect(result.paymentSchedule[11].interestRate).toBe(7);
+    expect(result.paymentSchedule[11].interest).toBeCloseTo(result.paymentSchedule[10].balance * 0.07 / 12, 6);
+  });
+
+  it('recalculates an adjustable payment over the remaining amortization', () => {
+    const result = generateAmortizationSchedule({ ...variableInput, adjustPaymentOnRateChange: true });
+    const rate = 0.07 / 12;
+    const balance = result.paymentSchedule[10].balance;
+
+    expect(result.paymentSchedule[11].payment).toBeCloseTo(balance * rate / (1 - Math.pow(1 + rate, -289)), 6);
+    expect(result.effectiveAmortizationYears).toBeCloseTo(25, 6);
+    expect(result.triggerPoint).toBeNull();
+  });
+
+  it('keeps a fixed payment and stretches the amortization past its original length', () => {
+    const result = generateAmortizationSchedule(variableInput);
+
+    expect(result.paymentSchedule[11].payment).toBeCloseTo(644.3014, 6);
+    expect(result.effectiveAmortizationYears).toBeGreaterThan(25);
+    expect(result.yearlySchedule[result.yearlySchedule.length - 1].endingBalance).toBe(0);
+    expect(result.termSummaries[result.termSummaries.length - 1].endYear).toBe(result.yearlySchedule.length);
+    expect(result.negativeAmortization).toBe(false);
+  });
+
+  it('detects the trigger point and negative amortization when interest exceeds the payment', () => {
+    const result = generateAmortizationSchedule({ ...variableInput, rateChanges: [{ date: '2026-01-15', interestRate: 9 }] });
+    const trigger = result.paymentSchedule[11];
+
+    expect(result.triggerPoint).toEqual({ paymentNumber: 12, date: '2026-01-15', interestRate: 9 });
+    expect(result.negativeAmortization).toBe(true);
+    expect(trigger.balance).toBeGreaterThan(result.paymentSchedule[10].balance);
+    expect(trigger.payment).toBeCloseTo(644.3014, 6);
+    expect(result.yearlySchedule).toHaveLength(100);
+  });
+});
+
+describe('generateAmortizationSchedule with lump sums and privileges', () => {
+  it('pays a dated lump sum with the first payment due on or after its date', () => {
+    const result = generateAmortizationSchedule({ ...baseInput, lumpSums: [{ date: '2025-06-01', paymentNumber: 0, amount: 5000 }] });
+    const payment = result.paymentSchedule.find(item => item.extra > 0);
+
+    expect(payment).toMatchObject({ paymentNumber: 5, date: '2025-06-15', extra: 5000 });
+    expect(result.yearlySchedule[0].extraPayments).toBeCloseTo(5000, 6);
+  });
+
+  it('pays a lump sum by payment number when no date is given', () => {
+    const result = generateAmortizationSchedule({ ...baseInput, lumpSums: [{ date: '', paymentNumber: 30, amount: 2500 }] });
+    const regular = generateAmortizationSchedule(baseInput);
+
+    expect(result.paymentSchedule[29].extra).toBe(2500);
+    expect(result.paymentSchedule[29].balance).toBeCloseTo(regular.paymentSchedule[29].balance - 2500, 6);
+    expect(result.yearlySchedule[2].extraPayments).toBe(2500);
+  });
+
+  it('shares the yearly privilege between lump sums and the annual prepayment and flags what it cuts back', () => {
+    const result = generateAmortizationSchedule({
+      ...baseInput,
+      annualPrepayment: 10,
+      lumpSumLimit: 15,
+      lumpSums: [{ date: '2025-03-01', paymentNumber: 0, amount: 8000 }]
+    });
+
+    expect(result.yearlySchedule[0].extraPayments).toBeCloseTo(15000, 6);
+    expect(result.yearlySchedule[1].extraPayments).toBeCloseTo(10000, 6);
+    expect(result.prepaymentBreaches).toEqual([{ kind: 'annual_prepayment', year: 1, requested: 10000, allowed: 7000 }]);
+  });
+
+  it('caps a single lump sum at the privilege', () => {
+    const result = generateAmortizationSchedule({
+      ...baseInput,
+      lumpSumLimit: 15,
+      lumpSums: [{ date: '', paymentNumber: 1, amount: 40000 }]
+    });
+
+    expect(result.paymentSchedule[0].extra).toBeCloseTo(15000, 6);
+    expect(result.prepaymentBreaches).toEqual([{ kind: 'lump_sum', year: 1, requested: 40000, allowed: 15000 }]);
+  });
+});
+
+describe('generateAmortizationSchedule on calendar dates', () => {
+  it('counts bi-weekly payments by mortgage year, with an occasional 27-payment year', () => {
+    const result = generateAmortizationSchedule({ ...baseInput, paymentFrequency: 'biweekly', paymentAmount: 276.49 });
+    const counts = result.yearlySchedule.map(item => result.paymentSchedule.filter(payment => payment.year === item.year).length);
+
+    expect(counts.slice(0, 10).every(count => count === 26)).toBe(true);
+    expect(counts).toContain(27);
+    result.paymentSchedule.forEach(payment => {
+      expect(payment.date > addMonths(baseInput.startDate, 12 * (payment.year - 1))).toBe(true);
+      expect(payment.date <= addMonths(baseInput.startDate, 12 * payment.year)).toBe(true);
+    });
+  });
+
+  it('pays semi-monthly on the start day and 15 days later', () => {
+    const result = generateAmortizationSchedule({ ...baseInput, paymentFrequency: 'semi_monthly', paymentAmount: 299.66 });
+
+    expect(result.paymentSchedule.slice(0, 4).map(payment => payment.date)).toEqual(['2025-01-30', '2025-02-15', '2025-03-02', '2025-03-15']);
+    expect(result.paymentSchedule.filter(payment => payment.year === 1)).toHaveLength(24);
+  });
+
+  it('follows the first payment date until the first renewal', () => {
+    const result = generateAmortizationSchedule({
+      ...baseInput,
+      startDate: '2025-01-31',
+      firstPaymentDate: '2025-02-28',
+      renewals: [{ years: 5, interestRate: 6, paymentFrequency: '' }]
+    });
+
+    expect(result.paymentSchedule[1].date).toBe('2025-03-28');
+    expect(result.paymentSchedule[60].date).toBe('2030-02-28');
+  });
+
+  it('takes the term-end balance and interest at the maturity date', () => {
+    const result = generateAmortizationSchedule(baseInput);
+    const atMaturity = result.paymentSchedule.filter(payment => payment.date <= '2030-01-15');
+
+    expect(result.maturityDate).toBe('2030-01-15');
+    expect(atMaturity).toHaveLength(60);
+    expect(result.balanceAtEndOfTerm).toBe(atMaturity[59].balance);
+    expect(result.totalInterestPaidOverTerm).toBeCloseTo(atMaturity.reduce((sum, payment) => sum + payment.interest, 0), 6);
+  });
+});
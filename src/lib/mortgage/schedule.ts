@@ -0,0 +1,333 @@
+import { getPaymentFrequency, MAX_AMORTIZATION_YEARS } from './constants';
+import { addMonths, addPaymentPeriods } from './dates';
+import { calculateScheduledPayment } from './payments';
+import { getPeriodicRate } from './rates';
+import type {
+  AmortizationItem,
+  AmortizationPayment,
+  AmortizationScheduleInput,
+  AmortizationScheduleResult,
+  PrepaymentBreach,
+  RenewalTerm,
+  TermSummary,
+  TriggerPoint
+} from './types';
+
+// Balances below half a cent are treated as paid off to absorb floating point drift
+export const BALANCE_EPSILON = 0.005;
+
+interface TermSegment {
+  startYear: number;
+  endYear: number;
+  interestRate: number;
+  paymentFrequency: string;
+  assumed: boolean;
+}
+
+// Lay the initial term and renewals end to end over the amortization
+// Years not covered by a term continue at the last term's rate and payment
+const buildTermSegments = (
+  initialTerm: RenewalTerm,
+  renewals: RenewalTerm[],
+  amortizationYears: number
+): TermSegment[] => {
+  const segments: TermSegment[] = [];
+  let startYear = 1;
+  let paymentFrequency = initialTerm.paymentFrequency;
+
+  for (const term of [initialTerm, ...renewals]) {
+    if (startYear > amortizationYears) break;
+    if (term.years <= 0) continue;
+
+    paymentFrequency = term.paymentFrequency || paymentFrequency;
+    const endYear = Math.min(startYear + term.years - 1, amortizationYears);
+    segments.push({ startYear, endYear, interestRate: term.interestRate, paymentFrequency, assumed: false });
+    startYear = endYear + 1;
+  }
+
+  const last = segments[segments.length - 1];
+  if (last && startYear <= amortizationYears) {
+    segments.push({ ...last, startYear, endYear: amortizationYears, assumed: true });
+  }
+
+  return segments;
+};
+
+// Generate amortization schedule
+export const generateAmortizationSchedule = ({
+  principal,
+  annualInterestRate,
+  compoundingPeriodsPerYear,
+  amortizationYears,
+  paymentAmount,
+  paymentFrequency,
+  term,
+  renewals = [],
+  extraPayment,
+  paymentIncrease,
+  annualPrepayment,
+  lumpSums = [],
+  lumpSumLimit,
+  startDate,
+  firstPaymentDate,
+  rateChanges = [],
+  adjustPaymentOnRateChange = false
+}: AmortizationScheduleInput): AmortizationScheduleResult => {
+  const segments = buildTermSegments(
+    { years: Math.max(term, 1), interestRate: annualInterestRate, paymentFrequency },
+    renewals,
+    amortizationYears
+  );
+
+  let balance = principal;
+  let totalInterestPaid = 0;
+  const yearlySchedule: AmortizationItem[] = [];
+  const paymentSchedule: AmortizationPayment[] = [];
+  const termSummaries: TermSummary[] = [];
+  let totalInterestPaidOverTerm = 0;
+  let balanceAtEndOfTerm = 0;
+  let lastPaymentNumber = 0;
+  // Payments counted per frequency so a single-frequency loan divides out exactly
+  const paymentCounts = new Map<number, number>();
+  let triggerPoint: TriggerPoint | null = null;
+  let negativeAmortization = false;
+
+  // Rate changes are applied in date order as their payments fall due
+  const pendingRateChanges = [...rateChanges].sort((a, b) => a.date.localeCompare(b.date));
+  let nextRateChange = 0;
+
+  // Dated lump sums are paid in date order as their payments fall due, the rest by payment number
+  const datedLumpSums = lumpSums.filter(lumpSum => lumpSum.date).sort((a, b) => a.date.localeCompare(b.date));
+  const numberedLumpSums = lumpSums.filter(lumpSum => !lumpSum.date);
+  let nextLumpSum = 0;
+
+  // Lump sums and the annual prepayment share one privilege per mortgage year
+  const prepaymentBreaches: PrepaymentBreach[] = [];
+  const yearlyAllowance = lumpSumLimit === undefined ? Infinity : principal * (lumpSumLimit / 100);
+  let allowance = yearlyAllowance;
+  const applyPrivilege = (requested: number, kind: PrepaymentBreach['kind'], year: number) => {
+    if (requested > allowance + BALANCE_EPSILON) {
+      prepaymentBreaches.push({ kind, year, requested, allowed: allowance });
+    }
+    const allowed = Math.min(requested, allowance);
+    allowance -= allowed;
+    return allowed;
+  };
+
+  // Per-term state, reset at every renewal
+  let paymentsPerYear = getPaymentFrequency(paymentFrequency).paymentsPerYear;
+  let currentRate = annualInterestRate;
+  let interestRatePerPayment = getPeriodicRate(currentRate, compoundingPeriodsPerYear, paymentsPerYear);
+  let basePayment = paymentAmount;
+  let termStartDate = startDate;
+  let paymentsInTerm = 0;
+
+  // First-term payments follow the first payment date when one is given; a renewal restarts them
+  // one period after its anniversary
+  let followsFirstPayment = Boolean(firstPaymentDate);
+  const getPaymentDate = (paymentInTerm: number) => (followsFirstPayment && firstPaymentDate
+    ? addPaymentPeriods(firstPaymentDate, paymentsPerYear, paymentInTerm - 1)
+    : addPaymentPeriods(termStartDate, paymentsPerYear, paymentInTerm));
+
+  // Term-end figures are taken at the maturity date rather than after a count of payments
+  const maturityDate = addMonths(startDate, 12 * term);
+
+  for (const [index, segment] of segments.entries()) {
+    if (balance <= 0) break;
+
+    // At a renewal the payment is recalculated on the remaining balance and amortization
+    if (index > 0 && !segment.assumed) {
+      const renewed = calculateScheduledPayment(
+        balance,
+        segment.interestRate,
+        compoundingPeriodsPerYear,
+        segment.paymentFrequency,
+        amortizationYears - segment.startYear + 1
+      );
+      basePayment = renewed.paymentAmount;
+      paymentsPerYear = renewed.paymentsPerYear;
+      currentRate = segment.interestRate;
+      interestRatePerPayment = getPeriodicRate(currentRate, compoundingPeriodsPerYear, paymentsPerYear);
+      termStartDate = addMonths(startDate, 12 * (segment.startYear - 1));
+      paymentsInTerm = 0;
+      followsFirstPayment = false;
+    }
+
+    // Calculate adjusted payment with increase
+    let adjustedPayment = basePayment * (1 + paymentIncrease / 100);
+
+    const summary: TermSummary = {
+      termNumber: termSummaries.length + 1,
+      startYear: segment.startYear,
+      endYear: segment.endYear,
+      interestRate: segment.interestRate,
+      paymentFrequency: segment.paymentFrequency,
+      paymentAmount: adjustedPayment,
+      interestPaid: 0,
+      principalPaid: 0,
+      endingBalance: balance,
+      assumed: segment.assumed
+    };
+
+    // A fixed payment that no longer covers the amortization keeps the last term running past it
+    const lastYear = index === segments.length - 1 ? MAX_AMORTIZATION_YEARS : segment.endYear;
+
+    // Process each year
+    for (let year = segment.startYear; year <= lastYear; year++) {
+      let yearlyPrincipalPaid = 0;
+      let yearlyInterestPaid = 0;
+      let yearlyExtraPayments = 0;
+      allowance = yearlyAllowance;
+
+      // Process each payment due in the mortgage year, which ends on an anniversary of the start date;
+      // bi-weekly and weekly years occasionally hold a 27th or 53rd payment
+      const yearEnd = addMonths(startDate, 12 * year);
+      for (let i = 1; balance > 0; i++) {
+        const date = getPaymentDate(paymentsInTerm + 1);
+        if (date > yearEnd) break;
+        lastPaymentNumber++;
+        paymentsInTerm++;
+        paymentCounts.set(paymentsPerYear, (paymentCounts.get(paymentsPerYear) ?? 0) + 1);
+
+        // Apply rate changes due by this payment; adjustable payments are recalculated on the remaining amortization
+        const rateChangeIndex = nextRateChange;
+        while (nextRateChange < pendingRateChanges.length && pendingRateChanges[nextRateChange].date <= date) {
+          currentRate = pendingRateChanges[nextRateChange].interestRate;
+          nextRateChange++;
+        }
+
+        if (nextRateChange > rateChangeIndex) {
+          interestRatePerPayment = getPeriodicRate(currentRate, compoundingPeriodsPerYear, paymentsPerYear);
+
+          if (adjustPaymentOnRateChange) {
+            const remainingYears = Math.max(amortizationYears - (year - 1) - (i - 1) / paymentsPerYear, 1 / paymentsPerYear);
+            basePayment = calculateScheduledPayment(
+              balance,
+              currentRate,
+              compoundingPeriodsPerYear,
+              segment.paymentFrequency,
+              remainingYears
+            ).paymentAmount;
+            adjustedPayment = basePayment * (1 + paymentIncrease / 100);
+          }
+        }
+
+        // Calculate interest and principal for this payment
+        const interestForPayment = balance * interestRatePerPayment;
+        let principalForPayment = Math.min(adjustedPayment - interestForPayment, balance);
+
+        // Interest at or above the payment means the trigger rate has been reached
+        if (!triggerPoint && interestForPayment > 0 && interestForPayment >= adjustedPayment) {
+          triggerPoint = { paymentNumber: lastPaymentNumber, date, interestRate: currentRate };
+        }
+
+        // Add extra payment if specified
+        let extraPrincipalPaid = 0;
+        if (extraPayment > 0) {
+          extraPrincipalPaid = Math.min(extraPayment, balance - principalForPayment);
+          principalForPayment += extraPrincipalPaid;
+          yearlyExtraPayments += extraPrincipalPaid;
+        }
+
+        // Add any lump sums due with this payment, up to what the privilege still allows this year
+        let lumpSumDue = 0;
+        while (nextLumpSum < datedLumpSums.length && datedLumpSums[nextLumpSum].date <= date) {
+          lumpSumDue += datedLumpSums[nextLumpSum].amount;
+          nextLumpSum++;
+        }
+        numberedLumpSums.forEach(lumpSum => {
+          if (lumpSum.paymentNumber === lastPaymentNumber) lumpSumDue += lumpSum.amount;
+        });
+        if (lumpSumDue > 0) {
+          const lumpSumPaid = Math.min(applyPrivilege(lumpSumDue, 'lump_sum', year), balance - principalForPayment);
+          principalForPayment += lumpSumPaid;
+          extraPrincipalPaid += lumpSumPaid;
+          yearlyExtraPayments += lumpSumPaid;
+        }
+
+        // Update balance; unpaid interest is added to it under negative amortization
+        balance -= principalForPayment;
+        if (balance < BALANCE_EPSILON) balance = 0;
+        if (principalForPayment < 0) negativeAmortization = true;
+
+        paymentSchedule.push({
+          paymentNumber: lastPaymentNumber,
+          year,
+          date,
+          payment: interestForPayment + principalForPayment,
+          interest: interestForPayment,
+          principal: principalForPayment - extraPrincipalPaid,
+          extra: extraPrincipalPaid,
+          balance,
+          interestRate: currentRate
+        });
+
+        // Update yearly totals
+        yearlyPrincipalPaid += principalForPayment;
+        yearlyInterestPaid += interestForPayment;
+        totalInterestPaid += interestForPayment;
+
+        if (date <= maturityDate) {
+          balanceAtEndOfTerm = balance;
+          totalInterestPaidOverTerm = totalInterestPaid;
+        }
+      }
+
+      // Apply annual prepayment if specified
+      if (annualPrepayment > 0 && balance > 0) {
+        const annualPrepaymentAmount = Math.min(
+          applyPrivilege(principal * (annualPrepayment / 100), 'annual_prepayment', year),
+          balance
+        );
+        balance -= annualPrepaymentAmount;
+        if (balance < BALANCE_EPSILON) balance = 0;
+        yearlyPrincipalPaid += annualPrepaymentAmount;
+        yearlyExtraPayments += annualPrepaymentAmount;
+
+        // The lump sum is paid alongside the last payment of the year
+        const lastPayment = paymentSchedule[paymentSchedule.length - 1];
+        lastPayment.payment += annualPrepaymentAmount;
+        lastPayment.extra += annualPrepaymentAmount;
+        lastPayment.balance = balance;
+
+        // The prepayment on the maturity anniversary itself falls after the term-end balance
+        if (yearEnd < maturityDate) balanceAtEndOfTerm = balance;
+      }
+
+      // Add year to schedule
+      yearlySchedule.push({
+        year,
+        principalPaid: yearlyPrincipalPaid,
+        interestPaid: yearlyInterestPaid,
+        extraPayments: yearlyExtraPayments,
+        endingBalance: balance
+      });
+
+      summary.interestPaid += yearlyInterestPaid;
+      summary.principalPaid += yearlyPrincipalPaid;
+      summary.endingBalance = balance;
+      summary.endYear = year;
+
+      if (balance <= 0) break;
+    }
+
+    termSummaries.push(summary);
+  }
+
+  // Calculate effective amortization in years
+  const effectiveAmortizationYears = [...paymentCounts].reduce((years, [perYear, count]) => years + count / perYear, 0);
+
+  return {
+    yearlySchedule,
+    paymentSchedule,
+    termSummaries,
+    totalInterestPaid,
+    totalInterestPaidOverTerm,
+    balanceAtEndOfTerm,
+    maturityDate,
+    effectiveAmortizationYears,
+    triggerPoint,
+    negativeAmortization,
+    prepaymentBreaches
+  };
+};
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMortgage } from './calculate';
+import { MAX_SENSITIVITY_STEPS } from './constants';
+import { DEFAULT_SCENARIO_INPUTS } from './defaults';
+import {
+  calculateSensitivityGrid,
+  calculateSensitivityGridInChunks,
+  calculateTornado,
+  getDefaultSensitivityRange,
+  getRangeValues,
+  getSensitivityVariable,
+  getSensitivityVariables
+} from './sensitivity';
+
+const options = { startDate: '2025-01-15' };
+
+describe('getRangeValues', () => {
+  it('steps from min to max without floating point drift', () => {
+    expect(getRangeValues({ field: 'interestRate', min: 4, max: 5, step: 0.1 })).toEqual([4, 4.1, 4.2, 4.3, 4.4, 4.5, 4.6, 4.7, 4.8, 4.9, 5]);
+  });
+
+  it('caps the number of steps and survives an empty range', () => {
+    expect(getRangeValues({ field: 'extraPayment', min: 0, max: 10000, step: 1 })).toHaveLength(MAX_SENSITIVITY_STEPS);
+    expect(getRangeValues({ field: 'extraPayment', min: 100, max: 50, step: 10 })).toEqual([100]);
+    expect(getRangeValues({ field: 'extraPayment', min: 100, max: 500, step: 0 })).toEqual([100]);
+  });
+});
+
+describe('getDefaultSensitivityRange', () => {
+  it('centres nine steps on the current value, staying within the variable limits', () => {
+    expect(getDefaultSensitivityRange(DEFAULT_SCENARIO_INPUTS, getSensitivityVariable('interestRate')))
+      .toEqual({ field: 'interestRate', min: 3.5, max: 7.5, step: 0.5 });
+    const amortization = getSensitivityVariables(DEFAULT_SCENARIO_INPUTS).find(variable => variable.field === 'amortizationPeriod')!;
+    expect(getDefaultSensitivityRange(DEFAULT_SCENARIO_INPUTS, amortization))
+      .toEqual({ field: 'amortizationPeriod', min: 5, max: 30, step: 5 });
+    expect(getDefaultSensitivityRange({ ...DEFAULT_SCENARIO_INPUTS, extraPayment: 100 }, getSensitivityVariable('extraPayment')))
+      .toEqual({ field: 'extraPayment', min: 0, max: 800, step: 100 });
+  });
+});
+
+describe('getSensitivityVariables', () => {
+  it('offers the rate that drives the scenario', () => {
+    const fixed = getSensitivityVariables(DEFAULT_SCENARIO_INPUTS).map(variable => variable.field);
+    const variable = getSensitivityVariables({ ...DEFAULT_SCENARIO_INPUTS, rateType: 'variable' }).map(item => item.field);
+
+    expect(fixed).toContain('interestRate');
+    expect(fixed).not.toContain('primeRate');
+    expect(variable).toContain('primeRate');
+    expect(variable).not.toContain('interestRate');
+  });
+
+  it('sweeps the amortization up to the longest the market allows', () => {
+    const getAmortization = (market: string) => getSensitivityVariables({ ...DEFAULT_SCENARIO_INPUTS, market })
+      .find(variable => variable.field === 'amortizationPeriod')!;
+
+    expect(getAmortization('CA').max).toBe(30);
+    expect(getAmortization('US').max).toBe(40);
+    expect(getDefaultSensitivityRange({ ...DEFAULT_SCENARIO_INPUTS, market: 'US', amortizationPeriod: 40 }, getAmortization('US')))
+      .toEqual({ field: 'amortizationPeriod', min: 20, max: 40, step: 5 });
+    expect(calculateTornado(
+      { ...DEFAULT_SCENARIO_INPUTS, market: 'US', amortizationPeriod: 35 },
+      [getAmortization('US')],
+      'monthlyPayment',
+      options
+    ).bars[0]).toMatchObject({ lowInput: 30, highInput: 40 });
+  });
+});
+
+describe('calculateSensitivityGrid', () => {
+  it('calculates the metric for every pair of values', () => {
+    const grid = calculateSensitivityGrid(
+      DEFAULT_SCENARIO_INPUTS,
+      { field: 'interestRate', min: 4, max: 6, step: 1 },
+      { field: 'amortizationPeriod', min: 20, max: 30, step: 5 },
+      'monthlyPayment',
+      options
+    );
+
+    expect(grid.rowValues).toEqual([4, 5, 6]);
+    expect(grid.columnValues).toEqual([20, 25, 30]);
+    expect(grid.values[1][2]).toBeCloseTo(
+      calculateMortgage({ ...DEFAULT_SCENARIO_INPUTS, interestRate: 5, amortizationPeriod: 30 }, options).monthlyPayment,
+      6
+    );
+    // Payments rise with the rate and fall with a longer amortization
+    expect(grid.values[2][0]).toBeGreaterThan(grid.values[0][0]);
+    expect(grid.values[0][2]).toBeLessThan(grid.values[0][0]);
+  });
+
+  it('takes every metric from the schedule as calculateMortgage reports it', () => {
+    const rows = { field: 'interestRate' as const, min: 5, max: 5, step: 1 };
+    const columns = { field: 'extraPayment' as const, min: 200, max: 200, step: 1 };
+    const result = calculateMortgage({ ...DEFAULT_SCENARIO_INPUTS, interestRate: 5, extraPayment: 200 }, options);
+
+    (['monthlyPayment', 'totalInterestLifetime', 'balanceAtEndOfTerm', 'effectiveAmortization'] as const).forEach(metric => {
+      expect(calculateSensitivityGrid(DEFAULT_SCENARIO_INPUTS, rows, columns, metric, options).values).toEqual([[result[metric]]]);
+    });
+  });
+});
+
+describe('calculateSensitivityGridInChunks', () => {
+  const rows = { field: 'interestRate' as const, min: 3, max: 7, step: 0.5 };
+  const columns = { field: 'amortizationPeriod' as const, min: 10, max: 30, step: 5 };
+
+  it('gives the same grid as a single run and reports its progress', async () => {
+    const progress: number[] = [];
+    const grid = await calculateSensitivityGridInChunks(DEFAULT_SCENARIO_INPUTS, rows, columns, 'monthlyPayment', options, completed => {
+      progress.push(completed);
+    });
+
+    expect(grid).toEqual(calculateSensitivityGrid(DEFAULT_SCENARIO_INPUTS, rows, columns, 'monthlyPayment', options));
+    expect(progress).toEqual([20, 40, 45]);
+  });
+
+  it('stops when its signal is aborted', async () => {
+    const controller = new AbortController();
+    const progress: number[] = [];
+    const grid = calculateSensitivityGridInChunks(DEFAULT_SCENARIO_INPUTS, rows, columns, 'monthlyPayment', options, completed => {
+      progress.push(completed);
+      controller.abort();
+    }, controller.signal);
+
+    await expect(grid).rejects.toThrow();
+    expect(progress).toEqual([20]);
+  });
+});
+
+describe('calculateTornado', () => {
+  it('ranks inputs by how far they swing the metric', () => {
+    const variables = getSensitivityVariables(DEFAULT_SCENARIO_INPUTS);
+    const { base, bars } = calculateTornado(DEFAULT_SCENARIO_INPUTS, variables, 'totalInterestLifetime', options);
+    const rate = bars.find(bar => bar.field === 'interestRate');
+
+    expect(base).toBeCloseTo(calculateMortgage(DEFAULT_SCENARIO_INPUTS, options).totalInterestLifetime, 6);
+    expect(bars).toHaveLength(variables.length);
+    expect(bars.map(bar => bar.swing)).toEqual([...bars.map(bar => bar.swing)].sort((a, b) => b - a));
+    expect(rate).toMatchObject({ lowInput: 4.5, highInput: 6.5 });
+    expect(rate?.low).toBeLessThan(base);
+    expect(rate?.high).toBeGreaterThan(base);
+  });
+
+  it('does not push inputs below their minimum', () => {
+    const { bars } = calculateTornado(DEFAULT_SCENARIO_INPUTS, [getSensitivityVariable('extraPayment')], 'totalInterestLifetime', options);
+
+    expect(bars[0]).toMatchObject({ lowInput: 0, highInput: 200 });
+  });
+});
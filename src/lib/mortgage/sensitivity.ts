@@ -0,0 +1,155 @@
+import { calculateScenarioSchedule } from './calculate';
+import { getMarket, MAX_SENSITIVITY_STEPS, SENSITIVITY_VARIABLES } from './constants';
+import { todayISODate } from './dates';
+import type {
+  CalculationOptions,
+  NumericScenarioField,
+  ScenarioState,
+  SensitivityGrid,
+  SensitivityMetric,
+  SensitivityRange,
+  SensitivityVariable,
+  TornadoBar
+} from './types';
+
+// Values from min to max in equal steps, capped at MAX_SENSITIVITY_STEPS; rounded so 0.1 steps stay clean
+export const getRangeValues = ({ min, max, step }: SensitivityRange) => {
+  if (!(step > 0) || max <= min) return [min];
+  const count = Math.min(Math.floor((max - min) / step + 1e-9) + 1, MAX_SENSITIVITY_STEPS);
+  return Array.from({ length: count }, (_, i) => Number((min + i * step).toFixed(6)));
+};
+
+// Only the rate that drives the scenario: prime for variable rates, the contract rate otherwise.
+// The amortization goes up to the longest the scenario's market allows
+export const getSensitivityVariables = (scenario: ScenarioState): SensitivityVariable[] => {
+  const { maxAmortization } = getMarket(scenario.market);
+  return SENSITIVITY_VARIABLES
+    .filter(variable => (
+      scenario.rateType === 'variable' ? variable.field !== 'interestRate' : variable.field !== 'primeRate'
+    ))
+    .map(variable => (variable.field === 'amortizationPeriod' ? { ...variable, max: maxAmortization } : variable));
+};
+
+export const getSensitivityVariable = (field: NumericScenarioField) => {
+  return SENSITIVITY_VARIABLES.find(variable => variable.field === field) ?? SENSITIVITY_VARIABLES[0];
+};
+
+// Up to nine steps around the scenario's own value, which always falls on the grid, within the variable's limits
+export const getDefaultSensitivityRange = (scenario: ScenarioState, variable: SensitivityVariable): SensitivityRange => {
+  const value = scenario[variable.field];
+  const stepsBelow = Math.max(0, Math.min(4, Math.floor((value - variable.min) / variable.step + 1e-9)));
+  const min = Number((value - stepsBelow * variable.step).toFixed(6));
+  const max = Math.min(variable.max ?? Infinity, Number((min + 8 * variable.step).toFixed(6)));
+  return { field: variable.field, min, max: Math.max(max, value), step: variable.step };
+};
+
+// Every metric comes from the schedule, so the costs and checks calculateMortgage adds around it are skipped
+const getMetric = (scenario: ScenarioState, metric: SensitivityMetric, startDate: string) => {
+  const { monthlyPayment, scheduleResult } = calculateScenarioSchedule(scenario, { startDate });
+  switch (metric) {
+    case 'monthlyPayment':
+      return monthlyPayment;
+    case 'totalInterestLifetime':
+      return scheduleResult.totalInterestPaid;
+    case 'balanceAtEndOfTerm':
+      return scheduleResult.balanceAtEndOfTerm;
+    case 'effectiveAmortization':
+      return scheduleResult.effectiveAmortizationYears;
+  }
+};
+
+// Cells are filled row by row a batch at a time so that a caller can pause between batches
+const createSensitivityGrid = (
+  scenario: ScenarioState,
+  rows: SensitivityRange,
+  columns: SensitivityRange,
+  metric: SensitivityMetric,
+  options: CalculationOptions
+) => {
+  const startDate = options.startDate ?? todayISODate();
+  const rowValues = getRangeValues(rows);
+  const columnValues = getRangeValues(columns);
+  const cells = rowValues.length * columnValues.length;
+  const values: number[][] = rowValues.map(() => []);
+  let completed = 0;
+
+  const runCells = (count: number) => {
+    for (let run = 0; run < count && completed < cells; run++, completed++) {
+      const rowIndex = Math.floor(completed / columnValues.length);
+      const columnValue = columnValues[completed % columnValues.length];
+      values[rowIndex].push(getMetric(
+        { ...scenario, [rows.field]: rowValues[rowIndex], [columns.field]: columnValue },
+        metric,
+        startDate
+      ));
+    }
+    return completed;
+  };
+
+  const getResult = (): SensitivityGrid => ({ rowField: rows.field, columnField: columns.field, rowValues, columnValues, values });
+
+  return { cells, runCells, getResult };
+};
+
+// Metric for every combination of two inputs, all else held at the scenario's values
+export const calculateSensitivityGrid = (
+  scenario: ScenarioState,
+  rows: SensitivityRange,
+  columns: SensitivityRange,
+  metric: SensitivityMetric,
+  options: CalculationOptions = {}
+): SensitivityGrid => {
+  const grid = createSensitivityGrid(scenario, rows, columns, metric, options);
+  grid.runCells(grid.cells);
+  return grid.getResult();
+};
+
+// Cells computed between pauses by calculateSensitivityGridInChunks
+const CELLS_PER_CHUNK = 20;
+
+// The same grid as calculateSensitivityGrid, computed a chunk of cells at a time with a pause after each so the
+// page stays responsive; `onProgress` is told how many cells are done, and an aborted `signal` stops the run
+export const calculateSensitivityGridInChunks = async (
+  scenario: ScenarioState,
+  rows: SensitivityRange,
+  columns: SensitivityRange,
+  metric: SensitivityMetric,
+  options: CalculationOptions = {},
+  onProgress?: (completed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<SensitivityGrid> => {
+  const grid = createSensitivityGrid(scenario, rows, columns, metric, options);
+
+  let completed = 0;
+  while (completed < grid.cells) {
+    signal?.throwIfAborted();
+    completed = grid.runCells(CELLS_PER_CHUNK);
+    onProgress?.(completed, grid.cells);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  signal?.throwIfAborted();
+
+  return grid.getResult();
+};
+
+// Move one input at a time down and up by its tornado delta; bars are ranked by how far the metric swings
+export const calculateTornado = (
+  scenario: ScenarioState,
+  variables: SensitivityVariable[],
+  metric: SensitivityMetric,
+  options: CalculationOptions = {}
+) => {
+  const startDate = options.startDate ?? todayISODate();
+  const base = getMetric(scenario, metric, startDate);
+
+  const bars: TornadoBar[] = variables.map(variable => {
+    const value = scenario[variable.field];
+    const lowInput = Math.max(variable.min, value - variable.tornadoDelta);
+    const highInput = Math.min(variable.max ?? Infinity, value + variable.tornadoDelta);
+    const low = getMetric({ ...scenario, [variable.field]: lowInput }, metric, startDate);
+    const high = getMetric({ ...scenario, [variable.field]: highInput }, metric, startDate);
+    return { field: variable.field, label: variable.label, lowInput, highInput, low, high, swing: Math.abs(high - low) };
+  });
+
+  return { base, bars: bars.sort((a, b) => b.swing - a.swing) };
+};
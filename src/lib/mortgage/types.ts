@@ -0,0 +1,672 @@
+// Inputs describing a single mortgage scenario
+export type ScenarioState = {
+  market: string; // lending conventions the scenario follows, see MARKETS
+  purchasePrice: number;
+  downPayment: number;
+  downPaymentType: string;
+  interestRate: number;
+  compounding: string;
+  amortizationPeriod: number;
+  term: number;
+  paymentFrequency: string;
+  startDate: string; // ISO date the mortgage is advanced, '' for today
+  firstPaymentDate: string; // ISO date of the first payment, '' for one period after the start
+  extraPayment: number;
+  paymentIncrease: number;
+  annualPrepayment: number;
+  lumpSums: LumpSum[];
+  lumpSumLimit: number; // lender's yearly lump-sum privilege, % of the original principal
+  paymentIncreaseLimit: number; // lender's payment increase privilege, %
+  renewals: RenewalTerm[];
+  rateType: string;
+  primeRate: number;
+  primeSpread: number; // added to prime for variable rates, negative for prime-minus pricing
+  variablePayment: string;
+  primeRateChanges: PrimeRateChange[];
+  breakMonth: number; // months into the term the existing fixed-rate mortgage is broken, 0 to keep it
+  postedRate: number; // posted rate when the existing mortgage was signed
+  rateDiscount: number; // discount off the posted rate; postedRate - rateDiscount is the existing contract rate
+  comparisonRate: number; // current posted rate for the remaining term
+  armProduct: string;
+  armIndex: number; // index rate at each adjustment, %
+  armMargin: number; // added to the index, %
+  armInitialCap: number; // largest move at the first adjustment, percentage points
+  armPeriodicCap: number; // largest move at each later adjustment
+  armLifetimeCap: number; // largest move from the start rate over the life of the loan
+  pmiRate: number; // yearly private mortgage insurance, % of the loan
+  pmiCancelOnRequest: boolean; // cancel PMI at 80% loan-to-value rather than wait for it to end at 78%
+  points: number; // discount points paid at closing, % of the loan
+  province: string;
+  municipality: string; // '' outside any municipality with its own tax
+  firstTimeBuyer: boolean;
+  legalFees: number;
+  appraisalFee: number;
+  inspectionFee: number;
+  otherClosingCosts: number;
+  propertyTax: number; // yearly, % of the purchase price or an amount per propertyTaxType
+  propertyTaxType: string;
+  condoFees: number; // monthly
+  homeInsurance: number; // monthly
+  utilities: number; // monthly
+  maintenance: number; // yearly reserve, % of the purchase price
+  propertyTaxEscalation: number; // each escalation is a yearly increase, %
+  condoFeesEscalation: number;
+  homeInsuranceEscalation: number;
+  utilitiesEscalation: number;
+  maintenanceEscalation: number;
+  appreciationRate: number; // yearly, %; applies after the last expected home value
+  homeValues: HomeValue[];
+};
+
+// Interest from the advance to the interest adjustment date, one period before the first payment
+export interface InterestAdjustment {
+  date: string;
+  days: number;
+  amount: number;
+}
+
+// Expected market value of the home on `date` (ISO)
+export interface HomeValue {
+  date: string;
+  value: number;
+}
+
+export interface EquityYear {
+  year: number;
+  date: string; // end of the mortgage year
+  homeValue: number;
+  balance: number;
+  equity: number;
+  loanToValue: number; // %
+}
+
+// First mortgage year ending at or below `loanToValue` %; 0 when the loan starts there, null when it never gets there
+export interface LoanToValueCrossing {
+  loanToValue: number;
+  year: number | null;
+  date: string | null;
+}
+
+export interface EquityProjection {
+  years: EquityYear[]; // one per year of the amortization schedule
+  crossings: LoanToValueCrossing[];
+}
+
+// Monthly carrying costs of the home besides the mortgage
+export interface OwnershipCostItems {
+  propertyTax: number;
+  condoFees: number;
+  homeInsurance: number;
+  utilities: number;
+  maintenance: number;
+}
+
+export interface OwnershipCosts {
+  monthly: OwnershipCostItems & { total: number }; // first year
+  yearly: number[]; // total for each year of the amortization, escalations applied
+  lifetime: number;
+}
+
+// Rates for weighing money paid in different years, % per year
+export interface EconomicAssumptions {
+  discountRate: number;
+  inflationRate: number;
+}
+
+// Figures in today's dollars: each amount deflated at the inflation rate from the date it is paid
+export interface RealDollarFigures {
+  totalInterestTerm: number;
+  totalInterestLifetime: number;
+  balanceAtEndOfTerm: number;
+  totalCost: number;
+  yearEndBalances: number[]; // one per year of the amortization schedule
+}
+
+// Qualification limits (percent) and the rate a borrower is qualified at
+export interface QualificationRules {
+  maxGds: number;
+  maxTds: number;
+  stressTestBuffer: number;
+  minimumQualifyingRate: number;
+  condoFeeShare: number; // percent of condo fees counted as a housing cost
+}
+
+// Lending conventions of one country; the engine and the calculator take their rules from it
+export interface MarketProfile {
+  value: string;
+  label: string;
+  locale: string;
+  currency: string;
+  compounding: string | null; // every loan compounds this way; null leaves it to the scenario
+  fullLengthTerm: boolean; // fixed rates last the whole amortization, so there are no renewals
+  maxAmortization: number;
+  rateTypes: SelectOption[];
+  mortgageInsurance: 'default_insurance' | 'pmi'; // premium added to the loan, or paid monthly until the loan-to-value falls
+  landTransferTax: boolean;
+  prepaymentPenalties: boolean;
+  qualification: QualificationRules;
+  labels: { qualification: string; housingRatio: string; totalRatio: string };
+}
+
+// Adjustable-rate product: the start rate is fixed for `fixedYears`, then adjusts every `adjustmentMonths`
+export interface ArmProduct {
+  value: string;
+  label: string;
+  fixedYears: number;
+  adjustmentMonths: number;
+}
+
+// Scenario fields edited as plain numbers
+export type NumericScenarioField = {
+  [K in keyof ScenarioState]: ScenarioState[K] extends number ? K : never;
+}[keyof ScenarioState];
+
+// A term following the initial one; an empty paymentFrequency keeps the previous frequency
+export interface RenewalTerm {
+  years: number;
+  interestRate: number;
+  paymentFrequency: string;
+}
+
+// Prime rate in effect from `date` (ISO) onwards
+export interface PrimeRateChange {
+  date: string;
+  primeRate: number;
+}
+
+// One-time prepayment made with the first payment due on or after `date` (ISO),
+// or with payment `paymentNumber` when the date is empty
+export interface LumpSum {
+  date: string;
+  paymentNumber: number;
+  amount: number;
+}
+
+// A prepayment cut back to the lender's privilege; dollars for lump sums, percent for the payment increase
+export interface PrepaymentBreach {
+  kind: 'lump_sum' | 'annual_prepayment' | 'payment_increase';
+  year: number; // mortgage year, counted from the start date
+  requested: number;
+  allowed: number;
+}
+
+// Lender preset for the two prepayment privileges
+export interface PrepaymentPrivilege {
+  value: string;
+  label: string;
+  lumpSumLimit: number;
+  paymentIncreaseLimit: number;
+}
+
+// Contract rate in effect for payments due on or after `date` (ISO)
+export interface RateChange {
+  date: string;
+  interestRate: number;
+}
+
+// A plain value/label choice
+export interface SelectOption {
+  value: string;
+  label: string;
+}
+
+export interface PaymentFrequency {
+  value: string;
+  label: string;
+  paymentsPerYear: number;
+}
+
+export interface CompoundingConvention {
+  value: string;
+  label: string;
+  periodsPerYear: number;
+}
+
+export interface InsurancePremiumTier {
+  maxLoanToValue: number;
+  premiumRate: number;
+}
+
+// Down payment checks and default insurance premium; percentages are in percent
+export interface MortgageInsurance {
+  loanToValue: number; // before the premium is added
+  minimumDownPayment: number;
+  meetsMinimumDownPayment: boolean;
+  required: boolean;
+  premiumRate: number; // including any amortization surcharge
+  premium: number;
+}
+
+// Monthly private mortgage insurance on a loan above 80% loan-to-value
+export interface PrivateMortgageInsurance {
+  monthlyPremium: number;
+  cancellationDate: string | null; // balance reaches 80% of the price and the borrower may ask to cancel
+  terminationDate: string | null; // balance reaches 78% and the insurance ends by itself
+  months: number; // premiums paid
+  totalPaid: number;
+}
+
+// Borrower details used for qualification; amounts are monthly except income
+export interface BorrowerProfile {
+  annualIncome: number;
+  heating: number;
+  otherDebts: number;
+}
+
+// Costs of the home counted in qualification, taken from the scenario's ownership costs
+export interface PropertyCosts {
+  annualPropertyTax: number;
+  condoFees: number; // monthly
+}
+
+// Gross and total debt service ratios (percent) for one interest rate
+export interface DebtServiceRatios {
+  interestRate: number;
+  monthlyPayment: number;
+  gds: number;
+  tds: number;
+}
+
+export interface Qualification {
+  contract: DebtServiceRatios;
+  stressTest: DebtServiceRatios;
+  passes: boolean;
+  maxMortgage: number; // largest mortgage that passes the stress test
+}
+
+// Cost of breaking the existing mortgage; `penalty` is the larger of the two methods
+export interface PrepaymentPenalty {
+  breakDate: string;
+  balance: number;
+  remainingMonths: number;
+  threeMonthsInterest: number;
+  interestRateDifferential: number;
+  penalty: number;
+  method: 'three_months_interest' | 'interest_rate_differential';
+}
+
+// Marginal tax bracket; `rate` in percent applies to the part of the price up to `upTo`
+export interface TaxBracket {
+  upTo: number;
+  rate: number;
+}
+
+// Rebate up to `maxRebate`, reduced linearly to zero between the phase-out prices
+export interface FirstTimeBuyerRebate {
+  maxRebate: number;
+  phaseOutStart?: number;
+  phaseOutEnd?: number;
+}
+
+export interface LandTransferTaxSchedule {
+  brackets: TaxBracket[];
+  flatFee?: number;
+  // Nothing is owed up to this value; above it the brackets apply to the full price
+  exemptUpTo?: number;
+  firstTimeBuyerRebate?: FirstTimeBuyerRebate;
+}
+
+// A municipal tax is charged on top of the provincial one unless it replaces it
+export interface Municipality {
+  value: string;
+  label: string;
+  schedule: LandTransferTaxSchedule;
+  replacesProvincial?: boolean;
+}
+
+export interface Province {
+  value: string;
+  label: string;
+  insurancePstRate: number;
+  schedule: LandTransferTaxSchedule;
+  municipalities: Municipality[];
+}
+
+export interface ClosingCosts {
+  provincialTax: number;
+  municipalTax: number;
+  firstTimeBuyerRebate: number;
+  landTransferTax: number; // net of rebates
+  fees: number;
+  insurancePst: number;
+  points: number;
+  total: number;
+}
+
+export interface AmortizationItem {
+  year: number;
+  principalPaid: number;
+  interestPaid: number;
+  extraPayments: number;
+  endingBalance: number;
+}
+
+// A single payment; `principal` excludes `extra`, and `payment` is the total cash paid
+export interface AmortizationPayment {
+  paymentNumber: number;
+  year: number;
+  date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  extra: number;
+  balance: number;
+  interestRate: number;
+}
+
+export interface AmortizationScheduleInput {
+  principal: number;
+  annualInterestRate: number;
+  compoundingPeriodsPerYear: number;
+  amortizationYears: number;
+  paymentAmount: number;
+  paymentFrequency: string;
+  term: number;
+  renewals?: RenewalTerm[];
+  extraPayment: number;
+  paymentIncrease: number;
+  annualPrepayment: number;
+  lumpSums?: LumpSum[];
+  lumpSumLimit?: number; // yearly cap on lump sums and the annual prepayment, % of principal; no cap when omitted
+  startDate: string; // ISO date amortization starts (the interest adjustment date); the first payment falls one period later
+  firstPaymentDate?: string; // ISO date of the first payment when it does not fall one period after the start
+  rateChanges?: RateChange[];
+  adjustPaymentOnRateChange?: boolean; // otherwise the payment stays fixed and only the interest/principal split moves
+}
+
+// First payment whose interest reached the regular payment
+export interface TriggerPoint {
+  paymentNumber: number;
+  date: string;
+  interestRate: number;
+}
+
+// Results for one term; `assumed` marks years past the last entered term, which continue at its rate
+export interface TermSummary {
+  termNumber: number;
+  startYear: number;
+  endYear: number;
+  interestRate: number;
+  paymentFrequency: string;
+  paymentAmount: number;
+  interestPaid: number;
+  principalPaid: number;
+  endingBalance: number;
+  assumed: boolean;
+}
+
+export interface AmortizationScheduleResult {
+  yearlySchedule: AmortizationItem[];
+  paymentSchedule: AmortizationPayment[];
+  termSummaries: TermSummary[];
+  totalInterestPaid: number;
+  totalInterestPaidOverTerm: number;
+  balanceAtEndOfTerm: number;
+  maturityDate: string;
+  effectiveAmortizationYears: number;
+  triggerPoint: TriggerPoint | null;
+  negativeAmortization: boolean;
+  prepaymentBreaches: PrepaymentBreach[];
+}
+
+export interface MortgageResult {
+  monthlyPayment: number;
+  totalMortgage: number; // including any insurance premium
+  insurance: MortgageInsurance;
+  pmi: PrivateMortgageInsurance | null; // only when the market prices insurance monthly and the loan needs it
+  rateAdjustments: RateChange[]; // ARM rate at each adjustment after the fixed period
+  totalInterestTerm: number;
+  totalInterestLifetime: number;
+  balanceAtEndOfTerm: number;
+  effectiveAmortization: number;
+  amortizationSchedule: AmortizationItem[];
+  paymentSchedule: AmortizationPayment[];
+  termSummaries: TermSummary[];
+  triggerRate: number | null; // only for fixed-payment variable mortgages
+  triggerPoint: TriggerPoint | null;
+  negativeAmortization: boolean;
+  qualification: Qualification | null; // only when a borrower with income is given
+  prepaymentPenalty: PrepaymentPenalty | null;
+  prepaymentBreaches: PrepaymentBreach[]; // prepayments cut back to the lender's privileges
+  interestAdjustment: InterestAdjustment;
+  firstPaymentDate: string;
+  maturityDate: string; // end of the initial term; term figures are taken at this date
+  totalCost: number; // lifetime interest plus insurance, points, any prepayment penalty and any interest adjustment
+  closingCosts: ClosingCosts;
+  cashRequired: number; // down payment plus closing costs and any interest adjustment
+  paymentsPresentValue: number; // every payment discounted to the start date at the discount rate
+  realDollars: RealDollarFigures;
+  ownershipCosts: OwnershipCosts;
+  allInMonthlyCost: number; // monthly payment plus any PMI and the first year's monthly ownership costs
+  lifetimeOwnershipCost: number; // total borrowing cost plus ownership costs over the amortization
+  equity: EquityProjection;
+}
+
+export interface CalculationOptions {
+  startDate?: string;
+  borrower?: BorrowerProfile;
+  economics?: EconomicAssumptions;
+  indexRates?: number[]; // monthly ARM index rates from the start date; the scenario's index is held when omitted
+}
+
+// A named scenario in a comparison
+export interface Scenario {
+  id: string;
+  name: string;
+  inputs: ScenarioState;
+}
+
+// Differences are expressed as scenario minus baseline, except timeShaved (baseline minus scenario)
+export interface ComparisonDifferences {
+  monthlyPayment: number;
+  totalInterestTerm: number;
+  totalInterestLifetime: number;
+  balanceAtEndOfTerm: number;
+  timeShaved: number;
+  totalCost: number;
+  cashRequired: number;
+  paymentsPresentValue: number;
+  allInMonthlyCost: number;
+  lifetimeOwnershipCost: number;
+}
+
+export interface ScenarioComparison {
+  id: string;
+  name: string;
+  result: MortgageResult;
+  differences: ComparisonDifferences;
+}
+
+export interface Comparison {
+  baselineId: string;
+  scenarios: ScenarioComparison[];
+}
+
+// Assumptions for setting renting against buying; rates are annual percentages
+export interface RentVsBuyInputs {
+  monthlyRent: number;
+  rentInflation: number;
+  investmentReturn: number; // earned on cash the renter (or buyer) does not spend on housing
+  horizonYears: number;
+}
+
+// Position of both paths at the end of a year; year 0 is the day of purchase
+export interface RentVsBuyYear {
+  year: number;
+  homeValue: number;
+  mortgageBalance: number;
+  ownershipCost: number; // mortgage payments, property tax and maintenance for the year
+  rent: number;
+  buyerPortfolio: number;
+  renterPortfolio: number;
+  buyerNetWorth: number;
+  renterNetWorth: number;
+}
+
+export interface RentVsBuyResult {
+  years: RentVsBuyYear[];
+  breakEvenYear: number | null; // first year buying is ahead and stays ahead to the horizon
+}
+
+// Rates are annual percentages; the retirement rate applies to RRSP withdrawals
+export interface PrepayVsInvestInputs {
+  accountType: string;
+  investmentReturn: number;
+  marginalTaxRate: number;
+  retirementTaxRate: number;
+}
+
+// Investments (after tax on withdrawal) less the mortgage balance; the home is the same on both paths and left out
+export interface PrepayVsInvestYear {
+  year: number;
+  prepayBalance: number;
+  investBalance: number;
+  prepayPortfolio: number;
+  investPortfolio: number;
+  prepayNetWorth: number;
+  investNetWorth: number;
+}
+
+export interface PrepayVsInvestResult {
+  years: PrepayVsInvestYear[];
+  interestSaved: number;
+  advantage: number; // investing minus prepaying at the horizon; positive when investing comes out ahead
+  breakEvenReturn: number | null; // investment return at which both paths end equal
+}
+
+// An existing mortgage and the one that would replace it; rates are annual percentages
+export interface RefinanceInputs {
+  balance: number;
+  currentRate: number;
+  remainingAmortization: number; // years
+  remainingTermMonths: number;
+  rateDiscount: number; // discount off the posted rate the existing mortgage was signed at
+  comparisonRate: number; // lender's current posted rate for the remaining term
+  renewalRate: number; // rate the existing mortgage renews at when its term ends
+  newRate: number;
+  newAmortization: number; // years
+  legalFees: number;
+  dischargeFee: number;
+  cashOut: number;
+  financeCosts: boolean; // add the penalty and fees to the new mortgage rather than paying them in cash
+}
+
+// Net cost of each path to the end of a month: payments so far, the balance still owing and costs paid
+// in cash, less any cash taken out
+export interface RefinanceMonth {
+  month: number;
+  stayCost: number;
+  refinanceCost: number;
+}
+
+export interface RefinanceResult {
+  penalty: Omit<PrepaymentPenalty, 'breakDate'>;
+  costs: number; // penalty, legal and discharge fees
+  newMortgage: number;
+  currentPayment: number; // monthly
+  newPayment: number; // monthly
+  monthlyCashFlowChange: number; // current payment minus the new one; positive when refinancing frees up cash
+  breakEvenMonth: number | null; // first month refinancing costs no more than staying
+  stayInterest: number;
+  refinanceInterest: number;
+  interestDifference: number; // refinancing minus staying, over the life of each loan
+  months: RefinanceMonth[]; // month 0 is the refinance date
+}
+
+// Results that can be explored in the sensitivity view
+export type SensitivityMetric = 'monthlyPayment' | 'totalInterestLifetime' | 'balanceAtEndOfTerm' | 'effectiveAmortization';
+
+// A scenario input that can be varied, with the default grid step and the tornado chart's swing either side
+export interface SensitivityVariable {
+  field: NumericScenarioField;
+  label: string;
+  unit: '$' | '%' | 'years';
+  min: number;
+  max?: number;
+  step: number;
+  tornadoDelta: number;
+}
+
+export interface SensitivityRange {
+  field: NumericScenarioField;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// values[row][column] holds the metric for rowValues[row] and columnValues[column]
+export interface SensitivityGrid {
+  rowField: NumericScenarioField;
+  columnField: NumericScenarioField;
+  rowValues: number[];
+  columnValues: number[];
+  values: number[][];
+}
+
+export interface TornadoBar {
+  field: NumericScenarioField;
+  label: string;
+  lowInput: number;
+  highInput: number;
+  low: number; // metric with the input at lowInput
+  high: number;
+  swing: number; // absolute difference between low and high
+}
+
+// Mean-reverting rate model, stepped monthly; rates and volatility in percentage points
+export interface MonteCarloInputs {
+  simulations: number;
+  seed: number;
+  longRunRate: number; // rate the model reverts toward
+  reversionSpeed: number; // share of the gap to the long-run rate closed per year
+  volatility: number; // standard deviation of the yearly change
+  drift: number; // yearly shift of the long-run rate
+}
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloResult {
+  simulations: number;
+  balance: (PercentileBand & { year: number })[];
+  totalInterest: PercentileBand;
+  peakPayment: PercentileBand; // highest regular payment, before extra payments
+}
+
+// Results a goal-seek can target, including the nested premium, closing cost, penalty and stress-test figures
+export type GoalSeekMetric =
+  | 'monthlyPayment'
+  | 'totalMortgage'
+  | 'totalInterestTerm'
+  | 'totalInterestLifetime'
+  | 'balanceAtEndOfTerm'
+  | 'effectiveAmortization'
+  | 'totalCost'
+  | 'cashRequired'
+  | 'allInMonthlyCost'
+  | 'lifetimeOwnershipCost'
+  | 'insurancePremium'
+  | 'closingCosts'
+  | 'prepaymentPenalty'
+  | 'gds'
+  | 'tds';
+
+// Search range and precision for solving a scenario input
+export interface GoalSeekVariable {
+  field: NumericScenarioField;
+  label: string;
+  unit: '$' | '%' | 'years' | 'months';
+  min: number;
+  max: number;
+  decimals: number;
+}
+
+// `value` is the solved input, or the closest the range allows when the target cannot be reached
+export interface GoalSeekResult {
+  solved: boolean;
+  value: number;
+  metricValue: number;
+}
@@ -0,0 +1,2 @@
+export * from './share-state';
+export * from './sanitize';
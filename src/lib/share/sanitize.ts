@@ -0,0 +1,225 @@
+import {
+  DEFAULT_BORROWER,
+  DEFAULT_ECONOMICS,
+  DEFAULT_MONTE_CARLO,
+  DEFAULT_PREPAY_VS_INVEST,
+  DEFAULT_REFINANCE,
+  DEFAULT_RENT_VS_BUY,
+  DEFAULT_SCENARIO_INPUTS,
+  INVESTMENT_ACCOUNT_TYPES,
+  MAX_SIMULATIONS,
+  type BorrowerProfile,
+  type EconomicAssumptions,
+  type HomeValue,
+  type LumpSum,
+  type MonteCarloInputs,
+  type PrepayVsInvestInputs,
+  type PrimeRateChange,
+  type RefinanceInputs,
+  type RenewalTerm,
+  type RentVsBuyInputs,
+  type ScenarioState
+} from '@/lib/mortgage';
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isISODate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Optional dates are stored as '' when not set
+const isOptionalISODate = (value: unknown) => value === '' || isISODate(value);
+
+// Decoded numbers are clamped to these ranges so that a crafted link or file cannot send the engine
+// into years-long schedules or other runaway loops; numbers not listed are amounts from 0 to MAX_AMOUNT
+type Range = [min: number, max: number];
+
+const MAX_AMOUNT = 1000000000;
+const RATE: Range = [0, 50];
+const PERCENT: Range = [0, 100];
+const YEARS: Range = [1, 40];
+const CHANGE_PER_YEAR: Range = [-50, 50];
+const MAX_LIST_ITEMS = 100;
+
+const SCENARIO_RANGES: Partial<Record<keyof ScenarioState, Range>> = {
+  interestRate: RATE,
+  amortizationPeriod: YEARS,
+  term: YEARS,
+  paymentIncrease: PERCENT,
+  annualPrepayment: PERCENT,
+  lumpSumLimit: PERCENT,
+  paymentIncreaseLimit: PERCENT,
+  primeRate: RATE,
+  primeSpread: [-RATE[1], RATE[1]],
+  breakMonth: [0, YEARS[1] * 12],
+  postedRate: RATE,
+  rateDiscount: RATE,
+  comparisonRate: RATE,
+  armIndex: RATE,
+  armMargin: RATE,
+  armInitialCap: RATE,
+  armPeriodicCap: RATE,
+  armLifetimeCap: RATE,
+  pmiRate: PERCENT,
+  points: PERCENT,
+  maintenance: PERCENT,
+  propertyTaxEscalation: CHANGE_PER_YEAR,
+  condoFeesEscalation: CHANGE_PER_YEAR,
+  homeInsuranceEscalation: CHANGE_PER_YEAR,
+  utilitiesEscalation: CHANGE_PER_YEAR,
+  maintenanceEscalation: CHANGE_PER_YEAR,
+  appreciationRate: CHANGE_PER_YEAR
+};
+
+const RENT_VS_BUY_RANGES: Partial<Record<keyof RentVsBuyInputs, Range>> = {
+  rentInflation: CHANGE_PER_YEAR,
+  investmentReturn: CHANGE_PER_YEAR,
+  horizonYears: [1, 50]
+};
+
+const ECONOMICS_RANGES: Partial<Record<keyof EconomicAssumptions, Range>> = {
+  discountRate: CHANGE_PER_YEAR,
+  inflationRate: CHANGE_PER_YEAR
+};
+
+const REFINANCE_RANGES: Partial<Record<keyof RefinanceInputs, Range>> = {
+  currentRate: RATE,
+  remainingAmortization: YEARS,
+  remainingTermMonths: [0, 120],
+  rateDiscount: RATE,
+  comparisonRate: RATE,
+  renewalRate: RATE,
+  newRate: RATE,
+  newAmortization: YEARS
+};
+
+// RRSP contributions are grossed up by 1 / (1 - marginal tax rate), so that rate stays below 100%
+const PREPAY_VS_INVEST_RANGES: Partial<Record<keyof PrepayVsInvestInputs, Range>> = {
+  investmentReturn: CHANGE_PER_YEAR,
+  marginalTaxRate: [0, 99],
+  retirementTaxRate: PERCENT
+};
+
+// The seed is used as an unsigned 32-bit integer, so any seed in that span reproduces its run
+const MONTE_CARLO_RANGES: Partial<Record<keyof MonteCarloInputs, Range>> = {
+  simulations: [1, MAX_SIMULATIONS],
+  seed: [-(2 ** 32), 2 ** 32],
+  longRunRate: RATE,
+  reversionSpeed: [0, 12],
+  volatility: RATE,
+  drift: CHANGE_PER_YEAR
+};
+
+const clamp = (value: number, [min, max]: Range = [0, MAX_AMOUNT]) => Math.min(Math.max(value, min), max);
+
+// List items are rebuilt from their checked fields, or null when they do not match
+const toRenewalTerm = (value: unknown): RenewalTerm | null => {
+  if (!isRecord(value) || !isFiniteNumber(value.years) || !isFiniteNumber(value.interestRate) || typeof value.paymentFrequency !== 'string') {
+    return null;
+  }
+  return { years: clamp(value.years, YEARS), interestRate: clamp(value.interestRate, RATE), paymentFrequency: value.paymentFrequency };
+};
+
+const toPrimeRateChange = (value: unknown): PrimeRateChange | null => {
+  if (!isRecord(value) || !isISODate(value.date) || !isFiniteNumber(value.primeRate)) return null;
+  return { date: value.date, primeRate: clamp(value.primeRate, RATE) };
+};
+
+const toLumpSum = (value: unknown): LumpSum | null => {
+  if (!isRecord(value) || !isOptionalISODate(value.date) || !isFiniteNumber(value.paymentNumber) || !isFiniteNumber(value.amount)) {
+    return null;
+  }
+  return {
+    date: value.date as string,
+    paymentNumber: Math.round(clamp(value.paymentNumber, [0, YEARS[1] * 52])),
+    amount: clamp(value.amount)
+  };
+};
+
+const toHomeValue = (value: unknown): HomeValue | null => {
+  if (!isRecord(value) || !isISODate(value.date) || !isFiniteNumber(value.value)) return null;
+  return { date: value.date, value: clamp(value.value) };
+};
+
+const ARRAY_ITEM_SANITIZERS: Partial<Record<keyof ScenarioState, (value: unknown) => unknown>> = {
+  renewals: toRenewalTerm,
+  primeRateChanges: toPrimeRateChange,
+  lumpSums: toLumpSum,
+  homeValues: toHomeValue
+};
+
+const FIELD_GUARDS: Partial<Record<keyof ScenarioState | keyof PrepayVsInvestInputs, (value: unknown) => boolean>> = {
+  startDate: isOptionalISODate,
+  firstPaymentDate: isOptionalISODate,
+  accountType: value => INVESTMENT_ACCOUNT_TYPES.some(type => type.value === value)
+};
+
+// Each item of a list, or null when the list or any of its items does not match
+const sanitizeList = (key: string, raw: unknown) => {
+  const sanitize = ARRAY_ITEM_SANITIZERS[key as keyof ScenarioState];
+  if (!sanitize || !Array.isArray(raw) || raw.length > MAX_LIST_ITEMS) return null;
+
+  const items = raw.map(sanitize);
+  return items.every(item => item !== null) ? items : null;
+};
+
+// Keep only the fields of `defaults` that `raw` overrides with a value of the right type, with numbers clamped to `ranges`
+// Returns the merged object and whether anything had to be discarded
+const mergeWithDefaults = <T extends object>(
+  defaults: T,
+  raw: unknown,
+  ranges: Partial<Record<keyof T, Range>> = {}
+): { value: T; valid: boolean } => {
+  const value = { ...defaults } as Record<string, unknown>;
+  if (!isRecord(raw)) return { value: defaults, valid: false };
+
+  let valid = true;
+  for (const [key, fallback] of Object.entries(defaults)) {
+    if (!(key in raw)) continue;
+    const candidate = raw[key];
+
+    if (Array.isArray(fallback)) {
+      const items = sanitizeList(key, candidate);
+      if (items) {
+        value[key] = items;
+      } else {
+        valid = false;
+      }
+      continue;
+    }
+
+    const isValid = FIELD_GUARDS[key as keyof typeof FIELD_GUARDS]?.(candidate)
+      ?? (typeof fallback === 'number' ? isFiniteNumber(candidate) : typeof candidate === typeof fallback);
+
+    if (!isValid) {
+      valid = false;
+    } else if (typeof fallback === 'number') {
+      value[key] = clamp(candidate as number, ranges[key as keyof T]);
+    } else {
+      value[key] = candidate;
+    }
+  }
+
+  return { value: value as T, valid };
+};
+
+// Restore scenario inputs from untrusted data; missing fields take their defaults
+export const sanitizeScenarioInputs = (raw: unknown) => mergeWithDefaults<ScenarioState>(DEFAULT_SCENARIO_INPUTS, raw, SCENARIO_RANGES);
+
+export const sanitizeBorrower = (raw: unknown) => mergeWithDefaults<BorrowerProfile>(DEFAULT_BORROWER, raw);
+
+export const sanitizeRentVsBuy = (raw: unknown) => mergeWithDefaults<RentVsBuyInputs>(DEFAULT_RENT_VS_BUY, raw, RENT_VS_BUY_RANGES);
+
+export const sanitizeEconomics = (raw: unknown) => mergeWithDefaults<EconomicAssumptions>(DEFAULT_ECONOMICS, raw, ECONOMICS_RANGES);
+
+export const sanitizeRefinance = (raw: unknown) => mergeWithDefaults<RefinanceInputs>(DEFAULT_REFINANCE, raw, REFINANCE_RANGES);
+
+export const sanitizeMonteCarlo = (raw: unknown) => mergeWithDefaults<MonteCarloInputs>(DEFAULT_MONTE_CARLO, raw, MONTE_CARLO_RANGES);
+
+export const sanitizePrepayVsInvest = (raw: unknown) => mergeWithDefaults<PrepayVsInvestInputs>(
+  DEFAULT_PREPAY_VS_INVEST,
+  raw,
+  PREPAY_VS_INVEST_RANGES
+);
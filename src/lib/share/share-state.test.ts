@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BORROWER, DEFAULT_ECONOMICS, DEFAULT_MONTE_CARLO, DEFAULT_PREPAY_VS_INVEST, DEFAULT_REFINANCE, DEFAULT_RENT_VS_BUY, DEFAULT_SCENARIO_INPUTS } from '@/lib/mortgage';
+import { decodeShareState, encodeShareState, type SharedState } from './share-state';
+
+const state: SharedState = {
+  scenarios: [
+    { id: 'scenario-1', name: 'Big Bank — 5 yr', inputs: DEFAULT_SCENARIO_INPUTS },
+    {
+      id: 'scenario-7',
+      name: 'Credit union',
+      inputs: {
+        ...DEFAULT_SCENARIO_INPUTS,
+        interestRate: 4.19,
+        renewals: [{ years: 3, interestRate: 4.5, paymentFrequency: 'weekly' }],
+        lumpSums: [{ date: '2026-03-01', paymentNumber: 0, amount: 20000 }, { date: '', paymentNumber: 60, amount: 5000 }],
+        lumpSumLimit: 15,
+        firstTimeBuyer: true
+      }
+    }
+  ],
+  baselineId: 'scenario-7',
+  activeTab: 'results',
+  borrower: { ...DEFAULT_BORROWER, annualIncome: 98000 },
+  rentVsBuy: { ...DEFAULT_RENT_VS_BUY, monthlyRent: 3100, horizonYears: 10 },
+  economics: { discountRate: 4, inflationRate: 3 },
+  refinance: { ...DEFAULT_REFINANCE, balance: 310000, financeCosts: false },
+  monteCarlo: { ...DEFAULT_MONTE_CARLO, seed: 4242, simulations: 2500, volatility: 1.4, drift: -0.05 },
+  prepayVsInvest: { accountType: 'rrsp', investmentReturn: 7.5, marginalTaxRate: 43, retirementTaxRate: 25 },
+  display: { scheduleScenarioId: 'scenario-7', showRealDollars: true }
+};
+
+const encodeWith = (payload: unknown) => `#s=1.${Buffer.from(JSON.stringify(payload)).toString('base64url')}`;
+
+describe('encodeShareState', () => {
+  it('produces a URL-safe, versioned fragment', () => {
+    expect(encodeShareState(state)).toMatch(/^s=6\.[A-Za-z0-9_-]+$/);
+  });
+
+  it('leaves default values out of the link', () => {
+    const defaults = encodeShareState({
+      ...state,
+      scenarios: [state.scenarios[0]],
+      borrower: DEFAULT_BORROWER,
+      rentVsBuy: DEFAULT_RENT_VS_BUY,
+      economics: DEFAULT_ECONOMICS,
+      refinance: DEFAULT_REFINANCE,
+      monteCarlo: DEFAULT_MONTE_CARLO,
+      prepayVsInvest: DEFAULT_PREPAY_VS_INVEST,
+      display: { scheduleScenarioId: 'scenario-1', showRealDollars: false }
+    });
+    expect(defaults.length).toBeLessThan(120);
+  });
+});
+
+describe('decodeShareState', () => {
+  it('restores the encoded state with regenerated ids', () => {
+    const decoded = decodeShareState(`#${encodeShareState(state)}`);
+
+    expect(decoded.warning).toBeNull();
+    expect(decoded.state?.scenarios.map(scenario => scenario.id)).toEqual(['scenario-1', 'scenario-2']);
+    expect(decoded.state?.scenarios.map(scenario => scenario.name)).toEqual(['Big Bank — 5 yr', 'Credit union']);
+    expect(decoded.state?.scenarios[1].inputs).toEqual(state.scenarios[1].inputs);
+    expect(decoded.state?.baselineId).toBe('scenario-2');
+    expect(decoded.state?.activeTab).toBe('results');
+    expect(decoded.state?.borrower).toEqual(state.borrower);
+    expect(decoded.state?.rentVsBuy).toEqual(state.rentVsBuy);
+    expect(decoded.state?.economics).toEqual(state.economics);
+    expect(decoded.state?.refinance).toEqual(state.refinance);
+    expect(decoded.state?.monteCarlo).toEqual(state.monteCarlo);
+    expect(decoded.state?.prepayVsInvest).toEqual(state.prepayVsInvest);
+    expect(decoded.state?.display).toEqual({ scheduleScenarioId: 'scenario-2', showRealDollars: true });
+  });
+
+  it('restores links from older versions with defaults for settings added since', () => {
+    const decoded = decodeShareState(encodeWith({ s: [{ n: 'Fixed', i: {} }], b: 0, t: 'rent_vs_buy', w: {}, d: 0 }));
+
+    expect(decoded.warning).toBeNull();
+    expect(decoded.state?.activeTab).toBe('rent_vs_buy');
+    expect(decoded.state?.rentVsBuy).toEqual(DEFAULT_RENT_VS_BUY);
+    expect(decoded.state?.economics).toEqual(DEFAULT_ECONOMICS);
+    expect(decoded.state?.refinance).toEqual(DEFAULT_REFINANCE);
+    expect(decoded.state?.monteCarlo).toEqual(DEFAULT_MONTE_CARLO);
+    expect(decoded.state?.prepayVsInvest).toEqual(DEFAULT_PREPAY_VS_INVEST);
+    expect(decoded.state?.display.showRealDollars).toBe(false);
+  });
+
+  it('ignores fragments that are not share links', () => {
+    expect(decodeShareState('')).toEqual({ state: null, warning: null });
+    expect(decodeShareState('#results')).toEqual({ state: null, warning: null });
+  });
+
+  it('warns about links from an unsupported version', () => {
+    const decoded = decodeShareState('#s=99.e30');
+
+    expect(decoded.state).toBeNull();
+    expect(decoded.warning).toContain('version 99');
+  });
+
+  it('warns about damaged links', () => {
+    expect(decodeShareState('#s=1.not-json').warning).toContain('damaged');
+    expect(decodeShareState(encodeWith({ s: [] })).warning).toContain('no scenarios');
+  });
+
+  it('replaces invalid fields with defaults and keeps the rest', () => {
+    const decoded = decodeShareState(encodeWith({
+      s: [{ n: 'Mixed', i: { interestRate: 'high', purchasePrice: 650000, renewals: [{ years: 'five' }] } }],
+      b: 4,
+      t: 'settings'
+    }));
+    const inputs = decoded.state!.scenarios[0].inputs;
+
+    expect(decoded.warning).toContain('replaced with defaults');
+    expect(inputs.purchasePrice).toBe(650000);
+    expect(inputs.interestRate).toBe(DEFAULT_SCENARIO_INPUTS.interestRate);
+    expect(inputs.renewals).toEqual([]);
+    expect(decoded.state?.baselineId).toBe('scenario-1');
+    expect(decoded.state?.activeTab).toBe('input');
+  });
+
+  it('clamps numbers to the input ranges before they reach the calculator', () => {
+    const inputs = decodeShareState(encodeWith({
+      s: [{
+        n: 'Crafted',
+        i: {
+          amortizationPeriod: 1e9,
+          interestRate: -4,
+          purchasePrice: 1e300,
+          lumpSums: [{ date: '', paymentNumber: 1e12, amount: -5000 }]
+        }
+      }]
+    })).state!.scenarios[0].inputs;
+
+    expect(inputs.amortizationPeriod).toBe(40);
+    expect(inputs.interestRate).toBe(0);
+    expect(inputs.purchasePrice).toBe(1000000000);
+    expect(inputs.lumpSums).toEqual([{ date: '', paymentNumber: 2080, amount: 0 }]);
+  });
+
+  it('caps the simulation count and keeps the seed that reproduces a run', () => {
+    const monteCarlo = decodeShareState(encodeWith({ s: [{ n: 'Fixed', i: {} }], m: { simulations: 1e9, seed: -7 } })).state!.monteCarlo;
+
+    expect(monteCarlo).toEqual({ ...DEFAULT_MONTE_CARLO, simulations: 10000, seed: -7 });
+  });
+
+  it('keeps the prepay-vs-invest tax rates below 100% and the account type to the known ones', () => {
+    const decoded = decodeShareState(encodeWith({
+      s: [{ n: 'Fixed', i: {} }],
+      p: { accountType: 'crypto', marginalTaxRate: 100, retirementTaxRate: -5 }
+    }));
+
+    expect(decoded.warning).toContain('replaced with defaults');
+    expect(decoded.state!.prepayVsInvest).toEqual({ ...DEFAULT_PREPAY_VS_INVEST, marginalTaxRate: 99, retirementTaxRate: 0 });
+  });
+
+  it('rejects lists too long to have come from the calculator', () => {
+    const lumpSums = Array.from({ length: 101 }, () => ({ date: '', paymentNumber: 1, amount: 1 }));
+    const decoded = decodeShareState(encodeWith({ s: [{ n: 'Crafted', i: { lumpSums } }] }));
+
+    expect(decoded.warning).toContain('replaced with defaults');
+    expect(decoded.state!.scenarios[0].inputs.lumpSums).toEqual([]);
+  });
+});
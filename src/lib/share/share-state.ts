@@ -0,0 +1,186 @@
+import {
+  DEFAULT_BORROWER,
+  DEFAULT_ECONOMICS,
+  DEFAULT_MONTE_CARLO,
+  DEFAULT_PREPAY_VS_INVEST,
+  DEFAULT_REFINANCE,
+  DEFAULT_RENT_VS_BUY,
+  DEFAULT_SCENARIO_INPUTS,
+  type BorrowerProfile,
+  type EconomicAssumptions,
+  type MonteCarloInputs,
+  type PrepayVsInvestInputs,
+  type RefinanceInputs,
+  type RentVsBuyInputs,
+  type Scenario,
+  type ScenarioState
+} from '@/lib/mortgage';
+import {
+  isFiniteNumber,
+  isRecord,
+  sanitizeBorrower,
+  sanitizeEconomics,
+  sanitizeMonteCarlo,
+  sanitizePrepayVsInvest,
+  sanitizeRefinance,
+  sanitizeRentVsBuy,
+  sanitizeScenarioInputs
+} from './sanitize';
+
+// Bump when the payload shape changes; decodeShareState rejects links from newer versions. Each version
+// only adds keys to the one before, so older links decode with defaults for whatever they lack
+export const SHARE_STATE_VERSION = 6;
+
+const HASH_PREFIX = 's=';
+
+export interface DisplayOptions {
+  scheduleScenarioId: string;
+  showRealDollars: boolean;
+}
+
+// Everything needed to reopen a comparison exactly as it was shared
+export interface SharedState {
+  scenarios: Scenario[];
+  baselineId: string;
+  activeTab: string;
+  borrower: BorrowerProfile;
+  rentVsBuy: RentVsBuyInputs;
+  economics: EconomicAssumptions;
+  refinance: RefinanceInputs;
+  monteCarlo: MonteCarloInputs;
+  prepayVsInvest: PrepayVsInvestInputs;
+  display: DisplayOptions;
+}
+
+export interface DecodedShareState {
+  state: SharedState | null;
+  warning: string | null;
+}
+
+// Payload with short keys to keep links compact: inputs store only fields that differ from the defaults,
+// and scenarios are referenced by position because ids are regenerated on load
+interface SharePayload {
+  s: { n: string; i: Partial<ScenarioState> }[]; // scenarios
+  b: number; // baseline
+  t: string; // active tab
+  w: Partial<BorrowerProfile>; // borrower
+  d: number; // scenario shown in the schedule table
+  r?: Partial<RentVsBuyInputs>; // rent vs buy, since version 2
+  e?: Partial<EconomicAssumptions>; // discount and inflation rates, since version 3
+  c?: true; // figures in today's dollars, since version 3
+  f?: Partial<RefinanceInputs>; // refinance, since version 4
+  m?: Partial<MonteCarloInputs>; // rate simulation seed and model, since version 5
+  p?: Partial<PrepayVsInvestInputs>; // prepay vs invest, since version 6
+}
+
+const ACTIVE_TABS = ['input', 'results', 'rent_vs_buy', 'refinance', 'sensitivity'];
+
+// Fields whose value differs from the default
+const diffFromDefaults = <T extends object>(defaults: T, value: T): Partial<T> => {
+  return Object.fromEntries(
+    Object.entries(value).filter(([key, field]) => JSON.stringify(field) !== JSON.stringify(defaults[key as keyof T]))
+  ) as Partial<T>;
+};
+
+// base64url of the UTF-8 JSON, so the hash survives chat apps and email clients untouched
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+// Settings added after version 1 are left out entirely while they hold their defaults
+const ifChanged = <K extends string, T extends object>(key: K, value: T): Partial<Record<K, T>> => {
+  return Object.keys(value).length > 0 ? ({ [key]: value } as Record<K, T>) : {};
+};
+
+// Serialize the state into a URL hash fragment (without the leading '#')
+export const encodeShareState = (state: SharedState) => {
+  const payload: SharePayload = {
+    s: state.scenarios.map(scenario => ({
+      n: scenario.name,
+      i: diffFromDefaults(DEFAULT_SCENARIO_INPUTS, scenario.inputs)
+    })),
+    b: Math.max(0, state.scenarios.findIndex(scenario => scenario.id === state.baselineId)),
+    t: state.activeTab,
+    w: diffFromDefaults(DEFAULT_BORROWER, state.borrower),
+    d: Math.max(0, state.scenarios.findIndex(scenario => scenario.id === state.display.scheduleScenarioId)),
+    ...ifChanged('r', diffFromDefaults(DEFAULT_RENT_VS_BUY, state.rentVsBuy)),
+    ...ifChanged('e', diffFromDefaults(DEFAULT_ECONOMICS, state.economics)),
+    ...(state.display.showRealDollars && { c: true as const }),
+    ...ifChanged('f', diffFromDefaults(DEFAULT_REFINANCE, state.refinance)),
+    ...ifChanged('m', diffFromDefaults(DEFAULT_MONTE_CARLO, state.monteCarlo)),
+    ...ifChanged('p', diffFromDefaults(DEFAULT_PREPAY_VS_INVEST, state.prepayVsInvest))
+  };
+
+  return `${HASH_PREFIX}${SHARE_STATE_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+};
+
+const fromPayload = (payload: unknown): DecodedShareState => {
+  if (!isRecord(payload) || !Array.isArray(payload.s) || payload.s.length === 0) {
+    return { state: null, warning: 'This share link has no scenarios in it, so the default scenarios are shown.' };
+  }
+
+  let valid = true;
+  const scenarios = payload.s.map((raw: unknown, index): Scenario => {
+    const entry = isRecord(raw) ? raw : {};
+    const inputs = sanitizeScenarioInputs(entry.i ?? {});
+    valid &&= inputs.valid && typeof entry.n === 'string';
+
+    return {
+      id: `scenario-${index + 1}`,
+      name: typeof entry.n === 'string' && entry.n ? entry.n : `Scenario ${index + 1}`,
+      inputs: inputs.value
+    };
+  });
+
+  const borrower = sanitizeBorrower(payload.w ?? {});
+  const rentVsBuy = sanitizeRentVsBuy(payload.r ?? {});
+  const economics = sanitizeEconomics(payload.e ?? {});
+  const refinance = sanitizeRefinance(payload.f ?? {});
+  const monteCarlo = sanitizeMonteCarlo(payload.m ?? {});
+  const prepayVsInvest = sanitizePrepayVsInvest(payload.p ?? {});
+  valid &&= [borrower, rentVsBuy, economics, refinance, monteCarlo, prepayVsInvest].every(setting => setting.valid);
+
+  const scenarioAt = (index: unknown) => scenarios[isFiniteNumber(index) && scenarios[index] ? index : 0].id;
+  const activeTab = typeof payload.t === 'string' && ACTIVE_TABS.includes(payload.t) ? payload.t : 'input';
+
+  return {
+    state: {
+      scenarios,
+      baselineId: scenarioAt(payload.b),
+      activeTab,
+      borrower: borrower.value,
+      rentVsBuy: rentVsBuy.value,
+      economics: economics.value,
+      refinance: refinance.value,
+      monteCarlo: monteCarlo.value,
+      prepayVsInvest: prepayVsInvest.value,
+      display: { scheduleScenarioId: scenarioAt(payload.d), showRealDollars: payload.c === true }
+    },
+    warning: valid ? null : 'Some values in this share link could not be read and were replaced with defaults.'
+  };
+};
+
+// Restore state from a URL hash; links that are not share links decode to no state and no warning
+export const decodeShareState = (hash: string): DecodedShareState => {
+  const fragment = hash.replace(/^#/, '');
+  if (!fragment.startsWith(HASH_PREFIX)) return { state: null, warning: null };
+
+  const [version, data] = fragment.slice(HASH_PREFIX.length).split('.', 2);
+  const versionNumber = Number(version);
+  if (!Number.isInteger(versionNumber) || versionNumber < 1 || versionNumber > SHARE_STATE_VERSION) {
+    return { state: null, warning: `This share link uses an unsupported format (version ${version}), so the default scenarios are shown.` };
+  }
+
+  try {
+    return fromPayload(JSON.parse(fromBase64Url(data ?? '')));
+  } catch {
+    return { state: null, warning: 'This share link is damaged or incomplete, so the default scenarios are shown.' };
+  }
+};